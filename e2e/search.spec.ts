@@ -0,0 +1,61 @@
+// e2e/search.spec.ts
+
+import { expect, Page, test } from '@playwright/test';
+
+const searchBox = (page: Page) => page.getByPlaceholder(/Try:/);
+
+async function search(page: Page, term: string) {
+  await searchBox(page).fill(term);
+  await page.getByRole('button', { name: 'Search', exact: true }).click();
+}
+
+const results = (page: Page) =>
+  page.locator('section', { has: page.getByRole('heading', { name: 'Search Results' }) });
+
+test.describe('search', () => {
+  test.beforeEach(async ({ page }) => {
+    await page.goto('/');
+    await expect(page.getByRole('heading', { name: 'Trending Movies (Today)' })).toBeVisible();
+  });
+
+  test('shows the home lists from the mock TMDB', async ({ page }) => {
+    const popular = page.locator('section', { has: page.getByRole('heading', { name: 'Popular Movies (All Time)' }) });
+    await expect(popular.getByText('Interstellar').first()).toBeVisible();
+  });
+
+  test('turns a natural-language query into filters and results', async ({ page }) => {
+    await search(page, 'sci-fi movies with Tom Hardy');
+
+    const section = results(page);
+    await expect(section.getByText('Discovering movies matching these filters')).toBeVisible();
+    await expect(section.getByText('Inception').first()).toBeVisible();
+    await expect(section.getByText('Mad Max: Fury Road').first()).toBeVisible();
+    await expect(section.getByText('The Dark Knight')).toHaveCount(0);
+    await expect(page).toHaveURL(/q=sci-fi\+movies\+with\+Tom\+Hardy/);
+    await expect(page).toHaveURL(/with_cast=2524/);
+  });
+
+  test('restores a search from the URL', async ({ page }) => {
+    await page.goto('/?q=inception');
+    await expect(results(page).getByText('Inception').first()).toBeVisible();
+    await expect(searchBox(page)).toHaveValue('inception');
+  });
+
+  test('says so when nothing matches', async ({ page }) => {
+    await search(page, 'qwxzv nonexistent title');
+    await expect(results(page).getByText('No results found for this query.')).toBeVisible();
+  });
+
+  test('shows a TMDB error when TMDB fails', async ({ page }) => {
+    await search(page, 'tmdb-error');
+    const section = results(page);
+    await expect(section.getByText('TMDB error')).toBeVisible();
+    await expect(section.getByText(/Request id:/)).toBeVisible();
+  });
+
+  test('falls back to the basic parser when the LLM fails', async ({ page }) => {
+    await search(page, 'llm-error inception');
+    const section = results(page);
+    await expect(section.getByText(/the basic parser handled this search/)).toBeVisible();
+  });
+});
@@ -0,0 +1,362 @@
+// mock/tmdb/server.mjs
+
+// An offline stand-in for the TMDB API, serving the routes the app uses from
+// a small fixture catalogue (fixtures.json) so the app can run without
+// network access or a TMDB token. Start it with `npm run mock:tmdb` and point
+// the app at it:
+//   TMDB_API_BASE_URL=http://127.0.0.1:4010/3/ TMDB_ACCESS_TOKEN=offline npm run dev
+//
+// Environment:
+//   MOCK_TMDB_PORT        port to listen on (default 4010)
+//   MOCK_TMDB_FIXTURES    fixture catalogue to serve instead of fixtures.json
+//   MOCK_TMDB_TOKEN       bearer token to require; any token is accepted when unset
+//   MOCK_TMDB_LATENCY_MS  delay added to every response, e.g. to see loading states
+//
+// Error states are triggered through the search text (the `query` parameter):
+//   tmdb-error       500, as when TMDB has an outage
+//   tmdb-rate-limit  429 with Retry-After, as when the request quota is spent
+// Empty results need no trigger: any text that matches nothing will do.
+// Discover supports the filters the app sends; others are accepted and ignored.
+
+import { readFileSync } from 'fs';
+import { createServer } from 'http';
+
+const PORT = Number(process.env.MOCK_TMDB_PORT ?? 4010);
+const LATENCY_MS = Number(process.env.MOCK_TMDB_LATENCY_MS ?? 0);
+const TOKEN = process.env.MOCK_TMDB_TOKEN;
+const FIXTURES_FILE = process.env.MOCK_TMDB_FIXTURES ?? new URL('./fixtures.json', import.meta.url);
+
+const PAGE_SIZE = 20;
+const IMAGE_BASE_URL = 'http://image.tmdb.org/t/p/';
+
+const fixtures = JSON.parse(readFileSync(FIXTURES_FILE, 'utf8'));
+const peopleById = new Map(fixtures.people.map(person => [person.id, person]));
+
+// TMDB's own error bodies, so the app's error handling sees what it would in production
+const ERRORS = {
+  unauthorized: [401, 7, 'Invalid API key: You must be granted a valid key.'],
+  notFound: [404, 34, 'The resource you requested could not be found.'],
+  rateLimited: [429, 25, 'Your request count (#) is over the allowed limit of (40).'],
+  internal: [500, 11, 'Internal error: Something went wrong, contact TMDb.'],
+};
+
+class MockError extends Error {
+  constructor(kind, headers = {}) {
+    super(ERRORS[kind][2]);
+    this.kind = kind;
+    this.headers = headers;
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Fixture records in TMDB's shapes
+// ---------------------------------------------------------------------------
+
+const movieItem = movie => ({
+  id: movie.id,
+  title: movie.title,
+  original_title: movie.original_title ?? movie.title,
+  original_language: movie.original_language,
+  overview: movie.overview,
+  release_date: movie.release_date,
+  genre_ids: movie.genre_ids,
+  vote_average: movie.vote_average,
+  vote_count: movie.vote_count,
+  popularity: movie.popularity,
+  poster_path: null,
+  backdrop_path: null,
+  adult: false,
+});
+
+const tvItem = show => ({
+  id: show.id,
+  name: show.name,
+  original_name: show.original_name ?? show.name,
+  original_language: show.original_language,
+  overview: show.overview,
+  first_air_date: show.first_air_date,
+  genre_ids: show.genre_ids,
+  vote_average: show.vote_average,
+  vote_count: show.vote_count,
+  popularity: show.popularity,
+  poster_path: null,
+  backdrop_path: null,
+});
+
+const involves = (record, personId) =>
+  record.cast.some(([id]) => id === personId) || record.directors.includes(personId);
+
+const creditsOf = record => ({
+  cast: record.cast.map(([id, character], order) => ({
+    id, name: peopleById.get(id)?.name ?? '', character, profile_path: null, order,
+  })),
+  crew: record.directors.map(id => ({
+    id, name: peopleById.get(id)?.name ?? '', job: 'Director', department: 'Directing',
+  })),
+});
+
+// Every title featuring or directed by the person, most popular first
+const knownFor = personId => [
+  ...fixtures.movies.filter(movie => involves(movie, personId)).map(movie => ({ ...movieItem(movie), media_type: 'movie' })),
+  ...fixtures.tv.filter(show => involves(show, personId)).map(show => ({ ...tvItem(show), media_type: 'tv' })),
+].sort((a, b) => b.popularity - a.popularity).slice(0, 3);
+
+const personItem = person => ({
+  id: person.id,
+  name: person.name,
+  known_for_department: person.department,
+  popularity: person.popularity,
+  profile_path: null,
+  known_for: knownFor(person.id),
+});
+
+const watchProvidersOf = (record, media) => {
+  const flatrate = fixtures.providers
+    .filter(provider => record.providers.includes(provider.provider_id))
+    .map(({ provider_id, provider_name }) => ({ provider_id, provider_name, logo_path: null }));
+  return {
+    results: Object.fromEntries(fixtures.regions.map(region => [
+      region,
+      { link: `https://www.themoviedb.org/${media}/${record.id}/watch?locale=${region}`, flatrate },
+    ])),
+  };
+};
+
+// Titles of the same media type sharing a genre, most popular first
+const recommendationsOf = (record, records) =>
+  records.filter(other => other.id !== record.id && other.genre_ids.some(id => record.genre_ids.includes(id)));
+
+// ---------------------------------------------------------------------------
+// Search and discover
+// ---------------------------------------------------------------------------
+
+// Case- and accent-insensitive, like TMDB's own matching
+const fold = text => text.normalize('NFD').replace(/\p{Diacritic}/gu, '').toLowerCase();
+const matches = (query, ...names) => names.some(name => name && fold(name).includes(fold(query)));
+
+const byPopularity = (a, b) => b.popularity - a.popularity;
+
+const ids = value => value.split(/[,|]/).map(Number);
+
+// TMDB reads ',' as "all of" and '|' as "any of"
+const matchesIds = (value, has) => (value.includes('|') ? ids(value).some(has) : ids(value).every(has));
+
+const yearOf = date => date.slice(0, 4);
+
+function discover(records, media, params) {
+  const dateField = media === 'movie' ? 'release_date' : 'first_air_date';
+  const filters = {
+    with_genres: (record, value) => matchesIds(value, id => record.genre_ids.includes(id)),
+    without_genres: (record, value) => !ids(value).some(id => record.genre_ids.includes(id)),
+    with_keywords: (record, value) => matchesIds(value, id => record.keywords.includes(id)),
+    with_cast: (record, value) => matchesIds(value, id => record.cast.some(([castId]) => castId === id)),
+    with_crew: (record, value) => matchesIds(value, id => record.directors.includes(id)),
+    with_people: (record, value) => matchesIds(value, id => involves(record, id)),
+    with_watch_providers: (record, value) => matchesIds(value, id => record.providers.includes(id)),
+    with_original_language: (record, value) => record.original_language === value,
+    'vote_average.gte': (record, value) => record.vote_average >= Number(value),
+    'vote_average.lte': (record, value) => record.vote_average <= Number(value),
+    'vote_count.gte': (record, value) => record.vote_count >= Number(value),
+    'with_runtime.gte': (record, value) => (record.runtime ?? 0) >= Number(value),
+    'with_runtime.lte': (record, value) => (record.runtime ?? 0) <= Number(value),
+    year: (record, value) => yearOf(record[dateField]) === value,
+    primary_release_year: (record, value) => yearOf(record[dateField]) === value,
+    first_air_date_year: (record, value) => yearOf(record[dateField]) === value,
+    'primary_release_date.gte': (record, value) => record[dateField] >= value,
+    'primary_release_date.lte': (record, value) => record[dateField] <= value,
+    'release_date.gte': (record, value) => record[dateField] >= value,
+    'release_date.lte': (record, value) => record[dateField] <= value,
+    'first_air_date.gte': (record, value) => record[dateField] >= value,
+    'first_air_date.lte': (record, value) => record[dateField] <= value,
+  };
+
+  const [field, direction] = (params.sort_by ?? 'popularity.desc').split('.');
+  const sortKey = {
+    primary_release_date: dateField, first_air_date: dateField, title: 'title', name: 'name',
+    vote_average: 'vote_average', vote_count: 'vote_count',
+  }[field] ?? 'popularity';
+  const sign = direction === 'asc' ? 1 : -1;
+
+  return records
+    .filter(record => Object.entries(filters).every(([key, test]) => params[key] === undefined || test(record, params[key])))
+    .sort((a, b) => sign * (a[sortKey] < b[sortKey] ? -1 : a[sortKey] > b[sortKey] ? 1 : 0));
+}
+
+function search(records, params, nameOf, dateField) {
+  const year = params.primary_release_year ?? params.first_air_date_year ?? params.year;
+  return records
+    .filter(record => matches(params.query ?? '', nameOf(record), record.original_title, record.original_name))
+    .filter(record => !year || yearOf(record[dateField]) === year)
+    .sort(byPopularity);
+}
+
+// ---------------------------------------------------------------------------
+// Routes
+// ---------------------------------------------------------------------------
+
+function paginate(items, params) {
+  const page = Math.max(1, Number(params.page ?? 1) || 1);
+  return {
+    page,
+    results: items.slice((page - 1) * PAGE_SIZE, page * PAGE_SIZE),
+    total_pages: Math.max(1, Math.ceil(items.length / PAGE_SIZE)),
+    total_results: items.length,
+  };
+}
+
+const movies = () => [...fixtures.movies].sort(byPopularity);
+const shows = () => [...fixtures.tv].sort(byPopularity);
+const withMedia = (items, media_type) => items.map(item => ({ ...item, media_type }));
+
+function trending(media) {
+  switch (media) {
+    case 'movie':
+      return movies().map(movieItem);
+    case 'tv':
+      return shows().map(tvItem);
+    case 'person':
+      return [...fixtures.people].sort(byPopularity).map(personItem);
+    case 'all':
+      return [...withMedia(fixtures.movies.map(movieItem), 'movie'), ...withMedia(fixtures.tv.map(tvItem), 'tv')].sort(byPopularity);
+    default:
+      throw new MockError('notFound');
+  }
+}
+
+function movieDetails(movie, appends) {
+  const parts = {
+    credits: () => creditsOf(movie),
+    keywords: () => ({ keywords: fixtures.keywords.filter(keyword => movie.keywords.includes(keyword.id)) }),
+    videos: () => ({ results: [] }),
+    images: () => ({ backdrops: [], logos: [], posters: [] }),
+    release_dates: () => ({
+      results: [{ iso_3166_1: 'US', release_dates: [{ certification: movie.certification ?? '', type: 3, release_date: `${movie.release_date}T00:00:00.000Z` }] }],
+    }),
+    'watch/providers': () => watchProvidersOf(movie, 'movie'),
+    recommendations: () => paginate(recommendationsOf(movie, movies()).map(movieItem), {}),
+    similar: () => paginate(recommendationsOf(movie, movies()).map(movieItem), {}),
+  };
+  return {
+    ...movieItem(movie),
+    tagline: movie.tagline,
+    runtime: movie.runtime,
+    genres: fixtures.genres.movie.filter(genre => movie.genre_ids.includes(genre.id)),
+    ...Object.fromEntries(appends.filter(name => parts[name]).map(name => [name, parts[name]()])),
+  };
+}
+
+function tvDetails(show, appends) {
+  const parts = {
+    credits: () => creditsOf(show),
+    keywords: () => ({ results: fixtures.keywords.filter(keyword => show.keywords.includes(keyword.id)) }),
+    videos: () => ({ results: [] }),
+    images: () => ({ backdrops: [], logos: [], posters: [] }),
+    content_ratings: () => ({ results: [] }),
+    'watch/providers': () => watchProvidersOf(show, 'tv'),
+    recommendations: () => paginate(recommendationsOf(show, shows()).map(tvItem), {}),
+    similar: () => paginate(recommendationsOf(show, shows()).map(tvItem), {}),
+  };
+  return {
+    ...tvItem(show),
+    tagline: show.tagline,
+    number_of_seasons: show.number_of_seasons,
+    genres: fixtures.genres.tv.filter(genre => show.genre_ids.includes(genre.id)),
+    ...Object.fromEntries(appends.filter(name => parts[name]).map(name => [name, parts[name]()])),
+  };
+}
+
+const findRecord = (records, id) => {
+  const record = records.find(candidate => candidate.id === Number(id));
+  if (!record) throw new MockError('notFound');
+  return record;
+};
+
+// [pattern, handler(params, ...segments)]; patterns match the path after /3/
+const ROUTES = [
+  [/^movie\/(popular|now_playing|upcoming)$/, params => paginate(movies().map(movieItem), params)],
+  [/^movie\/top_rated$/, params => paginate(discover(fixtures.movies, 'movie', { sort_by: 'vote_average.desc' }).map(movieItem), params)],
+  [/^tv\/popular$/, params => paginate(shows().map(tvItem), params)],
+  [/^tv\/top_rated$/, params => paginate(discover(fixtures.tv, 'tv', { sort_by: 'vote_average.desc' }).map(tvItem), params)],
+  [/^trending\/(all|movie|tv|person)\/(day|week)$/, (params, media) => paginate(trending(media), params)],
+  [/^search\/movie$/, params => paginate(search(fixtures.movies, params, movie => movie.title, 'release_date').map(movieItem), params)],
+  [/^search\/tv$/, params => paginate(search(fixtures.tv, params, show => show.name, 'first_air_date').map(tvItem), params)],
+  [/^search\/person$/, params => paginate(fixtures.people.filter(person => matches(params.query ?? '', person.name)).sort(byPopularity).map(personItem), params)],
+  [/^search\/keyword$/, params => paginate(fixtures.keywords.filter(keyword => matches(params.query ?? '', keyword.name)), params)],
+  [/^search\/multi$/, params => paginate([
+    ...withMedia(search(fixtures.movies, params, movie => movie.title, 'release_date').map(movieItem), 'movie'),
+    ...withMedia(search(fixtures.tv, params, show => show.name, 'first_air_date').map(tvItem), 'tv'),
+    ...withMedia(fixtures.people.filter(person => matches(params.query ?? '', person.name)).map(personItem), 'person'),
+  ].sort(byPopularity), params)],
+  [/^discover\/movie$/, params => paginate(discover(fixtures.movies, 'movie', params).map(movieItem), params)],
+  [/^discover\/tv$/, params => paginate(discover(fixtures.tv, 'tv', params).map(tvItem), params)],
+  [/^genre\/(movie|tv)\/list$/, (params, media) => ({ genres: fixtures.genres[media] })],
+  [/^watch\/providers\/(movie|tv)$/, () => ({
+    results: fixtures.providers.map(provider => ({
+      ...provider, logo_path: null, display_priorities: Object.fromEntries(fixtures.regions.map(region => [region, provider.display_priority])),
+    })),
+  })],
+  [/^configuration$/, () => ({
+    images: {
+      base_url: IMAGE_BASE_URL,
+      secure_base_url: IMAGE_BASE_URL.replace('http:', 'https:'),
+      backdrop_sizes: ['w300', 'w780', 'w1280', 'original'],
+      logo_sizes: ['w45', 'w92', 'w154', 'w185', 'w300', 'w500', 'original'],
+      poster_sizes: ['w92', 'w154', 'w185', 'w342', 'w500', 'w780', 'original'],
+      profile_sizes: ['w45', 'w185', 'h632', 'original'],
+      still_sizes: ['w92', 'w185', 'w300', 'original'],
+    },
+    change_keys: [],
+  })],
+  [/^movie\/(\d+)$/, (params, id) => movieDetails(findRecord(fixtures.movies, id), (params.append_to_response ?? '').split(','))],
+  [/^movie\/(\d+)\/recommendations$/, (params, id) => paginate(recommendationsOf(findRecord(fixtures.movies, id), movies()).map(movieItem), params)],
+  [/^tv\/(\d+)$/, (params, id) => tvDetails(findRecord(fixtures.tv, id), (params.append_to_response ?? '').split(','))],
+];
+
+function route(path, params) {
+  if (params.query?.includes('tmdb-error')) throw new MockError('internal');
+  if (params.query?.includes('tmdb-rate-limit')) throw new MockError('rateLimited', { 'Retry-After': '1' });
+
+  for (const [pattern, handler] of ROUTES) {
+    const match = pattern.exec(path);
+    if (match) return handler(params, ...match.slice(1));
+  }
+  throw new MockError('notFound');
+}
+
+// ---------------------------------------------------------------------------
+// Server
+// ---------------------------------------------------------------------------
+
+function send(res, status, body, headers = {}) {
+  res.writeHead(status, { 'Content-Type': 'application/json;charset=utf-8', ...headers });
+  res.end(JSON.stringify(body));
+}
+
+function handle(req, res) {
+  const url = new URL(req.url ?? '/', `http://${req.headers.host ?? 'localhost'}`);
+  const params = Object.fromEntries(url.searchParams);
+  const token = /^Bearer (.+)$/.exec(req.headers.authorization ?? '')?.[1];
+
+  try {
+    if (req.method !== 'GET' || !url.pathname.startsWith('/3/')) throw new MockError('notFound');
+    if (!token || (TOKEN && token !== TOKEN)) throw new MockError('unauthorized');
+    send(res, 200, route(url.pathname.slice('/3/'.length), params));
+  } catch (error) {
+    if (!(error instanceof MockError)) {
+      console.error(error);
+      send(res, 500, { success: false, status_code: 11, status_message: ERRORS.internal[2] });
+      return;
+    }
+    const [status, code, message] = ERRORS[error.kind];
+    send(res, status, { success: false, status_code: code, status_message: message }, error.headers);
+  }
+}
+
+createServer((req, res) => {
+  setTimeout(() => {
+    handle(req, res);
+    console.log(`${req.method} ${req.url} ${res.statusCode}`);
+  }, LATENCY_MS);
+}).listen(PORT, '127.0.0.1', () => {
+  console.log(`Mock TMDB API listening on http://127.0.0.1:${PORT}/3/`);
+});
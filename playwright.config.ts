@@ -0,0 +1,47 @@
+// playwright.config.ts
+
+// Browser end-to-end tests. Like the unit tests they run offline: the app is
+// started against the mock TMDB in mock/tmdb and the fake LLM parser.
+// Browsers come from `npx playwright install chromium`.
+
+import { defineConfig, devices } from '@playwright/test';
+
+const MOCK_TMDB_PORT = 4012;
+const APP_PORT = 3100;
+
+export default defineConfig({
+  testDir: 'e2e',
+  fullyParallel: false,
+  workers: 1,
+  retries: process.env.CI ? 1 : 0,
+  reporter: process.env.CI ? 'line' : 'list',
+  use: {
+    baseURL: `http://127.0.0.1:${APP_PORT}`,
+    trace: 'retain-on-failure',
+  },
+  projects: [{ name: 'chromium', use: { ...devices['Desktop Chrome'] } }],
+  webServer: [
+    {
+      command: 'node mock/tmdb/server.mjs',
+      port: MOCK_TMDB_PORT,
+      env: { MOCK_TMDB_PORT: String(MOCK_TMDB_PORT) },
+      reuseExistingServer: !process.env.CI,
+    },
+    {
+      command: `npx next dev --port ${APP_PORT}`,
+      url: `http://127.0.0.1:${APP_PORT}/api/health`,
+      timeout: 180_000,
+      reuseExistingServer: !process.env.CI,
+      env: {
+        TMDB_API_BASE_URL: `http://127.0.0.1:${MOCK_TMDB_PORT}/3/`,
+        TMDB_ACCESS_TOKEN: 'offline',
+        TMDB_CACHE_STORE: 'memory',
+        TMDB_MAX_RETRIES: '0',
+        SEARCH_PARSER_PROVIDER: 'fake',
+        RATE_LIMITS_DISABLED: '1',
+        COLLECTIONS_FILE: '.data/e2e-collections.json',
+        LOG_LEVEL: 'warn',
+      },
+    },
+  ],
+});
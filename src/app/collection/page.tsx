@@ -0,0 +1,106 @@
+// src/app/collection/page.tsx
+
+"use client";
+
+import React, { useMemo, useState } from 'react';
+import Link from 'next/link';
+import { useCollection } from '@/components/CollectionProvider';
+import CollectionTransfer from '@/components/CollectionTransfer';
+import { useLocale } from '@/components/LocaleProvider';
+import MediaGrid from '@/components/MediaGrid';
+import { COLLECTION_LISTS, CollectionList, inCollectionList, toMediaItem } from '@/lib/collections';
+import type { MessageKey } from '@/lib/i18n';
+
+const LIST_LABELS: Record<CollectionList, MessageKey> = {
+  watchlist: 'collectionPage.watchlist',
+  favorite: 'collectionPage.favorite',
+  rated: 'collectionPage.rated',
+  seen: 'collectionPage.seen',
+};
+
+const EMPTY_MESSAGES: Record<CollectionList, MessageKey> = {
+  watchlist: 'collectionPage.emptyWatchlist',
+  favorite: 'collectionPage.emptyFavorite',
+  rated: 'collectionPage.emptyRated',
+  seen: 'collectionPage.emptySeen',
+};
+
+const CollectionPage: React.FC = () => {
+  const { entries, status, error } = useCollection();
+  const { t } = useLocale();
+  const [list, setList] = useState<CollectionList>('watchlist');
+
+  const counts = useMemo(() => {
+    const all = Array.from(entries.values());
+    return Object.fromEntries(COLLECTION_LISTS.map(name => [name, all.filter(entry => inCollectionList(entry, name)).length])) as Record<CollectionList, number>;
+  }, [entries]);
+
+  const items = useMemo(() => {
+    const selected = Array.from(entries.values()).filter(entry => inCollectionList(entry, list));
+    // Ratings list best first; the others most recently changed first
+    selected.sort((a, b) => (list === 'rated'
+      ? (b.rating ?? 0) - (a.rating ?? 0) || b.updatedAt.localeCompare(a.updatedAt)
+      : b.updatedAt.localeCompare(a.updatedAt)));
+    return selected.map(toMediaItem);
+  }, [entries, list]);
+
+  let content;
+  if (status === 'LOADING') {
+    content = <div className="text-center text-slate-400 p-8">{t('collectionPage.loading')}</div>;
+  } else if (status === 'ERROR') {
+    content = (
+      <div className="bg-red-900/50 border border-red-700 text-white p-6 rounded-xl shadow-inner my-4">
+        <p className="font-bold text-lg mb-2">{t('collectionPage.loadError')}</p>
+        <p className="mt-3 text-red-300 font-mono text-xs break-all">{error || t('collectionPage.unknownError')}</p>
+      </div>
+    );
+  } else if (items.length === 0) {
+    content = <div className="text-center text-slate-400 p-8">{t(EMPTY_MESSAGES[list])}</div>;
+  } else {
+    content = <MediaGrid items={items} />;
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-900 text-white p-4 sm:p-8 lg:p-12">
+      <main className="max-w-7xl mx-auto">
+        <Link href="/" className="inline-block text-cyan-400 hover:underline mb-6">
+          {t('page.backToSearch')}
+        </Link>
+
+        <h1 className="text-4xl font-black text-transparent bg-clip-text bg-gradient-to-r from-cyan-400 to-fuchsia-600 mb-6">
+          {t('collectionPage.title')}
+        </h1>
+
+        <div role="tablist" aria-label={t('collectionPage.lists')} className="flex flex-wrap gap-2 mb-8">
+          {COLLECTION_LISTS.map(name => (
+            <button
+              key={name}
+              type="button"
+              role="tab"
+              aria-selected={list === name}
+              onClick={() => setList(name)}
+              className={`px-4 py-2 rounded-full text-sm font-semibold transition duration-150 ${list === name ? 'bg-fuchsia-600 text-white' : 'bg-slate-800 text-slate-300 hover:bg-slate-700'}`}
+            >
+              {t(LIST_LABELS[name])} <span className="opacity-70">({counts[name]})</span>
+            </button>
+          ))}
+        </div>
+
+        <CollectionTransfer list={list} />
+
+        {/* Only show the error banner for failed updates; a failed load replaces the grid */}
+        {status === 'SUCCESS' && error && (
+          <p className="text-amber-300 text-sm mb-4">{error}</p>
+        )}
+
+        {content}
+      </main>
+
+      <footer className="mt-20 pt-8 border-t border-slate-800 text-center text-slate-500 text-sm">
+        <p>{t('home.footerData')}</p>
+      </footer>
+    </div>
+  );
+};
+
+export default CollectionPage;
@@ -1,5 +1,9 @@
 import '../app/globals.css'; // Corrected path to be root-relative for compilation
 import React from 'react';
+import { CollectionProvider } from '@/components/CollectionProvider';
+import { LocaleProvider } from '@/components/LocaleProvider';
+import LocaleSwitcher from '@/components/LocaleSwitcher';
+import HealthBanner from '@/components/HealthBanner';
 
 // Define the root layout component
 export default function RootLayout({
@@ -15,7 +19,15 @@ export default function RootLayout({
       </head>
       {/* Use the Inter font, and ensure the body fills the screen */}
       <body className="antialiased font-inter min-h-screen">
-        {children}
+        {/* The content and UI locale, then watchlist, favorites and ratings, are shared by every page */}
+        <LocaleProvider>
+          {/* Explains a missing token or parser fallback without blocking the page */}
+          <HealthBanner />
+          <div className="fixed top-3 right-3 z-50">
+            <LocaleSwitcher />
+          </div>
+          <CollectionProvider>{children}</CollectionProvider>
+        </LocaleProvider>
       </body>
     </html>
   );
@@ -0,0 +1,271 @@
+// src/app/movie/[id]/page.tsx
+
+"use client";
+
+import React, { useState, useEffect } from 'react';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { useLocale } from '@/components/LocaleProvider';
+import MovieCard from '@/components/MovieCard';
+import TmdbImage from '@/components/TmdbImage';
+import { recordMovieView } from '@/lib/collections';
+import { MOVIE_DETAIL_APPENDS } from '@/lib/movies';
+import { fetchTmdb } from '@/lib/tmdb-client';
+import { IMAGE_SIZES } from '@/lib/tmdb-images';
+import type { MovieDetails, Video, WatchProvider } from '@/lib/tmdb-types';
+
+type Status = 'LOADING' | 'SUCCESS' | 'ERROR';
+
+// Crew jobs worth surfacing on the detail page, in display order
+const KEY_CREW_JOBS = ['Director', 'Screenplay', 'Writer', 'Story', 'Novel', 'Producer', 'Original Music Composer', 'Director of Photography'];
+
+const formatRuntime = (t: ReturnType<typeof useLocale>['t'], minutes: number | null): string | null => {
+  if (!minutes) return null;
+  const hours = Math.floor(minutes / 60);
+  return hours > 0 ? t('detail.runtime', { hours, minutes: minutes % 60 }) : t('detail.runtimeMinutes', { minutes });
+};
+
+// Prefers the theatrical (type 3) certification in the user's region, then any non-empty one
+const findCertification = (details: MovieDetails, region: string): string | null => {
+  const regional = details.release_dates?.results.find(r => r.iso_3166_1 === region);
+  if (!regional) return null;
+  const rated = regional.release_dates.filter(d => d.certification);
+  return (rated.find(d => d.type === 3) ?? rated[0])?.certification ?? null;
+};
+
+// Official YouTube trailers first, then any YouTube trailer or teaser
+const findTrailer = (details: MovieDetails): Video | null => {
+  const youtube = (details.videos?.results ?? []).filter(v => v.site === 'YouTube');
+  return youtube.find(v => v.type === 'Trailer' && v.official)
+    ?? youtube.find(v => v.type === 'Trailer')
+    ?? youtube.find(v => v.type === 'Teaser')
+    ?? null;
+};
+
+const ProviderRow: React.FC<{ label: string; providers?: WatchProvider[] }> = ({ label, providers }) => {
+  if (!providers || providers.length === 0) return null;
+
+  return (
+    <div className="mb-3">
+      <p className="text-slate-400 text-xs uppercase tracking-wide mb-2">{label}</p>
+      <div className="flex flex-wrap gap-2">
+        {providers.map(provider => (
+          <span key={provider.provider_id} className="flex items-center gap-2 bg-slate-800 rounded-lg px-2 py-1 text-sm">
+            {provider.logo_path && (
+              <TmdbImage kind="logo" path={provider.logo_path} alt="" sizes="24px" maxWidth={24} className="w-6 h-6 rounded" />
+            )}
+            {provider.provider_name}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+const MovieDetailPage: React.FC = () => {
+  const { id } = useParams<{ id: string }>();
+  // Certification and streaming availability follow the locale's region
+  const { t, locale, ready, formatDate } = useLocale();
+  const [details, setDetails] = useState<MovieDetails | null>(null);
+  const [status, setStatus] = useState<Status>('LOADING');
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!ready) return;
+    let cancelled = false;
+
+    setStatus('LOADING');
+    setDetails(null);
+    fetchTmdb(`movie/${Number(id)}`, { append_to_response: MOVIE_DETAIL_APPENDS }, { locale })
+      .then((data) => {
+        if (cancelled) return;
+        setDetails(data);
+        setStatus('SUCCESS');
+        setError(null);
+        recordMovieView(data.id);
+      })
+      .catch((fetchError) => {
+        if (cancelled) return;
+        console.error('Error fetching movie details:', fetchError);
+        setStatus('ERROR');
+        setError(fetchError instanceof Error ? fetchError.message : null);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [id, locale, ready]);
+
+  let content;
+
+  if (status === 'LOADING') {
+    content = <div className="text-center text-slate-400 p-8">{t('detail.loading')}</div>;
+  } else if (status === 'ERROR' || !details) {
+    content = (
+      <div className="bg-red-900/50 border border-red-700 text-white p-6 rounded-xl shadow-inner my-4">
+        <p className="font-bold text-lg mb-2">{t('detail.loadError')}</p>
+        <p className="mt-3 text-red-300 font-mono text-xs break-all">
+          {error || t('list.unknownError')}
+        </p>
+      </div>
+    );
+  } else {
+    const runtime = formatRuntime(t, details.runtime);
+    const certification = findCertification(details, locale.region);
+    const trailer = findTrailer(details);
+    const cast = (details.credits?.cast ?? []).slice().sort((a, b) => a.order - b.order).slice(0, 12);
+    const crew = KEY_CREW_JOBS.flatMap(job => (details.credits?.crew ?? []).filter(member => member.job === job)).slice(0, 8);
+    const providers = details['watch/providers']?.results[locale.region];
+    const recommendations = details.recommendations?.results ?? [];
+
+    content = (
+      <>
+        <section className="relative rounded-2xl overflow-hidden bg-slate-800">
+          {details.backdrop_path && (
+            <div className="absolute inset-0">
+              <TmdbImage kind="backdrop" path={details.backdrop_path} alt="" sizes={IMAGE_SIZES.backdrop} className="w-full h-full" priority />
+            </div>
+          )}
+          <div className="relative bg-slate-900/85 p-6 sm:p-10 flex flex-col md:flex-row gap-8">
+            <TmdbImage
+              kind="poster"
+              path={details.poster_path}
+              alt={details.title}
+              sizes={IMAGE_SIZES.detailPoster}
+              maxWidth={256}
+              className="w-48 md:w-64 shrink-0 rounded-xl shadow-2xl aspect-[2/3] self-start"
+              fallbackLabel={t('card.posterMissing')}
+              priority
+            />
+
+            <div className="flex-1">
+              <h1 className="text-4xl font-black text-white">
+                {details.title}
+                {details.release_date && (
+                  <span className="text-slate-400 font-medium"> ({formatDate(details.release_date, { year: 'numeric' })})</span>
+                )}
+              </h1>
+              {details.tagline && <p className="text-fuchsia-300 italic mt-2">{details.tagline}</p>}
+
+              <div className="flex flex-wrap items-center gap-3 mt-4 text-sm text-slate-300">
+                {certification && (
+                  <span className="border border-slate-400 rounded px-2 py-0.5 font-semibold">{certification}</span>
+                )}
+                {runtime && <span>{runtime}</span>}
+                <span className={`px-3 py-1 text-xs font-semibold rounded-full ${details.vote_average >= 7 ? 'bg-green-500' : 'bg-amber-500'} text-white shadow-md`}>
+                  ⭐ {details.vote_average.toFixed(1)}
+                </span>
+              </div>
+
+              <div className="flex flex-wrap gap-2 mt-4">
+                {details.genres.map(genre => (
+                  <span key={genre.id} className="bg-cyan-900/60 text-cyan-200 text-xs font-semibold rounded-full px-3 py-1">
+                    {genre.name}
+                  </span>
+                ))}
+              </div>
+
+              <p className="text-slate-200 mt-6 leading-relaxed">{details.overview || t('card.noOverview')}</p>
+
+              {crew.length > 0 && (
+                <dl className="grid grid-cols-2 sm:grid-cols-3 gap-4 mt-6">
+                  {crew.map(member => (
+                    <div key={`${member.id}-${member.job}`}>
+                      <dt className="font-bold text-white">{member.name}</dt>
+                      <dd className="text-slate-400 text-sm">{member.job}</dd>
+                    </div>
+                  ))}
+                </dl>
+              )}
+            </div>
+          </div>
+        </section>
+
+        {trailer && (
+          <section className="mt-12">
+            <h2 className="text-3xl font-extrabold text-white mb-4">{t('detail.trailer')}</h2>
+            <div className="aspect-video w-full max-w-4xl rounded-xl overflow-hidden shadow-xl">
+              <iframe
+                src={`https://www.youtube-nocookie.com/embed/${trailer.key}`}
+                title={trailer.name}
+                className="w-full h-full"
+                allow="accelerometer; encrypted-media; gyroscope; picture-in-picture"
+                allowFullScreen
+              />
+            </div>
+          </section>
+        )}
+
+        {cast.length > 0 && (
+          <section className="mt-12">
+            <h2 className="text-3xl font-extrabold text-white mb-4">{t('detail.cast')}</h2>
+            <div className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-6 gap-4">
+              {cast.map(member => (
+                <div key={member.id} className="bg-slate-800 rounded-xl overflow-hidden">
+                  <TmdbImage
+                    kind="profile"
+                    path={member.profile_path}
+                    alt={member.name}
+                    sizes={IMAGE_SIZES.cast}
+                    maxWidth={240}
+                    className="w-full aspect-[2/3]"
+                  />
+                  <div className="p-2">
+                    <p className="font-bold text-sm text-white line-clamp-1">{member.name}</p>
+                    <p className="text-slate-400 text-xs line-clamp-1">{member.character}</p>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </section>
+        )}
+
+        <section className="mt-12">
+          <h2 className="text-3xl font-extrabold text-white mb-4">{t('detail.whereToWatch')}</h2>
+          {providers && (providers.flatrate || providers.rent || providers.buy) ? (
+            <>
+              <ProviderRow label={t('detail.stream')} providers={providers.flatrate} />
+              <ProviderRow label={t('detail.rent')} providers={providers.rent} />
+              <ProviderRow label={t('detail.buy')} providers={providers.buy} />
+              <a href={providers.link} target="_blank" rel="noopener noreferrer" className="text-cyan-400 text-sm hover:underline">
+                {t('detail.moreOptions')}
+              </a>
+            </>
+          ) : (
+            <p className="text-slate-400">{t('detail.noProviders')}</p>
+          )}
+        </section>
+
+        {recommendations.length > 0 && (
+          <section className="mt-12">
+            <h2 className="text-3xl font-extrabold text-white mb-4">{t('detail.recommendations')}</h2>
+            <div className="flex gap-6 overflow-x-auto pb-4 snap-x">
+              {recommendations.map(movie => (
+                <div key={movie.id} className="w-44 flex-shrink-0 snap-start">
+                  <MovieCard movie={movie} />
+                </div>
+              ))}
+            </div>
+          </section>
+        )}
+      </>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-slate-900 text-white p-4 sm:p-8 lg:p-12">
+      <main className="max-w-7xl mx-auto">
+        <Link href="/" className="inline-block text-cyan-400 hover:underline mb-6">
+          {t('page.backToSearch')}
+        </Link>
+        {content}
+      </main>
+
+      <footer className="mt-20 pt-8 border-t border-slate-800 text-center text-slate-500 text-sm">
+        <p>{t('home.footerData')}</p>
+      </footer>
+    </div>
+  );
+};
+
+export default MovieDetailPage;
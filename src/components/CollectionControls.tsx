@@ -0,0 +1,52 @@
+// src/components/CollectionControls.tsx
+
+"use client";
+
+import React from 'react';
+import { useCollection } from '@/components/CollectionProvider';
+import { useLocale } from '@/components/LocaleProvider';
+import { collectionKey, CollectionItem, EMPTY_FLAGS } from '@/lib/collections';
+
+const RATINGS = Array.from({ length: 10 }, (_, i) => i + 1);
+
+const TOGGLES = [
+  { flag: 'watchlist', on: '🔖', off: '🔖', label: 'collection.watchlist' },
+  { flag: 'favorite', on: '♥', off: '♡', label: 'collection.favorite' },
+  { flag: 'seen', on: '✓', off: '✓', label: 'collection.seen' },
+] as const;
+
+// Watchlist / favorite / seen toggles and a 1-10 rating for one card
+const CollectionControls: React.FC<{ item: CollectionItem }> = ({ item }) => {
+  const { entries, update } = useCollection();
+  const { t } = useLocale();
+  const entry = entries.get(collectionKey(item)) ?? EMPTY_FLAGS;
+
+  return (
+    <div className="flex items-center gap-1 px-3 pb-3">
+      {TOGGLES.map(({ flag, on, off, label }) => (
+        <button
+          key={flag}
+          type="button"
+          onClick={() => update(item, { [flag]: !entry[flag] })}
+          aria-pressed={entry[flag]}
+          aria-label={t(entry[flag] ? 'collection.remove' : 'collection.add', { list: t(label) })}
+          title={t(label)}
+          className={`w-8 h-8 rounded-full text-sm transition duration-150 ${entry[flag] ? 'bg-fuchsia-600 text-white' : 'bg-slate-700 text-slate-400 hover:text-white'}`}
+        >
+          {entry[flag] ? on : off}
+        </button>
+      ))}
+      <select
+        value={entry.rating ?? ''}
+        onChange={(e) => update(item, { rating: e.target.value ? Number(e.target.value) : null })}
+        aria-label={t('collection.yourRating')}
+        className={`ml-auto bg-slate-700 text-xs rounded-full px-2 h-8 focus:outline-none focus:ring-2 focus:ring-fuchsia-500 ${entry.rating ? 'text-amber-300' : 'text-slate-400'}`}
+      >
+        <option value="">{t('collection.rate')}</option>
+        {RATINGS.map(rating => <option key={rating} value={rating}>★ {rating}</option>)}
+      </select>
+    </div>
+  );
+};
+
+export default CollectionControls;
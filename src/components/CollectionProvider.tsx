@@ -0,0 +1,110 @@
+// src/components/CollectionProvider.tsx
+
+"use client";
+
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useRef, useState } from 'react';
+import {
+  collectionKey,
+  CollectionEntry,
+  CollectionFlags,
+  CollectionItem,
+  EMPTY_FLAGS,
+  fetchCollection,
+  isEmptyEntry,
+  updateCollection,
+} from '@/lib/collections';
+
+type Status = 'LOADING' | 'SUCCESS' | 'ERROR';
+
+interface CollectionContextValue {
+  entries: Map<string, CollectionEntry>;
+  status: Status;
+  error: string | null;
+  // Optimistically applies `changes`; rolls back and reports the error if the server refuses
+  update: (item: CollectionItem, changes: Partial<CollectionFlags>) => Promise<void>;
+  // Refetches the collection, e.g. after an import changed it on the server
+  reload: () => Promise<void>;
+}
+
+const CollectionContext = createContext<CollectionContextValue | null>(null);
+
+// Loads the device's collection once and shares it with every card on the page
+export const CollectionProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [entries, setEntries] = useState<Map<string, CollectionEntry>>(new Map());
+  const [status, setStatus] = useState<Status>('LOADING');
+  const [error, setError] = useState<string | null>(null);
+  // Latest entries for rollbacks; state updaters may run after `update` has moved on
+  const entriesRef = useRef(entries);
+  entriesRef.current = entries;
+
+  const reload = useCallback(() =>
+    fetchCollection()
+      .then((items) => {
+        setEntries(new Map(items.map(entry => [entry.key, entry])));
+        setError(null);
+        setStatus('SUCCESS');
+      })
+      .catch((loadError) => {
+        console.error('Error loading collection:', loadError);
+        setError(loadError instanceof Error ? loadError.message : 'Could not load your collection.');
+        setStatus('ERROR');
+      }), []);
+
+  useEffect(() => {
+    reload();
+  }, [reload]);
+
+  const update = useCallback(async (item: CollectionItem, changes: Partial<CollectionFlags>) => {
+    const key = collectionKey(item);
+    const previous = entriesRef.current.get(key);
+
+    setEntries((current) => {
+      const now = new Date().toISOString();
+      const optimistic: CollectionEntry = {
+        ...EMPTY_FLAGS,
+        ...previous,
+        ...item,
+        ...changes,
+        key,
+        addedAt: previous?.addedAt ?? now,
+        updatedAt: now,
+      };
+      const next = new Map(current);
+      if (isEmptyEntry(optimistic)) next.delete(key);
+      else next.set(key, optimistic);
+      return next;
+    });
+
+    try {
+      const saved = await updateCollection(item, changes);
+      setEntries((current) => {
+        const next = new Map(current);
+        if (saved) next.set(key, saved);
+        else next.delete(key);
+        return next;
+      });
+      setError(null);
+    } catch (updateError) {
+      console.error('Error updating collection:', updateError);
+      setEntries((current) => {
+        const next = new Map(current);
+        if (previous) next.set(key, previous);
+        else next.delete(key);
+        return next;
+      });
+      setError(updateError instanceof Error ? updateError.message : 'Could not update your collection.');
+    }
+  }, []);
+
+  const value = useMemo(() => ({ entries, status, error, update, reload }), [entries, status, error, update, reload]);
+
+  return <CollectionContext.Provider value={value}>{children}</CollectionContext.Provider>;
+};
+
+export const useCollection = (): CollectionContextValue => {
+  const context = useContext(CollectionContext);
+  if (!context) {
+    throw new Error('useCollection must be used inside <CollectionProvider>.');
+  }
+  return context;
+};
@@ -0,0 +1,130 @@
+// src/components/CollectionTransfer.tsx
+
+"use client";
+
+import React, { useState } from 'react';
+import { useCollection } from '@/components/CollectionProvider';
+import { useLocale } from '@/components/LocaleProvider';
+import {
+  collectionExportUrl,
+  CollectionList,
+  importCollection,
+  ImportProblem,
+  ImportReport,
+  TransferFormat,
+} from '@/lib/collections';
+import type { MessageKey } from '@/lib/i18n';
+
+const FORMAT_LABELS: Record<TransferFormat, MessageKey> = {
+  json: 'transfer.formatJson',
+  csv: 'transfer.formatCsv',
+  letterboxd: 'transfer.formatLetterboxd',
+};
+
+const ProblemList: React.FC<{ title: string; problems: ImportProblem[] }> = ({ title, problems }) => {
+  const { t } = useLocale();
+  if (problems.length === 0) return null;
+  return (
+    <details className="mt-3">
+      <summary className="cursor-pointer text-amber-300">{title} ({problems.length})</summary>
+      <ul className="mt-2 space-y-2 text-slate-300">
+        {problems.map(problem => (
+          <li key={problem.row}>
+            <span className="font-semibold">{t('transfer.row', { row: problem.row })} {problem.title}{problem.year ? ` (${problem.year})` : ''}</span>
+            {' — '}{problem.reason}
+            {problem.candidates.length > 0 && (
+              <span className="block text-slate-400 text-xs">
+                {t('transfer.candidates', {
+                  titles: problem.candidates.map(c => `${c.title}${c.year ? ` (${c.year})` : ''} #${c.tmdb_id}`).join(' · '),
+                })}
+              </span>
+            )}
+          </li>
+        ))}
+      </ul>
+    </details>
+  );
+};
+
+// Export links for the current list and an import form with its match report
+const CollectionTransfer: React.FC<{ list: CollectionList }> = ({ list }) => {
+  const { reload } = useCollection();
+  const { t } = useLocale();
+  const [format, setFormat] = useState<TransferFormat>('csv');
+  const [file, setFile] = useState<File | null>(null);
+  const [importing, setImporting] = useState(false);
+  const [report, setReport] = useState<ImportReport | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleImport = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!file) return;
+    setImporting(true);
+    setError(null);
+    setReport(null);
+    try {
+      // Rows without flags land on the list being viewed; ratings carry their own list
+      const result = await importCollection(await file.text(), format, list === 'rated' ? undefined : list);
+      setReport(result);
+      if (result.imported > 0) await reload();
+    } catch (importError) {
+      setError(importError instanceof Error ? importError.message : t('transfer.failed'));
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <div className="bg-slate-800 rounded-xl p-4 mb-8 text-sm">
+      <div className="flex flex-wrap items-center gap-3">
+        <span className="text-slate-400">{t('transfer.export')}</span>
+        {(Object.keys(FORMAT_LABELS) as TransferFormat[]).map(option => (
+          <a key={option} href={collectionExportUrl(option, list)} className="text-cyan-400 hover:underline">
+            {t(FORMAT_LABELS[option])}
+          </a>
+        ))}
+      </div>
+
+      <form onSubmit={handleImport} className="flex flex-wrap items-center gap-3 mt-4">
+        <span className="text-slate-400">{t('transfer.import')}</span>
+        <select
+          value={format}
+          onChange={(e) => setFormat(e.target.value as TransferFormat)}
+          aria-label={t('transfer.format')}
+          className="bg-slate-700 rounded-lg px-2 py-1 focus:outline-none focus:ring-2 focus:ring-fuchsia-500"
+        >
+          {(Object.keys(FORMAT_LABELS) as TransferFormat[]).map(option => (
+            <option key={option} value={option}>{t(FORMAT_LABELS[option])}</option>
+          ))}
+        </select>
+        <input
+          type="file"
+          accept={format === 'json' ? '.json,application/json' : '.csv,text/csv'}
+          onChange={(e) => setFile(e.target.files?.[0] ?? null)}
+          className="text-slate-300 file:mr-2 file:rounded-lg file:border-0 file:bg-slate-700 file:px-3 file:py-1 file:text-slate-200"
+        />
+        <button
+          type="submit"
+          disabled={!file || importing}
+          className="bg-fuchsia-600 hover:bg-fuchsia-700 text-white font-semibold py-1 px-4 rounded-lg transition duration-150 disabled:bg-slate-500 disabled:cursor-not-allowed"
+        >
+          {importing ? t('transfer.submitting') : t('transfer.submit')}
+        </button>
+      </form>
+
+      {error && <p className="mt-3 text-red-300">{error}</p>}
+      {report && (
+        <div className="mt-3">
+          <p className="text-slate-200">
+            {t('transfer.report', { imported: report.imported, count: report.rows, matched: report.matched })}
+          </p>
+          <ProblemList title={t('transfer.ambiguous')} problems={report.ambiguous} />
+          <ProblemList title={t('transfer.unmatched')} problems={report.unmatched} />
+          <ProblemList title={t('transfer.invalid')} problems={report.invalid} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default CollectionTransfer;
@@ -0,0 +1,126 @@
+// src/components/FilterChips.tsx
+
+import React, { useState } from 'react';
+import { useLocale } from '@/components/LocaleProvider';
+import type { SearchFilterChip } from '@/lib/search-query';
+
+// Chips below this confidence are outlined to invite a second look
+const LOW_CONFIDENCE = 0.6;
+
+const KIND_STYLES: Record<SearchFilterChip['kind'], string> = {
+  query: 'bg-fuchsia-900/60 text-fuchsia-100 border-fuchsia-700',
+  genre: 'bg-cyan-900/60 text-cyan-100 border-cyan-700',
+  cast: 'bg-violet-900/60 text-violet-100 border-violet-700',
+  crew: 'bg-violet-900/60 text-violet-100 border-violet-700',
+  keyword: 'bg-teal-900/60 text-teal-100 border-teal-700',
+  rating: 'bg-green-900/60 text-green-100 border-green-700',
+  votes: 'bg-green-900/60 text-green-100 border-green-700',
+  year: 'bg-amber-900/60 text-amber-100 border-amber-700',
+  date: 'bg-amber-900/60 text-amber-100 border-amber-700',
+  runtime: 'bg-sky-900/60 text-sky-100 border-sky-700',
+  language: 'bg-rose-900/60 text-rose-100 border-rose-700',
+  region: 'bg-orange-900/60 text-orange-100 border-orange-700',
+  provider: 'bg-indigo-900/60 text-indigo-100 border-indigo-700',
+  sort: 'bg-slate-700 text-slate-100 border-slate-500',
+  other: 'bg-slate-700 text-slate-100 border-slate-500',
+};
+
+interface FilterChipProps {
+  chip: SearchFilterChip;
+  onRemove: (chip: SearchFilterChip) => void;
+  // Returns an error message when the value is rejected
+  onEdit: (chip: SearchFilterChip, value: string) => string | null;
+}
+
+const FilterChip: React.FC<FilterChipProps> = ({ chip, onRemove, onEdit }) => {
+  const { t } = useLocale();
+  const [draft, setDraft] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const tooltip = [
+    chip.source ? t('chip.fromSource', { source: chip.source }) : t('chip.inferred'),
+    t('chip.confidence', { percent: Math.round(chip.confidence * 100) }),
+  ].join(' · ');
+  const lowConfidence = chip.confidence < LOW_CONFIDENCE;
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (draft === null) return;
+    const message = onEdit(chip, draft);
+    setError(message);
+    if (!message) setDraft(null);
+  };
+
+  if (draft !== null) {
+    return (
+      <form onSubmit={submit} className="inline-flex items-center gap-1">
+        <input
+          autoFocus
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Escape') {
+              setDraft(null);
+              setError(null);
+            }
+          }}
+          aria-label={t('chip.edit', { label: chip.label })}
+          className="bg-slate-800 text-white text-xs border border-fuchsia-500 rounded-full px-3 py-1 w-40 focus:outline-none"
+        />
+        <button type="submit" className="text-xs text-fuchsia-300 hover:text-white px-1">{t('chip.apply')}</button>
+        {error && <span className="text-xs text-red-300">{error}</span>}
+      </form>
+    );
+  }
+
+  return (
+    <span
+      title={tooltip}
+      className={`inline-flex items-center gap-1 text-xs font-medium rounded-full border px-3 py-1 ${KIND_STYLES[chip.kind]} ${lowConfidence ? 'border-dashed opacity-80' : ''}`}
+    >
+      {chip.editable ? (
+        <button
+          type="button"
+          onClick={() => setDraft(chip.value)}
+          className="hover:underline focus:outline-none focus-visible:underline"
+          aria-label={t('chip.edit', { label: chip.label })}
+        >
+          {chip.label}
+        </button>
+      ) : (
+        <span>{chip.label}</span>
+      )}
+      {lowConfidence && <span aria-label={t('chip.lowConfidence')}>?</span>}
+      {chip.removable && (
+        <button
+          type="button"
+          onClick={() => onRemove(chip)}
+          className="ml-1 text-current opacity-70 hover:opacity-100"
+          aria-label={t('chip.remove', { label: chip.label })}
+        >
+          ×
+        </button>
+      )}
+    </span>
+  );
+};
+
+// The filters behind the current search, as removable and editable chips
+const FilterChips: React.FC<{
+  chips: SearchFilterChip[];
+  onRemove: FilterChipProps['onRemove'];
+  onEdit: FilterChipProps['onEdit'];
+}> = ({ chips, onRemove, onEdit }) => {
+  const { t } = useLocale();
+  if (chips.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap gap-2 mb-6" aria-label={t('chip.list')}>
+      {chips.map(chip => (
+        <FilterChip key={chip.id} chip={chip} onRemove={onRemove} onEdit={onEdit} />
+      ))}
+    </div>
+  );
+};
+
+export default FilterChips;
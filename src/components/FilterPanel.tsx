@@ -0,0 +1,307 @@
+// src/components/FilterPanel.tsx
+
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { useLocale } from '@/components/LocaleProvider';
+import TmdbImage from '@/components/TmdbImage';
+import type { MessageKey } from '@/lib/i18n';
+import type { TmdbQueryParams } from '@/lib/movies';
+import type { AISearchResult } from '@/lib/search-query';
+import { EMPTY_FILTERS, FilterMedia, FilterValues, filtersFromQuery, queryFromFilters, resetBase, sortOptions } from '@/lib/search-filters';
+import { fetchTmdb } from '@/lib/tmdb-client';
+import type { Genre, TmdbWatchProviderListItem } from '@/lib/tmdb-types';
+
+// Original languages offered in the panel; a parsed language outside the list is added to it
+const LANGUAGES = ['en', 'fr', 'es', 'de', 'it', 'pt', 'ja', 'ko', 'zh', 'hi', 'ru', 'sv', 'da', 'no', 'tr'];
+
+// How many of the region's streaming services to offer, most prominent first
+const MAX_PROVIDERS = 18;
+
+const SORT_FIELDS: Record<string, MessageKey> = {
+  popularity: 'filters.sortPopularity',
+  vote_average: 'filters.sortRating',
+  vote_count: 'filters.sortVotes',
+  primary_release_date: 'filters.sortReleaseDate',
+  first_air_date: 'filters.sortFirstAirDate',
+  revenue: 'filters.sortRevenue',
+  title: 'filters.sortTitle',
+  name: 'filters.sortTitle',
+};
+
+const languageName = (uiLanguage: string, code: string): string => {
+  try {
+    return new Intl.DisplayNames([uiLanguage], { type: 'language' }).of(code) ?? code;
+  } catch {
+    return code;
+  }
+};
+
+// The genre and streaming service lists for one media type in the user's locale
+const usePanelOptions = (media: FilterMedia, enabled: boolean) => {
+  const { locale, ready } = useLocale();
+  const [options, setOptions] = useState<{ key: string; genres: Genre[]; providers: TmdbWatchProviderListItem[]; failed: boolean } | null>(null);
+  const key = `${media}:${locale.language}-${locale.region}`;
+
+  useEffect(() => {
+    if (!enabled || !ready || options?.key === key) return;
+    let cancelled = false;
+
+    Promise.all([
+      fetchTmdb(`genre/${media}/list`, {}, { locale }),
+      fetchTmdb(`watch/providers/${media}`, { watch_region: locale.region }, { locale }),
+    ])
+      .then(([genreList, providerList]) => {
+        if (cancelled) return;
+        const providers = providerList.results
+          .slice()
+          .sort((a, b) => a.display_priority - b.display_priority)
+          .slice(0, MAX_PROVIDERS);
+        setOptions({ key, genres: genreList.genres, providers, failed: false });
+      })
+      .catch((error) => {
+        if (cancelled) return;
+        console.error('Error fetching filter options:', error);
+        setOptions({ key, genres: [], providers: [], failed: true });
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [enabled, ready, key, media, locale, options?.key]);
+
+  return options?.key === key ? options : null;
+};
+
+const labelClass = 'block text-slate-400 text-xs uppercase tracking-wide mb-2';
+const inputClass = 'bg-slate-700 text-white border border-slate-600 rounded-lg px-2 py-1 text-sm focus:outline-none focus:border-fuchsia-500';
+const toggleClass = (on: boolean) =>
+  `text-xs rounded-full px-3 py-1 border transition duration-150 ${
+    on ? 'bg-fuchsia-700 border-fuchsia-500 text-white' : 'bg-slate-800 border-slate-600 text-slate-300 hover:border-slate-400'
+  }`;
+
+const toggleId = (ids: number[], id: number): number[] =>
+  ids.includes(id) ? ids.filter(existing => existing !== id) : [...ids, id];
+
+interface FilterPanelProps {
+  // The current search; the panel starts from its filters
+  query: TmdbQueryParams | null;
+  // Receives the discover query, like the parser's result, and the names of
+  // the genres and services in it, keyed by chip id (e.g. 'with_genres:28')
+  onApply: (result: Pick<AISearchResult, 'path' | 'params' | 'hybridText'>, names: Record<string, string>) => void;
+  disabled?: boolean;
+}
+
+// Collapsible discover filters next to the search box, for users who know
+// exactly what they want or want to refine what the parser understood
+const FilterPanel: React.FC<FilterPanelProps> = ({ query, onApply, disabled = false }) => {
+  const { t, locale } = useLocale();
+  const [open, setOpen] = useState(false);
+  const [values, setValues] = useState<FilterValues>(() => filtersFromQuery(query));
+  // The search the panel refines; Reset drops its carried-over filters too
+  const [base, setBase] = useState<TmdbQueryParams | null>(query);
+  const options = usePanelOptions(values.media, open);
+
+  // Every new search (parsed, restored or applied here) refills the panel
+  useEffect(() => {
+    setValues(filtersFromQuery(query));
+    setBase(query);
+  }, [query]);
+
+  const set = <K extends keyof FilterValues>(key: K, value: FilterValues[K]) =>
+    setValues(current => ({ ...current, [key]: value }));
+
+  const languages = values.language && !LANGUAGES.includes(values.language) ? [...LANGUAGES, values.language] : LANGUAGES;
+  const sorts = sortOptions(values.media);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const names: Record<string, string> = {};
+    options?.genres.forEach(genre => { names[`with_genres:${genre.id}`] = genre.name; });
+    options?.providers.forEach(provider => { names[`with_watch_providers:${provider.provider_id}`] = provider.provider_name; });
+    onApply(queryFromFilters(values, base, locale.region), names);
+  };
+
+  const sortLabel = (value: string) => {
+    const [field, direction] = value.split('.');
+    const name = SORT_FIELDS[field] ? t(SORT_FIELDS[field]) : field;
+    return t(direction === 'asc' ? 'filters.sortAsc' : 'filters.sortDesc', { field: name });
+  };
+
+  return (
+    <div className="mt-4">
+      <button
+        type="button"
+        onClick={() => setOpen(current => !current)}
+        aria-expanded={open}
+        aria-controls="filter-panel"
+        className="text-sm text-cyan-400 hover:underline"
+      >
+        {open ? t('filters.hide') : t('filters.show')}
+      </button>
+
+      {open && (
+        <form id="filter-panel" onSubmit={handleSubmit} className="mt-4 bg-slate-800 rounded-xl p-4 sm:p-6 shadow-lg space-y-6">
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+            {/* Movie and TV genres have different ids, so switching clears them */}
+            <label className="block">
+              <span className={labelClass}>{t('filters.media')}</span>
+              <select
+                value={values.media}
+                onChange={(e) => setValues(current => ({ ...current, media: e.target.value as FilterMedia, genres: [] }))}
+                className={`${inputClass} w-full`}
+              >
+                <option value="movie">{t('filters.movies')}</option>
+                <option value="tv">{t('filters.tv')}</option>
+              </select>
+            </label>
+            <label className="block">
+              <span className={labelClass}>{t('filters.language')}</span>
+              <select value={values.language} onChange={(e) => set('language', e.target.value)} className={`${inputClass} w-full`}>
+                <option value="">{t('filters.anyLanguage')}</option>
+                {languages.map(code => <option key={code} value={code}>{languageName(locale.language, code)}</option>)}
+              </select>
+            </label>
+            <label className="block">
+              <span className={labelClass}>{t('filters.sort')}</span>
+              <select value={sorts.includes(values.sortBy) ? values.sortBy : EMPTY_FILTERS.sortBy} onChange={(e) => set('sortBy', e.target.value)} className={`${inputClass} w-full`}>
+                {sorts.map(sort => <option key={sort} value={sort}>{sortLabel(sort)}</option>)}
+              </select>
+            </label>
+          </div>
+
+          <div role="group" aria-labelledby="filter-genres">
+            <div className="flex items-center justify-between mb-2">
+              <span id="filter-genres" className={labelClass}>{t('filters.genres')}</span>
+              <select
+                value={values.genreMatch}
+                onChange={(e) => set('genreMatch', e.target.value as FilterValues['genreMatch'])}
+                aria-label={t('filters.genreMatch')}
+                className={inputClass}
+              >
+                <option value="and">{t('filters.matchAll')}</option>
+                <option value="or">{t('filters.matchAny')}</option>
+              </select>
+            </div>
+            {!options ? (
+              <p className="text-slate-500 text-xs">{t('filters.loading')}</p>
+            ) : options.failed ? (
+              <p className="text-red-300 text-xs">{t('filters.loadError')}</p>
+            ) : (
+              <div className="flex flex-wrap gap-2">
+                {options.genres.map(genre => (
+                  <button
+                    key={genre.id}
+                    type="button"
+                    aria-pressed={values.genres.includes(genre.id)}
+                    onClick={() => set('genres', toggleId(values.genres, genre.id))}
+                    className={toggleClass(values.genres.includes(genre.id))}
+                  >
+                    {genre.name}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+            <fieldset>
+              <legend className={labelClass}>{t(values.media === 'tv' ? 'filters.firstAirYears' : 'filters.releaseYears')}</legend>
+              <div className="flex items-center gap-2">
+                <input
+                  type="number" min={1870} max={2100} inputMode="numeric"
+                  value={values.yearFrom} onChange={(e) => set('yearFrom', e.target.value)}
+                  placeholder={t('filters.from')} aria-label={t('filters.from')} className={`${inputClass} w-24`}
+                />
+                <span className="text-slate-500">–</span>
+                <input
+                  type="number" min={1870} max={2100} inputMode="numeric"
+                  value={values.yearTo} onChange={(e) => set('yearTo', e.target.value)}
+                  placeholder={t('filters.to')} aria-label={t('filters.to')} className={`${inputClass} w-24`}
+                />
+              </div>
+            </fieldset>
+            <fieldset>
+              <legend className={labelClass}>{t('filters.runtime')}</legend>
+              <div className="flex items-center gap-2">
+                <input
+                  type="number" min={0} max={1000} inputMode="numeric"
+                  value={values.runtimeMin} onChange={(e) => set('runtimeMin', e.target.value)}
+                  placeholder={t('filters.min')} aria-label={t('filters.min')} className={`${inputClass} w-24`}
+                />
+                <span className="text-slate-500">–</span>
+                <input
+                  type="number" min={0} max={1000} inputMode="numeric"
+                  value={values.runtimeMax} onChange={(e) => set('runtimeMax', e.target.value)}
+                  placeholder={t('filters.max')} aria-label={t('filters.max')} className={`${inputClass} w-24`}
+                />
+              </div>
+            </fieldset>
+            <label className="block">
+              <span className={labelClass}>
+                {t('filters.minRating', { value: values.minRating > 0 ? values.minRating.toFixed(1) : t('filters.any') })}
+              </span>
+              <input
+                type="range" min={0} max={10} step={0.5}
+                value={values.minRating} onChange={(e) => set('minRating', Number(e.target.value))}
+                className="w-full accent-fuchsia-500"
+              />
+            </label>
+            <label className="block">
+              <span className={labelClass}>
+                {t('filters.minVotes', { value: values.minVotes > 0 ? values.minVotes : t('filters.any') })}
+              </span>
+              <input
+                type="range" min={0} max={5000} step={50}
+                value={values.minVotes} onChange={(e) => set('minVotes', Number(e.target.value))}
+                className="w-full accent-fuchsia-500"
+              />
+            </label>
+          </div>
+
+          {options && !options.failed && options.providers.length > 0 && (
+            <fieldset>
+              <legend className={labelClass}>{t('filters.providers', { region: locale.region })}</legend>
+              <div className="flex flex-wrap gap-2">
+                {options.providers.map(provider => (
+                  <button
+                    key={provider.provider_id}
+                    type="button"
+                    aria-pressed={values.providers.includes(provider.provider_id)}
+                    onClick={() => set('providers', toggleId(values.providers, provider.provider_id))}
+                    className={`flex items-center gap-2 ${toggleClass(values.providers.includes(provider.provider_id))}`}
+                  >
+                    <TmdbImage kind="logo" path={provider.logo_path} alt="" sizes="16px" maxWidth={16} className="w-4 h-4 rounded" />
+                    {provider.provider_name}
+                  </button>
+                ))}
+              </div>
+            </fieldset>
+          )}
+
+          <div className="flex justify-end gap-3">
+            <button
+              type="button"
+              onClick={() => {
+                setValues({ ...EMPTY_FILTERS, media: values.media });
+                setBase(resetBase(query));
+              }}
+              className="text-sm text-slate-300 hover:text-white px-4 py-2"
+            >
+              {t('filters.reset')}
+            </button>
+            <button
+              type="submit"
+              disabled={disabled}
+              className="bg-fuchsia-600 hover:bg-fuchsia-700 text-white text-sm font-bold py-2 px-5 rounded-xl transition duration-200 disabled:bg-slate-500 disabled:cursor-not-allowed"
+            >
+              {t('filters.apply')}
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+};
+
+export default FilterPanel;
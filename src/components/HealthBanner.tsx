@@ -0,0 +1,65 @@
+// src/components/HealthBanner.tsx
+
+"use client";
+
+import React, { useEffect, useState } from 'react';
+import { useLocale } from '@/components/LocaleProvider';
+import type { HealthReport } from '@/lib/health';
+import type { MessageKey } from '@/lib/i18n';
+
+// One line per problem in the report, most severe first
+const problems = (report: HealthReport): { key: MessageKey; vars?: Record<string, string> }[] => {
+  const { tmdb, llm } = report.dependencies;
+  const lines: { key: MessageKey; vars?: Record<string, string> }[] = [];
+  if (tmdb.state === 'unconfigured') lines.push({ key: 'health.tmdbUnconfigured' });
+  if (tmdb.state === 'down') lines.push({ key: 'health.tmdbDown' });
+  if (report.parser.fallbackReason) lines.push({ key: 'health.parserFallback', vars: { reason: report.parser.fallbackReason } });
+  else if (report.parser.mode === 'mock') lines.push({ key: 'health.parserMock' });
+  if (llm.state === 'down') lines.push({ key: 'health.llmDown' });
+  return lines;
+};
+
+// Checks /api/health once per page load and explains what is not working.
+// It never blocks the page: a failed check simply shows nothing.
+const HealthBanner: React.FC = () => {
+  const { t } = useLocale();
+  const [report, setReport] = useState<HealthReport | null>(null);
+  const [dismissed, setDismissed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    // The report is the body of both the 200 and the 503 answer
+    fetch('/api/health')
+      .then(response => response.json() as Promise<HealthReport>)
+      .then(data => { if (!cancelled && data?.dependencies) setReport(data); })
+      .catch(() => {});
+    return () => { cancelled = true; };
+  }, []);
+
+  if (!report || report.status === 'ok' || dismissed) return null;
+  const lines = problems(report);
+  if (lines.length === 0) return null;
+
+  return (
+    <div
+      role="status"
+      className={`flex items-start gap-3 px-4 py-2 text-sm ${
+        report.status === 'down' ? 'bg-red-900/80 text-red-100' : 'bg-amber-900/80 text-amber-100'
+      }`}
+    >
+      <ul className="flex-1 space-y-0.5">
+        {lines.map(({ key, vars }) => <li key={key}>{t(key, vars)}</li>)}
+      </ul>
+      <button
+        type="button"
+        onClick={() => setDismissed(true)}
+        aria-label={t('health.dismiss')}
+        className="px-2 leading-none text-lg opacity-70 hover:opacity-100"
+      >
+        ×
+      </button>
+    </div>
+  );
+};
+
+export default HealthBanner;
@@ -0,0 +1,620 @@
+// src/components/HomePage.tsx
+
+"use client";
+
+import React, { useState, useEffect, useCallback, useRef } from 'react';
+import Link from 'next/link';
+import FilterChips from '@/components/FilterChips';
+import FilterPanel from '@/components/FilterPanel';
+import { useLocale } from '@/components/LocaleProvider';
+import MediaGrid from '@/components/MediaGrid';
+import { ApiError, createRequestId, describeApiError, fetchApi, toApiError } from '@/lib/api-error';
+import { DEFAULT_LOCALE, formatLocale } from '@/lib/locale';
+import { mediaKey, MediaList, MediaPage, POPULAR_QUERY, TmdbQueryParams, TRENDING_QUERY } from '@/lib/movies';
+import { fetchHybrid, fetchRecommendations, fetchTmdbPage, TmdbClientOptions } from '@/lib/tmdb-client';
+import { chipsForQuery, editChip, removeChip } from '@/lib/search-explanation';
+import { AISearchResult, MAX_SEARCH_TERM_LENGTH, SearchFilterChip, SearchWarning } from '@/lib/search-query';
+import { readSearchParams, SearchUrlState, toSearchParams } from '@/lib/search-url';
+
+const SearchIcon = (props: React.SVGProps<SVGSVGElement>) => (
+  <svg
+    {...props}
+    xmlns="http://www.w3.org/2000/svg"
+    width="24"
+    height="24"
+    viewBox="0 0 24 24"
+    fill="none"
+    stroke="currentColor"
+    strokeWidth="2"
+    strokeLinecap="round"
+    strokeLinejoin="round"
+  >
+    <circle cx="11" cy="11" r="8" />
+    <path d="m21 21-4.3-4.3" />
+  </svg>
+);
+
+const TrendingUpIcon = (props: React.SVGProps<SVGSVGElement>) => (
+  <svg
+    {...props}
+    xmlns="http://www.w3.org/2000/svg"
+    width="24"
+    height="24"
+    viewBox="0 0 24 24"
+    fill="none"
+    stroke="currentColor"
+    strokeWidth="2"
+    strokeLinecap="round"
+    strokeLinejoin="round"
+  >
+    <polyline points="22 7 13.5 15.5 8.5 10.5 2 17" />
+    <polyline points="16 7 22 7 22 13" />
+  </svg>
+);
+
+type Status = 'IDLE' | 'LOADING' | 'SUCCESS' | 'ERROR';
+
+type Section = 'search' | 'forYou' | 'trending' | 'popular';
+
+// Accumulated state of a section that can load further pages
+interface PagedMediaList {
+  items: MediaList;
+  page: number;
+  totalPages: number;
+  totalResults: number;
+  status: Status;
+  error: ApiError | null;
+  isLoadingMore: boolean;
+}
+
+// Served by /api/recommendations, which only reads the page; the path just labels the list
+const FOR_YOU_QUERY: TmdbQueryParams = { path: 'movie/recommendations' };
+
+const EMPTY_LIST: PagedMediaList = {
+  items: [],
+  page: 0,
+  totalPages: 0,
+  totalResults: 0,
+  status: 'IDLE',
+  error: null,
+  isLoadingMore: false,
+};
+
+// What the search line under the results header says: the term while it is
+// being parsed, then how it was understood
+type SearchIntent =
+  | { term: string }
+  | { path: string; hybridText: string | null; unresolved: string[] };
+
+// Appends a page to a list, skipping items that TMDB already returned on an
+// earlier page (its ordering shifts between requests for popularity-sorted lists)
+const mergeUnique = (existing: MediaList, incoming: MediaList): MediaList => {
+  const seen = new Set(existing.map(mediaKey));
+  return [...existing, ...incoming.filter(item => !seen.has(mediaKey(item)))];
+};
+
+// The list state for a first page that has already been fetched
+const listFromPage = (firstPage: MediaPage): PagedMediaList => ({
+  items: mergeUnique([], firstPage.results),
+  page: firstPage.page,
+  totalPages: firstPage.totalPages,
+  totalResults: firstPage.totalResults,
+  status: 'SUCCESS',
+  error: null,
+  isLoadingMore: false,
+});
+
+// Loads page 1 whenever `query` or the locale changes and exposes `loadMore` for
+// the next pages. A null query resets the list to IDLE; nothing is fetched until
+// the locale is known. An `initial` page rendered on the server (in
+// DEFAULT_LOCALE) is shown right away and kept when the user's locale matches.
+// `fetchPage` must be stable (useCallback).
+const usePagedMedia = (
+  query: TmdbQueryParams | null,
+  label: string,
+  fetchPage: (query: TmdbQueryParams, options?: TmdbClientOptions) => Promise<MediaPage> = fetchTmdbPage,
+  initial: MediaPage | null = null,
+) => {
+  const { locale, ready } = useLocale();
+  const [list, setList] = useState<PagedMediaList>(() => (initial ? listFromPage(initial) : EMPTY_LIST));
+  // Bumped on every query change so responses for a stale query are ignored
+  const generation = useRef(0);
+  // Whether the list still shows the server-rendered page
+  const showingInitial = useRef(initial !== null);
+
+  useEffect(() => {
+    const current = ++generation.current;
+
+    if (!query) {
+      setList(EMPTY_LIST);
+      return;
+    }
+
+    if (showingInitial.current) {
+      if (!ready) return;
+      showingInitial.current = false;
+      if (formatLocale(locale) === formatLocale(DEFAULT_LOCALE)) return;
+    }
+
+    setList({ ...EMPTY_LIST, status: 'LOADING' });
+    if (!ready) return;
+    fetchPage(query, { locale })
+      .then((firstPage) => {
+        if (current !== generation.current) return;
+        setList(listFromPage(firstPage));
+      })
+      .catch((error) => {
+        if (current !== generation.current) return;
+        console.error(`Error fetching ${label}:`, error);
+        setList({
+          ...EMPTY_LIST,
+          status: 'ERROR',
+          error: toApiError(error),
+        });
+      });
+  }, [query, label, fetchPage, locale, ready]);
+
+  const loadMore = useCallback(() => {
+    if (!query || list.status !== 'SUCCESS' || list.isLoadingMore || list.page >= list.totalPages) {
+      return;
+    }
+
+    const current = generation.current;
+    setList(prev => ({ ...prev, isLoadingMore: true }));
+
+    fetchPage({ ...query, page: String(list.page + 1) }, { locale })
+      .then((nextPage) => {
+        if (current !== generation.current) return;
+        setList(prev => ({
+          ...prev,
+          items: mergeUnique(prev.items, nextPage.results),
+          page: nextPage.page,
+          totalPages: nextPage.totalPages,
+          totalResults: nextPage.totalResults,
+          isLoadingMore: false,
+        }));
+      })
+      .catch((error) => {
+        if (current !== generation.current) return;
+        console.error(`Error loading more ${label}:`, error);
+        // Keep what is already on screen; the button stays available for a retry
+        setList(prev => ({ ...prev, isLoadingMore: false }));
+      });
+  }, [query, label, list, fetchPage, locale]);
+
+  return { list, loadMore };
+};
+
+// "Load more" button for a paged section. With autoLoad, the next page is also
+// requested as soon as the control scrolls into view (infinite scroll).
+const LoadMoreControl: React.FC<{
+  shown: number;
+  total: number;
+  hasMore: boolean;
+  isLoading: boolean;
+  autoLoad: boolean;
+  onLoadMore: () => void;
+}> = ({ shown, total, hasMore, isLoading, autoLoad, onLoadMore }) => {
+  const { t } = useLocale();
+  const sentinelRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const sentinel = sentinelRef.current;
+    if (!autoLoad || !hasMore || !sentinel || typeof IntersectionObserver === 'undefined') return;
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries.some(entry => entry.isIntersecting)) onLoadMore();
+    }, { rootMargin: '400px' });
+
+    observer.observe(sentinel);
+    return () => observer.disconnect();
+  }, [autoLoad, hasMore, onLoadMore]);
+
+  return (
+    <div ref={sentinelRef} className="flex flex-col items-center gap-2 mt-8">
+      <p className="text-slate-500 text-xs">
+        {t('list.showing', { shown, total })}
+      </p>
+      {hasMore && (
+        <button
+          type="button"
+          onClick={onLoadMore}
+          disabled={isLoading}
+          className="bg-slate-700 hover:bg-slate-600 text-white text-sm font-semibold py-2 px-5 rounded-xl transition duration-200 disabled:bg-slate-800 disabled:text-slate-500 disabled:cursor-not-allowed"
+        >
+          {isLoading ? t('list.loadingMore') : t('list.loadMore')}
+        </button>
+      )}
+    </div>
+  );
+};
+
+// Records a search in the page URL: a new history entry for a new search,
+// the same entry when its filters are refined. null clears the search.
+const writeSearchUrl = (state: SearchUrlState | null, mode: 'push' | 'replace') => {
+  const search = state ? `?${toSearchParams(state)}` : '';
+  if (search === window.location.search) return;
+  const url = `${window.location.pathname}${search}`;
+  if (mode === 'push') window.history.pushState(null, '', url);
+  else window.history.replaceState(null, '', url);
+};
+
+// The trending and popular first pages rendered on the server; null when TMDB
+// could not be reached there, in which case the browser fetches them
+export interface HomePageProps {
+  initialTrending: MediaPage | null;
+  initialPopular: MediaPage | null;
+}
+
+const TmdbProxyTester: React.FC<HomePageProps> = ({ initialTrending, initialPopular }) => {
+  const { locale, t } = useLocale();
+  // Read by runSearch, which should not start over when only the language changes
+  const localeRef = useRef(locale);
+  useEffect(() => {
+    localeRef.current = locale;
+  }, [locale]);
+  const [searchQuery, setSearchQuery] = useState<TmdbQueryParams | null>(null);
+  
+  const [searchTerm, setSearchTerm] = useState('');
+  // The term the current results are for; the input may have changed since
+  const [searchedTerm, setSearchedTerm] = useState('');
+  const [searchIntent, setSearchIntent] = useState<SearchIntent | null>(null);
+  // Repairs the server made to the parser's output
+  const [searchWarnings, setSearchWarnings] = useState<SearchWarning[]>([]);
+  // The parsed filters; editing them changes searchQuery without re-running the parser
+  const [searchChips, setSearchChips] = useState<SearchFilterChip[]>([]);
+  // Text no filter explains; when set, results come from the hybrid search endpoint
+  const [hybridText, setHybridText] = useState<string | null>(null);
+  // Sent with the parser call and every result page so the server logs tie them together
+  const [searchRequestId, setSearchRequestId] = useState<string | undefined>(undefined);
+  // The request id of the latest search; parser answers for earlier ones are dropped
+  const activeSearch = useRef<string | undefined>(undefined);
+  
+  // Status of the AI parsing step; the result list itself is tracked by usePagedMedia
+  const [searchStatus, setSearchStatus] = useState<Status>('IDLE');
+  const [searchError, setSearchError] = useState<ApiError | null>(null);
+
+  const popular = usePagedMedia(POPULAR_QUERY, 'popular movies', fetchTmdbPage, initialPopular);
+  const trending = usePagedMedia(TRENDING_QUERY, 'trending movies', fetchTmdbPage, initialTrending);
+  const forYou = usePagedMedia(FOR_YOU_QUERY, 'recommendations', fetchRecommendations);
+  const fetchSearchPage = useCallback(
+    (query: TmdbQueryParams, options?: TmdbClientOptions) => {
+      const traced = { ...options, requestId: searchRequestId };
+      return hybridText ? fetchHybrid(query, hybridText, traced) : fetchTmdbPage(query, traced);
+    },
+    [hybridText, searchRequestId],
+  );
+  const search = usePagedMedia(searchQuery, 'search results', fetchSearchPage);
+
+  const clearSearch = useCallback(() => {
+    activeSearch.current = undefined;
+    setSearchQuery(null);
+    setSearchStatus('IDLE');
+    setSearchedTerm('');
+    setSearchIntent(null);
+    setSearchWarnings([]);
+    setSearchChips([]);
+    setHybridText(null);
+  }, []);
+
+  // Parses `term` and shows its results. A search restored from the URL with
+  // its filters shows their results straight away; the parser then only
+  // supplies the names of the genres, people and keywords in them.
+  const runSearch = useCallback(async (term: string, restored: SearchUrlState | null = null) => {
+    const requestId = createRequestId();
+    activeSearch.current = requestId;
+    setSearchRequestId(requestId);
+    setSearchedTerm(term);
+    setSearchError(null);
+    setSearchWarnings([]);
+
+    const resolved = restored?.query ?? null;
+    const restoredText = restored?.hybridText ?? null;
+    if (resolved) {
+      setSearchQuery(resolved);
+      setHybridText(restoredText);
+      setSearchChips(chipsForQuery(resolved, [], {}, localeRef.current));
+      setSearchIntent({ path: resolved.path, hybridText: restoredText, unresolved: [] });
+      setSearchStatus('SUCCESS');
+      // Filters set by hand have no term to parse
+      if (!term) return;
+    } else {
+      setSearchQuery(null);
+      setSearchChips([]);
+      setHybridText(null);
+      setSearchIntent({ term });
+      setSearchStatus('LOADING');
+    }
+
+    try {
+      // 1. AI STEP: Call the AI parser to convert text into structured parameters
+      const parserUrl = `/api/ai-search-parser?searchTerm=${encodeURIComponent(term)}&locale=${formatLocale(localeRef.current)}`;
+      // Rejects with an ApiError when the parser fails (e.g., bad server config, malformed JSON from LLM)
+      const parsedData = await fetchApi<AISearchResult>(parserUrl, { headers: { 'X-Request-Id': requestId } });
+      if (activeSearch.current !== requestId) return;
+      
+      // Destructure and type-check the AI's output
+      // Note: TmdbQueryParams['params'] is not directly accessible here, using object structure
+      const { path, params }: { path: string, params: { [key: string]: string | undefined } } = parsedData;
+      
+      if (typeof path !== 'string' || typeof params !== 'object') {
+          throw new ApiError('parser', 200, 'AI parser returned invalid format.', [], undefined, undefined, requestId);
+      }
+      
+      // Names the server could not turn into TMDB ids (unknown genre, person or keyword)
+      const unresolved = (parsedData.resolution?.unresolved ?? []).map(u => u.name);
+
+      if (resolved) {
+        // The URL's filters stand, even where the parser now reads the term differently
+        setSearchChips(chipsForQuery(resolved, parsedData.explanation, {}, localeRef.current));
+        setSearchIntent({ path: resolved.path, hybridText: restoredText, unresolved });
+        return;
+      }
+
+      // Update the intent based on the AI's decision; the filters themselves are shown as chips
+      setSearchIntent({ path, hybridText: parsedData.hybridText ?? null, unresolved });
+      setSearchWarnings(parsedData.warnings ?? []);
+      setSearchChips(parsedData.explanation ?? []);
+      setHybridText(parsedData.hybridText ?? null);
+
+      // 2. PROXY STEP: Hand the AI-generated structured request to the paged search list
+      // This is the object construction that caused the warning, now safe due to interface change.
+      const tmdbParams: TmdbQueryParams = { path, ...params }; 
+      setSearchQuery(tmdbParams);
+      setSearchStatus('SUCCESS');
+      writeSearchUrl({ term, query: tmdbParams, hybridText: parsedData.hybridText ?? null }, 'replace');
+    } catch (error) {
+      if (activeSearch.current !== requestId) return;
+      if (resolved) {
+        // The restored results do not need the parser; only the chip names are missing
+        console.warn('Could not name the filters of a restored search:', error);
+        return;
+      }
+      console.error('Error during semantic search:', error);
+      setSearchStatus('ERROR');
+      setSearchError(toApiError(error));
+    }
+  }, []);
+
+  const handleSearch = useCallback((e: React.FormEvent) => {
+    e.preventDefault();
+    const trimmedSearchTerm = searchTerm.trim();
+    
+    if (!trimmedSearchTerm) {
+      clearSearch();
+      writeSearchUrl(null, 'push');
+      return;
+    }
+
+    // The filters are added to this entry once the parser has answered
+    writeSearchUrl({ term: trimmedSearchTerm, query: null, hybridText: null }, 'push');
+    runSearch(trimmedSearchTerm);
+  }, [searchTerm, clearSearch, runSearch]);
+
+  // Shows the search in the URL on the first visit and after back/forward
+  useEffect(() => {
+    const restore = () => {
+      const state = readSearchParams(new URLSearchParams(window.location.search));
+      if (!state) {
+        setSearchTerm('');
+        clearSearch();
+        return;
+      }
+      setSearchTerm(state.term);
+      runSearch(state.term, state);
+    };
+
+    restore();
+    window.addEventListener('popstate', restore);
+    return () => window.removeEventListener('popstate', restore);
+  }, [clearSearch, runSearch]);
+
+  // Shows the filter panel's query as it is; like a chip edit, no parser call is needed
+  const handleApplyFilters = useCallback((result: Pick<AISearchResult, 'path' | 'params' | 'hybridText'>, names: Record<string, string>) => {
+    const { path, params } = result;
+    const query: TmdbQueryParams = { path, ...params };
+    // Text a hybrid search ranks by still applies to refined discover filters,
+    // and the text of a title search starts ranking them
+    const text = result.hybridText ?? (searchQuery?.path.startsWith('discover/') ? hybridText : null);
+    const requestId = createRequestId();
+    activeSearch.current = requestId;
+    setSearchRequestId(requestId);
+    setSearchError(null);
+    setSearchWarnings([]);
+    setSearchQuery(query);
+    setHybridText(text);
+    setSearchChips(current => chipsForQuery(query, current, names, locale));
+    setSearchIntent({ path, hybridText: text, unresolved: [] });
+    setSearchStatus('SUCCESS');
+    writeSearchUrl({ term: searchedTerm, query, hybridText: text }, 'push');
+  }, [searchQuery, searchedTerm, hybridText, locale]);
+
+  const handleRemoveChip = useCallback((chip: SearchFilterChip) => {
+    if (!searchQuery) return;
+    const next = removeChip(searchQuery, chip);
+    setSearchQuery(next);
+    setSearchChips(current => current.filter(c => c.id !== chip.id));
+    writeSearchUrl({ term: searchedTerm, query: next, hybridText }, 'replace');
+  }, [searchQuery, searchedTerm, hybridText]);
+
+  const handleEditChip = useCallback((chip: SearchFilterChip, value: string): string | null => {
+    if (!searchQuery) return null;
+    const edited = editChip(searchQuery, chip, value, locale);
+    if ('error' in edited) return edited.error;
+    setSearchQuery(edited.query);
+    setSearchChips(current => current.map(c => (c.id === chip.id ? edited.chip : c)));
+    writeSearchUrl({ term: searchedTerm, query: edited.query, hybridText }, 'replace');
+    return null;
+  }, [searchQuery, searchedTerm, hybridText, locale]);
+
+  // The search line under the results header, in the current UI language
+  const describeIntent = (intent: SearchIntent): string => {
+    if ('term' in intent) return t('search.processing', { term: intent.term });
+
+    const { path, hybridText: text, unresolved } = intent;
+    const searchType = t(path.startsWith('discover/') ? 'search.typeSemantic' : 'search.typeText');
+    const media = t(path.endsWith('/tv') || path.includes('/tv/') ? 'search.mediaTv' : path.endsWith('/movie') || path.includes('/movie/') ? 'search.mediaMovie' : 'search.mediaAll');
+    const detail = path.startsWith('trending/')
+      ? t(path.endsWith('/week') ? 'search.trendingWeek' : 'search.trendingToday', { media })
+      : path.startsWith('discover/') && text ? t('search.hybrid', { text, media })
+      : t(path.startsWith('discover/') ? 'search.discover' : 'search.text', { media });
+    const unresolvedNote = unresolved.length > 0 ? t('search.unresolved', { names: unresolved.join(', ') }) : '';
+
+    return t('search.intent', { type: searchType, detail, unresolved: unresolvedNote });
+  };
+
+  const renderContent = (list: PagedMediaList, onLoadMore: () => void, section: Section, title: string, autoLoad = false) => {
+    const { status, error, items: data } = list;
+    let content;
+    let icon;
+
+    if (status === 'LOADING') {
+      content = <div className="text-center text-slate-400 p-8">{t('list.loading')}</div>;
+    } else if (status === 'ERROR') {
+      // The error's kind says which layer failed: the request, TMDB, the parser or the network
+      const { title: errorTitle, hint } = describeApiError(error ?? toApiError(null), locale.language);
+      content = (
+        <div className="bg-red-900/50 border border-red-700 text-white p-6 rounded-xl shadow-inner my-4">
+          <p className="font-bold text-lg mb-2">{errorTitle}</p>
+          <p className="text-sm">{hint}</p>
+          <p className="mt-3 text-red-300 font-mono text-xs break-all">
+            {error?.message || t('list.unknownError')}
+          </p>
+          {error && error.issues.length > 0 && (
+            <ul className="mt-2 text-red-300 font-mono text-xs space-y-1">
+              {error.issues.map(issue => (
+                <li key={`${issue.param}-${issue.code}`}>{issue.param}: {issue.message}</li>
+              ))}
+            </ul>
+          )}
+          {error?.requestId && (
+            <p className="mt-3 text-red-300/70 font-mono text-xs">{t('list.requestId', { id: error.requestId })}</p>
+          )}
+        </div>
+      );
+    } else if (status === 'SUCCESS' && data.length === 0) {
+      content = <div className="text-center text-slate-400 p-8">{t('list.empty')}</div>;
+    } else {
+      content = (
+        <>
+          <MediaGrid items={data} />
+          {status === 'SUCCESS' && (
+            <LoadMoreControl
+              shown={data.length}
+              total={list.totalResults}
+              hasMore={list.page < list.totalPages}
+              isLoading={list.isLoadingMore}
+              autoLoad={autoLoad}
+              onLoadMore={onLoadMore}
+            />
+          )}
+        </>
+      );
+    }
+
+    if (section === 'trending') {
+        icon = <TrendingUpIcon className="w-6 h-6 mr-3 text-cyan-400" />;
+    } else if (section === 'search') {
+        icon = <SearchIcon className="w-6 h-6 mr-3 text-fuchsia-400" />;
+    } else {
+        icon = null;
+    }
+
+    return (
+      <section className="mt-12">
+        <h2 className="text-3xl font-extrabold text-white mb-2 flex items-center">
+          {icon}
+          {title}
+        </h2>
+        {/* Display the AI-parsed intent under the search results header */}
+        {section === 'search' && searchStatus !== 'IDLE' && searchIntent && (
+             <p className="text-fuchsia-300 mb-3 text-sm italic">{describeIntent(searchIntent)}</p>
+        )}
+        {section === 'search' && searchStatus !== 'IDLE' && searchWarnings.length > 0 && (
+          <ul className="text-amber-300/90 mb-3 text-xs space-y-1">
+            {searchWarnings.map((warning, i) => (
+              <li key={`${warning.code}-${warning.param ?? ''}-${i}`}>⚠ {warning.message}</li>
+            ))}
+          </ul>
+        )}
+        {section === 'search' && searchStatus === 'SUCCESS' && (
+          <FilterChips chips={searchChips} onRemove={handleRemoveChip} onEdit={handleEditChip} />
+        )}
+        {content}
+      </section>
+    );
+  };
+
+  return (
+    <div className="min-h-screen bg-slate-900 text-white p-4 sm:p-8 lg:p-12">
+      
+      <header className="text-center mb-12">
+        <h1 className="text-5xl font-black text-transparent bg-clip-text bg-gradient-to-r from-cyan-400 to-fuchsia-600">
+          {t('home.title')}
+        </h1>
+        <p className="text-slate-400 mt-2 text-lg">
+          {t('home.subtitle')}
+        </p>
+        <Link href="/collection" className="inline-block mt-4 text-cyan-400 hover:underline">
+          {t('home.collectionLink')}
+        </Link>
+      </header>
+
+      <section className="max-w-4xl mx-auto mb-16">
+        <form onSubmit={handleSearch} className="flex flex-col sm:flex-row gap-4">
+          <div className="relative flex-grow">
+            <SearchIcon className="absolute left-3 top-1/2 -translate-y-1/2 w-5 h-5 text-slate-400" />
+            <input
+              type="text"
+              value={searchTerm}
+              onChange={(e) => setSearchTerm(e.target.value)}
+              maxLength={MAX_SEARCH_TERM_LENGTH}
+              placeholder={t('search.placeholder')}
+              className="w-full bg-slate-700 text-white border-2 border-slate-600 rounded-xl py-3 pl-10 pr-4 focus:outline-none focus:border-fuchsia-500 transition duration-150 shadow-lg"
+            />
+          </div>
+          <button
+            type="submit"
+            disabled={searchStatus === 'LOADING' || search.list.status === 'LOADING'}
+            className="bg-fuchsia-600 hover:bg-fuchsia-700 text-white font-bold py-3 px-6 rounded-xl transition duration-200 transform hover:scale-[1.02] active:scale-[0.98] shadow-lg disabled:bg-slate-500 disabled:cursor-not-allowed"
+          >
+            {searchStatus === 'LOADING' || search.list.status === 'LOADING' ? t('search.submitting') : t('search.submit')}
+          </button>
+        </form>
+        <FilterPanel query={searchQuery} onApply={handleApplyFilters} disabled={searchStatus === 'LOADING'} />
+      </section>
+
+      {/* While the AI step is running or has failed, its status stands in for the result list */}
+      {searchStatus !== 'IDLE' && renderContent(
+        searchStatus === 'SUCCESS' ? search.list : { ...search.list, status: searchStatus, error: searchError },
+        search.loadMore,
+        'search',
+        t('search.results'),
+        true,
+      )}
+
+      <main className="max-w-7xl mx-auto">
+        {/* Without any saved, rated or opened movies there is nothing to recommend from yet */}
+        {forYou.list.status === 'SUCCESS' && forYou.list.items.length === 0 ? (
+          <section className="mt-12">
+            <h2 className="text-3xl font-extrabold text-white mb-2">{t('home.forYou')}</h2>
+            <p className="text-slate-400 text-sm">
+              {t('home.forYouEmpty')}
+            </p>
+          </section>
+        ) : renderContent(forYou.list, forYou.loadMore, 'forYou', t('home.forYou'))}
+
+        {renderContent(trending.list, trending.loadMore, 'trending', t('home.trending'))}
+
+        {renderContent(popular.list, popular.loadMore, 'popular', t('home.popular'))}
+      </main>
+
+      <footer className="mt-20 pt-8 border-t border-slate-800 text-center text-slate-500 text-sm">
+        <p>{t('home.footerData')}</p>
+        <p>{t('home.footerParser')}</p>
+      </footer>
+    </div>
+  );
+};
+
+export default TmdbProxyTester;
\ No newline at end of file
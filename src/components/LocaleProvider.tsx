@@ -0,0 +1,71 @@
+// src/components/LocaleProvider.tsx
+
+"use client";
+
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
+import { formatDate, MessageKey, MessageVars, translate } from '@/lib/i18n';
+import { DEFAULT_LOCALE, detectLocale, formatLocale, Locale, parseLocale } from '@/lib/locale';
+
+// Where the picked locale is remembered between visits
+const STORAGE_KEY = 'tmdb-locale';
+
+interface LocaleContextValue {
+  locale: Locale;
+  // False until the stored or browser locale has been read; lists wait for it
+  // so they are not fetched twice
+  ready: boolean;
+  setLocale: (locale: Locale) => void;
+  t: (key: MessageKey, vars?: MessageVars) => string;
+  formatDate: (date: string | undefined | null, options: Intl.DateTimeFormatOptions) => string | null;
+}
+
+const LocaleContext = createContext<LocaleContextValue | null>(null);
+
+// Shares the user's locale with every page. The server renders DEFAULT_LOCALE;
+// the saved choice or the browser's languages take over after hydration.
+export const LocaleProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const [locale, setLocaleState] = useState<Locale>(DEFAULT_LOCALE);
+  const [ready, setReady] = useState(false);
+
+  useEffect(() => {
+    let saved: Locale | null = null;
+    try {
+      saved = parseLocale(window.localStorage.getItem(STORAGE_KEY));
+    } catch {
+      // Storage may be disabled; fall through to the browser languages
+    }
+    setLocaleState(saved ?? detectLocale(navigator.languages ?? [navigator.language]));
+    setReady(true);
+  }, []);
+
+  useEffect(() => {
+    document.documentElement.lang = formatLocale(locale);
+  }, [locale]);
+
+  const setLocale = useCallback((next: Locale) => {
+    setLocaleState(next);
+    try {
+      window.localStorage.setItem(STORAGE_KEY, formatLocale(next));
+    } catch (storageError) {
+      console.warn('Could not save locale:', storageError);
+    }
+  }, []);
+
+  const value = useMemo(() => ({
+    locale,
+    ready,
+    setLocale,
+    t: (key: MessageKey, vars?: MessageVars) => translate(locale.language, key, vars),
+    formatDate: (date: string | undefined | null, options: Intl.DateTimeFormatOptions) => formatDate(locale, date, options),
+  }), [locale, ready, setLocale]);
+
+  return <LocaleContext.Provider value={value}>{children}</LocaleContext.Provider>;
+};
+
+export const useLocale = (): LocaleContextValue => {
+  const context = useContext(LocaleContext);
+  if (!context) {
+    throw new Error('useLocale must be used inside <LocaleProvider>.');
+  }
+  return context;
+};
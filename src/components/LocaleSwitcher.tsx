@@ -0,0 +1,50 @@
+// src/components/LocaleSwitcher.tsx
+
+"use client";
+
+import React from 'react';
+import { useLocale } from '@/components/LocaleProvider';
+import { LANGUAGE_OPTIONS, REGION_OPTIONS } from '@/lib/locale';
+
+// Names each option in its own language ('Français') or, for regions, in the UI language
+const displayName = (locale: string, type: 'language' | 'region', code: string): string => {
+  try {
+    return new Intl.DisplayNames([locale], { type }).of(code) ?? code;
+  } catch {
+    return code;
+  }
+};
+
+// Language and region pickers; the language also picks the UI catalog where one exists
+const LocaleSwitcher: React.FC = () => {
+  const { locale, setLocale, t } = useLocale();
+  // A detected locale outside the offered lists still shows up as selected
+  const languages = LANGUAGE_OPTIONS.includes(locale.language as typeof LANGUAGE_OPTIONS[number])
+    ? LANGUAGE_OPTIONS : [...LANGUAGE_OPTIONS, locale.language];
+  const regions = REGION_OPTIONS.includes(locale.region as typeof REGION_OPTIONS[number])
+    ? REGION_OPTIONS : [...REGION_OPTIONS, locale.region];
+  const selectClass = 'bg-slate-700 text-slate-200 text-xs rounded-lg px-2 py-1 focus:outline-none focus:ring-2 focus:ring-fuchsia-500';
+
+  return (
+    <div className="flex items-center justify-end gap-2">
+      <select
+        value={locale.language}
+        onChange={(e) => setLocale({ ...locale, language: e.target.value })}
+        aria-label={t('locale.language')}
+        className={selectClass}
+      >
+        {languages.map(code => <option key={code} value={code}>{displayName(code, 'language', code)}</option>)}
+      </select>
+      <select
+        value={locale.region}
+        onChange={(e) => setLocale({ ...locale, region: e.target.value })}
+        aria-label={t('locale.region')}
+        className={selectClass}
+      >
+        {regions.map(code => <option key={code} value={code}>{displayName(locale.language, 'region', code)}</option>)}
+      </select>
+    </div>
+  );
+};
+
+export default LocaleSwitcher;
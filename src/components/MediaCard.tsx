@@ -0,0 +1,111 @@
+// src/components/MediaCard.tsx
+
+"use client";
+
+import React from 'react';
+import CollectionControls from '@/components/CollectionControls';
+import { useLocale } from '@/components/LocaleProvider';
+import MovieCard from '@/components/MovieCard';
+import { toCollectionItem } from '@/lib/collections';
+import TmdbImage from '@/components/TmdbImage';
+import { MediaItem, Person, TvShow } from '@/lib/movies';
+import { GRID_CARD_WIDTH, IMAGE_SIZES } from '@/lib/tmdb-images';
+
+const TvCard: React.FC<{ show: TvShow }> = ({ show }) => {
+  const { t, formatDate } = useLocale();
+  const year = formatDate(show.first_air_date, { year: 'numeric' });
+  const ratingColor = show.vote_average >= 7 ? 'bg-green-500' : 'bg-amber-500';
+
+  return (
+    <div className="bg-slate-800 rounded-xl shadow-xl overflow-hidden transform transition duration-300 hover:scale-[1.03] hover:shadow-2xl flex flex-col">
+      <TmdbImage
+        kind="poster"
+        path={show.poster_path}
+        alt={show.name}
+        sizes={IMAGE_SIZES.grid}
+        maxWidth={GRID_CARD_WIDTH}
+        className="w-full aspect-[2/3]"
+        fallbackLabel={t('card.posterMissing')}
+      />
+
+      <div className="p-4 flex flex-col flex-grow">
+        <span className="self-start bg-cyan-900/60 text-cyan-200 text-[10px] font-bold uppercase tracking-wide rounded px-2 py-0.5 mb-2">
+          {t('card.tvSeries')}
+        </span>
+        <h3 className="text-xl font-bold text-white mb-2 line-clamp-2">
+          {show.name}
+        </h3>
+
+        <div className="flex justify-between items-center text-sm text-slate-400 mb-3">
+          <span className={`px-3 py-1 text-xs font-semibold rounded-full ${ratingColor} text-white shadow-md`}>
+            ⭐ {show.vote_average.toFixed(1)}
+          </span>
+          {year ? (
+            <time dateTime={show.first_air_date} className="text-sm font-medium">{t('card.since', { year })}</time>
+          ) : (
+            <span className="text-sm font-medium">{t('card.noDate')}</span>
+          )}
+        </div>
+
+        {show.number_of_seasons !== undefined && (
+          <p className="text-slate-400 text-xs mb-2">
+            {t('card.seasons', { count: show.number_of_seasons })}
+          </p>
+        )}
+
+        <p className="text-slate-300 text-sm flex-grow line-clamp-3">
+          {show.overview || t('card.noOverview')}
+        </p>
+      </div>
+      <CollectionControls item={toCollectionItem({ ...show, media_type: 'tv' })} />
+    </div>
+  );
+};
+
+const PersonCard: React.FC<{ person: Person }> = ({ person }) => {
+  const { t } = useLocale();
+  const knownFor = (person.known_for ?? [])
+    .map(item => (item.media_type === 'movie' ? item.title : item.name))
+    .slice(0, 3)
+    .join(', ');
+
+  return (
+    <div className="bg-slate-800 rounded-xl shadow-xl overflow-hidden transform transition duration-300 hover:scale-[1.03] hover:shadow-2xl flex flex-col">
+      <TmdbImage
+        kind="profile"
+        path={person.profile_path}
+        alt={person.name}
+        sizes={IMAGE_SIZES.grid}
+        maxWidth={GRID_CARD_WIDTH}
+        className="w-full aspect-[2/3]"
+        fallbackLabel={t('card.photoMissing')}
+      />
+
+      <div className="p-4 flex flex-col flex-grow">
+        <span className="self-start bg-fuchsia-900/60 text-fuchsia-200 text-[10px] font-bold uppercase tracking-wide rounded px-2 py-0.5 mb-2">
+          {person.known_for_department || t('card.person')}
+        </span>
+        <h3 className="text-xl font-bold text-white mb-2 line-clamp-2">
+          {person.name}
+        </h3>
+        {knownFor && (
+          <p className="text-slate-300 text-sm line-clamp-3">{t('card.knownFor', { titles: knownFor })}</p>
+        )}
+      </div>
+    </div>
+  );
+};
+
+// Renders the card that matches the item's media type
+const MediaCard: React.FC<{ item: MediaItem }> = ({ item }) => {
+  switch (item.media_type) {
+    case 'movie':
+      return <MovieCard movie={item} />;
+    case 'tv':
+      return <TvCard show={item} />;
+    case 'person':
+      return <PersonCard person={item} />;
+  }
+};
+
+export default MediaCard;
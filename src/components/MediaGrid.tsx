@@ -0,0 +1,27 @@
+// src/components/MediaGrid.tsx
+
+import React from 'react';
+import MediaCard from '@/components/MediaCard';
+import { MediaItem, mediaKey, MediaList } from '@/lib/movies';
+
+// Hybrid search and recommendation results explain their rank; other lists have no reasons
+const matchReasons = (item: MediaItem): string[] =>
+  item.media_type !== 'person' && item.match ? item.match.reasons.slice(0, 3) : [];
+
+// The responsive card grid shared by the home page sections and the collection page
+const MediaGrid: React.FC<{ items: MediaList }> = ({ items }) => (
+  <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 lg:grid-cols-5 xl:grid-cols-6 gap-6">
+    {items.map(item => (matchReasons(item).length > 0 ? (
+      <div key={mediaKey(item)} className="flex flex-col gap-2">
+        <MediaCard item={item} />
+        <ul className="text-[11px] text-slate-400 space-y-0.5" aria-label="Why this result">
+          {matchReasons(item).map(reason => <li key={reason}>• {reason}</li>)}
+        </ul>
+      </div>
+    ) : (
+      <MediaCard key={mediaKey(item)} item={item} />
+    )))}
+  </div>
+);
+
+export default MediaGrid;
@@ -0,0 +1,70 @@
+// src/components/MovieCard.tsx
+
+"use client";
+
+import React from 'react';
+import Link from 'next/link';
+import CollectionControls from '@/components/CollectionControls';
+import { useLocale } from '@/components/LocaleProvider';
+import TmdbImage from '@/components/TmdbImage';
+import { toCollectionItem } from '@/lib/collections';
+import { Movie } from '@/lib/movies';
+import { GRID_CARD_WIDTH, IMAGE_SIZES } from '@/lib/tmdb-images';
+
+const MovieCard: React.FC<{ movie: Movie }> = ({ movie }) => {
+  const { t, formatDate } = useLocale();
+  const year = formatDate(movie.release_date, { year: 'numeric' });
+  const releaseDate = formatDate(movie.release_date, { dateStyle: 'long' });
+
+  const ratingColor = movie.vote_average >= 7 ? 'bg-green-500' : 'bg-amber-500';
+
+  return (
+    <div className="bg-slate-800 rounded-xl shadow-xl overflow-hidden transform transition duration-300 hover:scale-[1.03] hover:shadow-2xl flex flex-col">
+      {/* The collection controls sit outside the link: buttons may not be nested in an anchor */}
+      <Link
+        href={`/movie/${movie.id}`}
+        className="flex flex-col flex-grow focus:outline-none focus-visible:ring-2 focus-visible:ring-inset focus-visible:ring-fuchsia-500"
+      >
+        <TmdbImage
+          kind="poster"
+          path={movie.poster_path}
+          alt={movie.title}
+          sizes={IMAGE_SIZES.grid}
+          maxWidth={GRID_CARD_WIDTH}
+          className="w-full aspect-[2/3]"
+          fallbackLabel={t('card.posterMissing')}
+        />
+
+        <div className="p-4 flex flex-col flex-grow">
+          <h3 className="text-xl font-bold text-white mb-2 line-clamp-2">
+            {movie.title}
+          </h3>
+
+          <div className="flex justify-between items-center text-sm text-slate-400 mb-3">
+            <span className={`px-3 py-1 text-xs font-semibold rounded-full ${ratingColor} text-white shadow-md`}>
+              ⭐ {movie.vote_average.toFixed(1)}
+            </span>
+            {year && releaseDate ? (
+              <time
+                dateTime={movie.release_date}
+                title={t('card.released', { date: releaseDate })}
+                className="text-sm font-medium"
+              >
+                {year}
+              </time>
+            ) : (
+              <span className="text-sm font-medium">{t('card.noDate')}</span>
+            )}
+          </div>
+
+          <p className="text-slate-300 text-sm flex-grow line-clamp-3">
+            {movie.overview || t('card.noOverview')}
+          </p>
+        </div>
+      </Link>
+      <CollectionControls item={toCollectionItem({ ...movie, media_type: 'movie' })} />
+    </div>
+  );
+};
+
+export default MovieCard;
@@ -0,0 +1,105 @@
+// src/components/TmdbImage.tsx
+
+"use client";
+
+import React, { useEffect, useMemo, useState } from 'react';
+import Image from 'next/image';
+import { DEFAULT_IMAGE_CONFIG, ImageConfig, ImageKind, previewUrl, tmdbImageLoader } from '@/lib/tmdb-images';
+
+const PLACEHOLDER_SRC = '/image-placeholder.svg';
+
+// One request per page load, shared by every image; the defaults hold until it answers
+let configRequest: Promise<ImageConfig> | null = null;
+let loadedConfig: ImageConfig | null = null;
+
+const loadImageConfig = (): Promise<ImageConfig> => {
+  configRequest ??= fetch('/api/image-config')
+    .then(response => (response.ok ? (response.json() as Promise<ImageConfig>) : DEFAULT_IMAGE_CONFIG))
+    .catch(() => DEFAULT_IMAGE_CONFIG)
+    .then(config => (loadedConfig = config));
+  return configRequest;
+};
+
+/**
+ * TMDB's image base URL and sizes, read once from /api/image-config.
+ */
+export function useImageConfig(): ImageConfig {
+  const [config, setConfig] = useState<ImageConfig>(loadedConfig ?? DEFAULT_IMAGE_CONFIG);
+  useEffect(() => {
+    let cancelled = false;
+    loadImageConfig().then(loaded => { if (!cancelled) setConfig(loaded); });
+    return () => { cancelled = true; };
+  }, []);
+  return config;
+}
+
+interface TmdbImageProps {
+  kind: ImageKind;
+  // TMDB file path, e.g. "/abc.jpg"; null shows the placeholder
+  path: string | null | undefined;
+  alt: string;
+  // The `sizes` attribute: how wide the image is laid out (see IMAGE_SIZES)
+  sizes: string;
+  // The widest the image is ever shown, in CSS pixels; larger widths are left out of the srcset
+  maxWidth?: number;
+  // Classes for the frame, which sets the size and shape (e.g. "w-full aspect-[2/3]")
+  className?: string;
+  // Shown over the placeholder when there is no image
+  fallbackLabel?: string;
+  // Above-the-fold images load eagerly
+  priority?: boolean;
+}
+
+// A TMDB image with a responsive srcset. A blurred tiny copy, over the local
+// placeholder, fills the frame until the full image has loaded.
+const TmdbImage: React.FC<TmdbImageProps> = ({ kind, path, alt, sizes, maxWidth, className = '', fallbackLabel, priority = false }) => {
+  const config = useImageConfig();
+  // The path whose full image has loaded, so a new path starts blurred again
+  const [loadedPath, setLoadedPath] = useState<string | null>(null);
+  // Doubled for 2x screens
+  const loader = useMemo(
+    () => tmdbImageLoader(config, kind, maxWidth === undefined ? undefined : maxWidth * 2),
+    [config, kind, maxWidth],
+  );
+  const loaded = Boolean(path) && loadedPath === path;
+
+  const frame = `relative overflow-hidden bg-slate-700 bg-center bg-cover ${className}`;
+
+  if (!path) {
+    return (
+      <div className={`${frame} flex items-center justify-center text-slate-400 text-center p-4`} style={{ backgroundImage: `url(${PLACEHOLDER_SRC})` }}>
+        {fallbackLabel && <span className="relative">{fallbackLabel}</span>}
+      </div>
+    );
+  }
+
+  return (
+    <div className={frame} style={{ backgroundImage: `url(${PLACEHOLDER_SRC})` }}>
+      {!loaded && (
+        // Already the smallest size TMDB has, so there is no srcset to build
+        <Image
+          src={previewUrl(config, kind, path)}
+          alt=""
+          aria-hidden="true"
+          fill
+          unoptimized
+          priority={priority}
+          className="object-cover blur-lg scale-110"
+        />
+      )}
+      <Image
+        loader={loader}
+        src={path}
+        alt={alt}
+        fill
+        sizes={sizes}
+        priority={priority}
+        // next/image also calls this for an image that was cached before hydration
+        onLoad={() => setLoadedPath(path)}
+        className={`object-cover transition-opacity duration-500 ${loaded ? 'opacity-100' : 'opacity-0'}`}
+      />
+    </div>
+  );
+};
+
+export default TmdbImage;
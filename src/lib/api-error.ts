@@ -0,0 +1,154 @@
+// src/lib/api-error.ts
+
+// The one error shape every API route answers with, and the ApiError the
+// browser builds from it. `kind` names the layer that failed, so the UI can
+// tell a rejected request from a TMDB outage or a search parser failure.
+// Browser calls carry an X-Request-Id the server logs under, and errors keep
+// it so a failure on the page can be found in the server logs.
+
+import type { NextApiResponse } from 'next';
+import { MessageKey, translate } from '@/lib/i18n';
+import { DEFAULT_LOCALE } from '@/lib/locale';
+import type { ValidationIssue } from '@/lib/tmdb-routes';
+
+export type ApiErrorKind =
+  // The request was rejected before anything ran: bad path, parameter or method
+  | 'invalid_request'
+  // One of this app's own rate limits
+  | 'rate_limited'
+  // The server is missing configuration, e.g. the TMDB token
+  | 'config'
+  // TMDB failed, or is throttling or unavailable after retries
+  | 'tmdb'
+  // The search parser could not turn the query into a request
+  | 'parser'
+  // The collection store could not be read or written
+  | 'storage'
+  // Browser only: the API route could not be reached or did not answer with JSON
+  | 'network'
+  | 'internal';
+
+export interface ApiErrorBody {
+  kind: ApiErrorKind;
+  message: string;
+  // Per-parameter problems for invalid_request
+  errors?: ValidationIssue[];
+  // The upstream error body for tmdb
+  details?: unknown;
+  retryAfterSeconds?: number;
+}
+
+export class ApiError extends Error {
+  constructor(
+    public kind: ApiErrorKind,
+    // HTTP status of the response; 0 when there was none
+    public status: number,
+    message: string,
+    public issues: ValidationIssue[] = [],
+    public retryAfterSeconds?: number,
+    public details?: unknown,
+    // The X-Request-Id the request was logged under
+    public requestId?: string,
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Answers an API request with an ApiErrorBody, setting Retry-After when the
+ * body carries one.
+ */
+export function sendApiError(res: NextApiResponse, status: number, body: ApiErrorBody) {
+  if (body.retryAfterSeconds !== undefined) res.setHeader('Retry-After', String(body.retryAfterSeconds));
+  return res.status(status).json(body);
+}
+
+const KINDS: readonly ApiErrorKind[] = ['invalid_request', 'rate_limited', 'config', 'tmdb', 'parser', 'storage', 'network', 'internal'];
+
+// Responses from before `kind` existed, or from outside the app, are classified by status
+const kindForStatus = (status: number): ApiErrorKind =>
+  status === 429 ? 'rate_limited' : status >= 400 && status < 500 ? 'invalid_request' : 'internal';
+
+// A random id for X-Request-Id; randomUUID is missing outside secure contexts
+export const createRequestId = (): string =>
+  globalThis.crypto?.randomUUID?.() ?? `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 12)}`;
+
+/**
+ * Returns the JSON body of an API response, or throws an ApiError built from
+ * its error body.
+ */
+export async function readApiResponse<T>(response: Response): Promise<T> {
+  const requestId = response.headers.get('x-request-id') ?? undefined;
+  let data: Partial<ApiErrorBody> | null;
+  try {
+    data = await response.json();
+  } catch {
+    throw new ApiError('network', response.status, `The server answered ${response.status} without a readable body.`, [], undefined, undefined, requestId);
+  }
+
+  if (!response.ok) {
+    const retryAfter = data?.retryAfterSeconds ?? Number(response.headers.get('retry-after') ?? NaN);
+    throw new ApiError(
+      data?.kind && KINDS.includes(data.kind) ? data.kind : kindForStatus(response.status),
+      response.status,
+      data?.message || `Request failed with status ${response.status}.`,
+      data?.errors ?? [],
+      Number.isFinite(retryAfter) ? retryAfter : undefined,
+      data?.details,
+      requestId,
+    );
+  }
+  return data as T;
+}
+
+/**
+ * fetch() for the app's own API routes: resolves to the parsed JSON and
+ * rejects with an ApiError for every failure, including unreachable routes.
+ * Sends a fresh X-Request-Id unless `init` already carries one.
+ */
+export async function fetchApi<T>(input: string, init?: RequestInit): Promise<T> {
+  const headers = new Headers(init?.headers);
+  if (!headers.has('X-Request-Id')) headers.set('X-Request-Id', createRequestId());
+
+  let response: Response;
+  try {
+    response = await fetch(input, { ...init, headers });
+  } catch (error) {
+    throw new ApiError(
+      'network',
+      0,
+      error instanceof Error ? `Could not reach the server: ${error.message}` : 'Could not reach the server.',
+      [],
+      undefined,
+      undefined,
+      headers.get('X-Request-Id') ?? undefined,
+    );
+  }
+  return readApiResponse<T>(response);
+}
+
+export const toApiError = (error: unknown): ApiError =>
+  error instanceof ApiError
+    ? error
+    : new ApiError('internal', 0, error instanceof Error ? error.message : 'An unknown error occurred.');
+
+// Catalog keys of the headline and advice for the error box of each kind
+const ERROR_MESSAGES: Record<ApiErrorKind, [MessageKey, MessageKey]> = {
+  invalid_request: ['error.invalidRequest', 'error.invalidRequestHint'],
+  rate_limited: ['error.rateLimited', 'error.rateLimitedHint'],
+  config: ['error.config', 'error.configHint'],
+  tmdb: ['error.tmdb', 'error.tmdbHint'],
+  parser: ['error.parser', 'error.parserHint'],
+  storage: ['error.storage', 'error.storageHint'],
+  network: ['error.network', 'error.networkHint'],
+  internal: ['error.internal', 'error.internalHint'],
+};
+
+// Headline and advice for the error box, in the UI language
+export const describeApiError = (error: ApiError, language: string = DEFAULT_LOCALE.language): { title: string; hint: string } => {
+  const [title, hint] = ERROR_MESSAGES[error.kind] ?? ERROR_MESSAGES.internal;
+  const retry = error.kind === 'rate_limited' && error.retryAfterSeconds
+    ? ` ${translate(language, 'error.retryAfter', { count: error.retryAfterSeconds })}`
+    : '';
+  return { title: translate(language, title), hint: `${translate(language, hint)}${retry}` };
+};
@@ -0,0 +1,287 @@
+// src/lib/collection-store.ts
+
+// Server-side persistence for user collections. Entries are grouped per
+// anonymous device id and kept in a single JSON file, written atomically.
+
+import { promises as fs } from 'fs';
+import type { NextApiResponse } from 'next';
+import path from 'path';
+import {
+  collectionKey,
+  CollectionEntry,
+  CollectionFlags,
+  CollectionItem,
+  EMPTY_FLAGS,
+  isEmptyEntry,
+  MovieView,
+} from '@/lib/collections';
+import type { ValidationIssue } from '@/lib/tmdb-routes';
+import { sendApiError } from '@/lib/api-error';
+import { logger } from '@/lib/logger';
+
+export interface CollectionStore {
+  list(deviceId: string): Promise<CollectionEntry[]>;
+  // Applies `changes` and returns the entry, or null if it ended up empty and was removed
+  update(deviceId: string, item: CollectionItem, changes: Partial<CollectionFlags>): Promise<CollectionEntry | null>;
+  // Merges many entries in one write; returns how many entries were added or changed
+  importEntries(deviceId: string, imports: CollectionImport[]): Promise<number>;
+  // Movies whose detail page the device opened, most recent first
+  listViews(deviceId: string): Promise<MovieView[]>;
+  recordView(deviceId: string, movieId: number): Promise<void>;
+}
+
+export interface CollectionImport {
+  item: CollectionItem;
+  changes: Partial<CollectionFlags>;
+  // Keeps the original date when a list moves in from another app
+  addedAt?: string;
+}
+
+type CollectionFile = {
+  version: 1;
+  devices: Record<string, Record<string, CollectionEntry>>;
+  views?: Record<string, MovieView[]>;
+};
+
+// Opened movies kept per device; older views drop off
+const MAX_VIEWS = 50;
+
+// Every cookieless write starts a device, and every write rewrites the whole
+// file, so the devices, each device's collection and the file itself are bounded
+export interface CollectionLimits {
+  devices: number;
+  entriesPerDevice: number;
+  // Size of the JSON file
+  bytes: number;
+}
+
+export const DEFAULT_COLLECTION_LIMITS: CollectionLimits = { devices: 1_000, entriesPerDevice: 1_000, bytes: 10 * 1024 * 1024 };
+
+// Thrown when a write would take the store past one of its limits; nothing is written
+export class CollectionLimitError extends Error {
+  constructor(public readonly limit: keyof CollectionLimits, message: string) {
+    super(message);
+    this.name = 'CollectionLimitError';
+  }
+}
+
+/**
+ * Answers a write that hit a limit: 409 when the device's own collection is
+ * full, 507 when the store has no room for another device or more data.
+ */
+export function sendCollectionLimitError(res: NextApiResponse, error: CollectionLimitError) {
+  return error.limit === 'entriesPerDevice'
+    ? sendApiError(res, 409, { kind: 'invalid_request', message: error.message })
+    : sendApiError(res, 507, { kind: 'storage', message: error.message });
+}
+
+function mergeEntry(previous: CollectionEntry | undefined, item: CollectionItem, changes: Partial<CollectionFlags>, now: string, addedAt = now): CollectionEntry {
+  return {
+    ...EMPTY_FLAGS,
+    ...previous,
+    // Refresh the card snapshot with whatever the client saw last
+    ...item,
+    ...changes,
+    key: collectionKey(item),
+    addedAt: previous && previous.addedAt < addedAt ? previous.addedAt : addedAt,
+    updatedAt: now,
+  };
+}
+
+export class JsonFileCollectionStore implements CollectionStore {
+  private data: Promise<CollectionFile> | null = null;
+  // Bytes in the file as last read or written
+  private size = 0;
+  // Serialises read-modify-write cycles within this process
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly file: string, private readonly limits: CollectionLimits = DEFAULT_COLLECTION_LIMITS) {}
+
+  private load(): Promise<CollectionFile> {
+    this.data ??= fs.readFile(this.file, 'utf8')
+      .then((text) => {
+        this.size = Buffer.byteLength(text);
+        return JSON.parse(text) as CollectionFile;
+      })
+      .catch((error: NodeJS.ErrnoException) => {
+        if (error.code !== 'ENOENT') logger.warn('Collection store could not be read; starting empty', { error });
+        this.size = 0;
+        return { version: 1, devices: {} };
+      });
+    return this.data;
+  }
+
+  private async save(text: string): Promise<void> {
+    await fs.mkdir(path.dirname(this.file), { recursive: true });
+    // Write to a temporary file first so a crash never leaves half a JSON document
+    const temporary = `${this.file}.${process.pid}.tmp`;
+    await fs.writeFile(temporary, text, 'utf8');
+    await fs.rename(temporary, this.file);
+  }
+
+  private async commit(data: CollectionFile): Promise<void> {
+    try {
+      const text = JSON.stringify(data);
+      const size = Buffer.byteLength(text);
+      // Writes that shrink the file always go through, so a full store can still be cleared out
+      if (size > this.limits.bytes && size > this.size) {
+        throw new CollectionLimitError('bytes', 'The collection store is full; nothing more can be saved.');
+      }
+      await this.save(text);
+      this.size = size;
+    } catch (error) {
+      // Drop the in-memory copy so the next request rereads what is really on disk
+      this.data = null;
+      throw error;
+    }
+  }
+
+  // Called before a write touches `data`, since the loaded copy is shared with later requests
+  private checkDevice(data: CollectionFile, deviceId: string): void {
+    if (data.devices[deviceId] || data.views?.[deviceId]) return;
+    const devices = new Set([...Object.keys(data.devices), ...Object.keys(data.views ?? {})]);
+    if (devices.size >= this.limits.devices) {
+      throw new CollectionLimitError('devices', 'The collection store is full; no new devices can be added.');
+    }
+  }
+
+  private checkEntries(entries: Record<string, CollectionEntry> | undefined, added: number): void {
+    if (added > 0 && Object.keys(entries ?? {}).length + added > this.limits.entriesPerDevice) {
+      throw new CollectionLimitError('entriesPerDevice', `A collection holds at most ${this.limits.entriesPerDevice} titles.`);
+    }
+  }
+
+  private exclusive<T>(task: () => Promise<T>): Promise<T> {
+    const run = this.queue.then(task, task);
+    this.queue = run.catch(() => undefined);
+    return run;
+  }
+
+  async list(deviceId: string): Promise<CollectionEntry[]> {
+    const data = await this.load();
+    return Object.values(data.devices[deviceId] ?? {}).sort((a, b) => b.updatedAt.localeCompare(a.updatedAt));
+  }
+
+  update(deviceId: string, item: CollectionItem, changes: Partial<CollectionFlags>): Promise<CollectionEntry | null> {
+    return this.exclusive(async () => {
+      const data = await this.load();
+      const previous = data.devices[deviceId]?.[collectionKey(item)];
+      const entry = mergeEntry(previous, item, changes, new Date().toISOString());
+      if (!previous && isEmptyEntry(entry)) return null;
+
+      this.checkDevice(data, deviceId);
+      this.checkEntries(data.devices[deviceId], previous ? 0 : 1);
+      const entries = (data.devices[deviceId] ??= {});
+      if (isEmptyEntry(entry)) {
+        delete entries[entry.key];
+        if (Object.keys(entries).length === 0) delete data.devices[deviceId];
+      } else {
+        entries[entry.key] = entry;
+      }
+      await this.commit(data);
+      return isEmptyEntry(entry) ? null : entry;
+    });
+  }
+
+  importEntries(deviceId: string, imports: CollectionImport[]): Promise<number> {
+    return this.exclusive(async () => {
+      const data = await this.load();
+      const now = new Date().toISOString();
+      const merged = new Map<string, CollectionEntry>();
+
+      imports.forEach(({ item, changes, addedAt }) => {
+        const key = collectionKey(item);
+        const entry = mergeEntry(merged.get(key) ?? data.devices[deviceId]?.[key], item, changes, now, addedAt);
+        // Imports only ever add flags, so an empty entry means the row carried nothing to keep
+        if (!isEmptyEntry(entry)) merged.set(key, entry);
+      });
+      if (merged.size === 0) return 0;
+
+      this.checkDevice(data, deviceId);
+      this.checkEntries(data.devices[deviceId], Array.from(merged.keys()).filter(key => !data.devices[deviceId]?.[key]).length);
+      Object.assign((data.devices[deviceId] ??= {}), Object.fromEntries(merged));
+      await this.commit(data);
+      return merged.size;
+    });
+  }
+
+  async listViews(deviceId: string): Promise<MovieView[]> {
+    const data = await this.load();
+    return data.views?.[deviceId] ?? [];
+  }
+
+  recordView(deviceId: string, movieId: number): Promise<void> {
+    return this.exclusive(async () => {
+      const data = await this.load();
+      this.checkDevice(data, deviceId);
+      const views = (data.views ??= {});
+      const previous = (views[deviceId] ?? []).filter(view => view.id !== movieId);
+      views[deviceId] = [{ id: movieId, viewedAt: new Date().toISOString() }, ...previous].slice(0, MAX_VIEWS);
+      await this.commit(data);
+    });
+  }
+}
+
+let sharedStore: CollectionStore | undefined;
+
+/**
+ * Returns the process-wide collection store, backed by COLLECTIONS_FILE
+ * (default .data/collections.json).
+ */
+export function getCollectionStore(): CollectionStore {
+  sharedStore ??= new JsonFileCollectionStore(process.env.COLLECTIONS_FILE || path.join(process.cwd(), '.data', 'collections.json'));
+  return sharedStore;
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+/**
+ * Validates a PATCH body of the form { item, changes }.
+ * Issues use the same shape as the tmdb-proxy parameter errors.
+ */
+export function parseCollectionUpdate(
+  body: unknown,
+): { item: CollectionItem; changes: Partial<CollectionFlags>; issues: [] } | { issues: ValidationIssue[] } {
+  const issues: ValidationIssue[] = [];
+  const invalid = (param: string, message: string) => issues.push({ param, code: 'invalid_value', message });
+
+  if (!isRecord(body) || !isRecord(body.item) || !isRecord(body.changes)) {
+    return { issues: [{ param: 'body', code: 'invalid_value', message: 'Body must be a JSON object with "item" and "changes".' }] };
+  }
+
+  const raw = body.item;
+  if (raw.media_type !== 'movie' && raw.media_type !== 'tv') invalid('item.media_type', '"media_type" must be movie or tv.');
+  if (!Number.isInteger(raw.id) || (raw.id as number) < 1) invalid('item.id', '"id" must be a positive integer.');
+  if (typeof raw.title !== 'string' || !raw.title.trim() || raw.title.length > 300) invalid('item.title', '"title" must be a non-empty string.');
+  if (raw.poster_path !== null && typeof raw.poster_path !== 'string') invalid('item.poster_path', '"poster_path" must be a string or null.');
+  if (typeof raw.vote_average !== 'number' || raw.vote_average < 0 || raw.vote_average > 10) invalid('item.vote_average', '"vote_average" must be a number from 0 to 10.');
+
+  const changes: Partial<CollectionFlags> = {};
+  Object.entries(body.changes).forEach(([flag, value]) => {
+    if (flag === 'watchlist' || flag === 'favorite' || flag === 'seen') {
+      if (typeof value === 'boolean') changes[flag] = value;
+      else invalid(`changes.${flag}`, `"${flag}" must be true or false.`);
+    } else if (flag === 'rating') {
+      if (value === null || (Number.isInteger(value) && (value as number) >= 1 && (value as number) <= 10)) changes.rating = value as number | null;
+      else invalid('changes.rating', '"rating" must be an integer from 1 to 10, or null.');
+    } else {
+      issues.push({ param: `changes.${flag}`, code: 'unknown_param', message: `"${flag}" is not a collection flag.` });
+    }
+  });
+
+  if (issues.length > 0) return { issues };
+
+  return {
+    item: {
+      media_type: raw.media_type as CollectionItem['media_type'],
+      id: raw.id as number,
+      title: (raw.title as string).trim(),
+      poster_path: (raw.poster_path as string | null) ?? null,
+      date: typeof raw.date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(raw.date) ? raw.date : '',
+      vote_average: raw.vote_average as number,
+    },
+    changes,
+    issues: [],
+  };
+}
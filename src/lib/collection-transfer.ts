@@ -0,0 +1,423 @@
+// src/lib/collection-transfer.ts
+
+// Moves collections in and out of the app: exports to JSON, CSV and a
+// Letterboxd-compatible CSV, and imports the same files back by matching each
+// row to a TMDB id, by id when the file has one and by title and year otherwise.
+
+import type { CollectionImport } from '@/lib/collection-store';
+import {
+  CollectionEntry,
+  CollectionItem,
+  CollectionList,
+  CollectionMediaType,
+  ImportCandidate,
+  ImportProblem,
+  ImportReport,
+  inCollectionList,
+  TransferFormat,
+} from '@/lib/collections';
+import { tmdbGet, TmdbUpstreamError } from '@/lib/tmdb-server';
+
+// Imports resolve every row against TMDB, so keep one file to a bounded number of lookups
+export const MAX_IMPORT_ROWS = 500;
+
+// One collection entry in a file, independent of the file format
+export interface TransferRow {
+  tmdb_id: number | null;
+  media_type: CollectionMediaType;
+  title: string;
+  year: number | null;
+  rating: number | null;
+  watchlist: boolean;
+  favorite: boolean;
+  seen: boolean;
+  added_at: string | null;
+}
+
+const CSV_COLUMNS = ['tmdb_id', 'media_type', 'title', 'year', 'rating', 'watchlist', 'favorite', 'seen', 'added_at'] as const;
+const LETTERBOXD_COLUMNS = ['tmdbID', 'Title', 'Year', 'Rating10', 'WatchedDate', 'Tags'] as const;
+const FLAG_TAGS = ['watchlist', 'favorite', 'seen'] as const;
+
+// ---------------------------------------------------------------------------
+// CSV
+// ---------------------------------------------------------------------------
+
+// Spreadsheets run cells that start with these as formulas
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+// `guard` prefixes formula-like cells with a quote so spreadsheets show them as text
+const csvCell = (value: string | number | boolean | null, guard: boolean): string => {
+  let text = value === null ? '' : String(value);
+  if (guard && FORMULA_START.test(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (header: readonly string[], rows: (string | number | boolean | null)[][], guard = true): string =>
+  [header, ...rows].map(row => row.map(cell => csvCell(cell, guard)).join(',')).join('\r\n') + '\r\n';
+
+/**
+ * Parses RFC 4180 CSV (quoted fields, doubled quotes, CRLF or LF) into rows
+ * of cells. Blank lines are skipped.
+ */
+export function parseCsv(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  const source = text.replace(/^\uFEFF/, '');
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      row.push(cell);
+      if (row.some(value => value !== '')) rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+  row.push(cell);
+  if (row.some(value => value !== '')) rows.push(row);
+  return rows;
+}
+
+// ---------------------------------------------------------------------------
+// Export
+// ---------------------------------------------------------------------------
+
+const yearOf = (date: string): number | null => (/^\d{4}/.test(date) ? Number(date.slice(0, 4)) : null);
+
+// Letterboxd logs a diary entry for every row with a WatchedDate, so only
+// watched titles get one: the day they were added, as YYYY-MM-DD
+const watchedDate = (row: TransferRow): string | null =>
+  (row.seen || row.rating !== null) && row.added_at ? row.added_at.slice(0, 10) : null;
+
+export const toTransferRow = (entry: CollectionEntry): TransferRow => ({
+  tmdb_id: entry.id,
+  media_type: entry.media_type,
+  title: entry.title,
+  year: yearOf(entry.date),
+  rating: entry.rating,
+  watchlist: entry.watchlist,
+  favorite: entry.favorite,
+  seen: entry.seen,
+  added_at: entry.addedAt,
+});
+
+/**
+ * Serialises a collection, optionally limited to one list. The Letterboxd
+ * format only carries movies; it puts the rating in Rating10, the day a
+ * watched title was added in WatchedDate and the list flags in Tags, which
+ * Letterboxd's importer understands.
+ */
+export function exportCollection(
+  entries: CollectionEntry[],
+  format: TransferFormat,
+  list?: CollectionList,
+): { body: string; contentType: string; extension: string } {
+  const rows = entries.filter(entry => !list || inCollectionList(entry, list)).map(toTransferRow);
+
+  switch (format) {
+    case 'json':
+      return {
+        body: JSON.stringify({ version: 1, exported_at: new Date().toISOString(), items: rows }, null, 2),
+        contentType: 'application/json; charset=utf-8',
+        extension: 'json',
+      };
+    case 'csv':
+      return {
+        body: toCsv(CSV_COLUMNS, rows.map(row => CSV_COLUMNS.map(column => row[column]))),
+        contentType: 'text/csv; charset=utf-8',
+        extension: 'csv',
+      };
+    case 'letterboxd':
+      return {
+        body: toCsv(LETTERBOXD_COLUMNS, rows
+          .filter(row => row.media_type === 'movie')
+          .map(row => [row.tmdb_id, row.title, row.year, row.rating, watchedDate(row), FLAG_TAGS.filter(flag => row[flag]).join(', ')]),
+        // Letterboxd's importer would keep the quote as part of the title
+        false),
+        contentType: 'text/csv; charset=utf-8',
+        extension: 'csv',
+      };
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Import: parsing
+// ---------------------------------------------------------------------------
+
+type ParsedRow = { row: number; value: TransferRow } | { row: number; problem: ImportProblem };
+
+const isTrue = (value: unknown): boolean =>
+  value === true || (typeof value === 'string' && ['true', 'yes', '1', 'x'].includes(value.trim().toLowerCase()));
+
+// Header names without case or spacing, so "Watched Date" reads as "watcheddate"
+const columnKey = (name: string): string => name.trim().toLowerCase().replace(/\s+/g, '');
+
+// Undoes the formula guard added on export
+const unguard = (value: string): string => (/^'[=+\-@\t\r]/.test(value) ? value.slice(1) : value);
+
+function readRow(row: number, raw: Record<string, unknown>, starRatings: boolean, defaultList?: CollectionList): ParsedRow {
+  const field = (...names: string[]): string => {
+    const name = names.find(candidate => raw[candidate] !== undefined && raw[candidate] !== null && raw[candidate] !== '');
+    return name ? unguard(String(raw[name]).trim()) : '';
+  };
+
+  const title = field('title', 'name');
+  const yearText = field('year');
+  const year = yearText ? Number(yearText) : null;
+  const invalid = (reason: string): ParsedRow => ({ row, problem: { row, title, year: Number.isInteger(year) ? year : null, reason, candidates: [] } });
+
+  if (!title) return invalid('Row has no title.');
+  if (title.length > 200) return invalid('Title is longer than 200 characters.');
+  if (year !== null && !(Number.isInteger(year) && year >= 1870 && year <= 2100)) return invalid(`"${yearText}" is not a year.`);
+
+  const idText = field('tmdb_id', 'tmdbid', 'id');
+  const tmdbId = idText ? Number(idText) : null;
+  if (tmdbId !== null && !(Number.isInteger(tmdbId) && tmdbId > 0)) return invalid(`"${idText}" is not a TMDB id.`);
+
+  const mediaType = field('media_type') || 'movie';
+  if (mediaType !== 'movie' && mediaType !== 'tv') return invalid(`"${mediaType}" is not movie or tv.`);
+
+  // Letterboxd files rate from 0.5 to 5 stars in "Rating" and from 1 to 10 in "Rating10"
+  const rating10 = field('rating10');
+  const ratingText = rating10 || field('rating');
+  const rating = !ratingText ? null : !rating10 && starRatings ? Math.round(Number(ratingText) * 2) : Number(ratingText);
+  if (rating !== null && !(Number.isInteger(rating) && rating >= 1 && rating <= 10)) {
+    return invalid(`"${ratingText}" is not a rating from ${starRatings && !rating10 ? '0.5 to 5' : '1 to 10'}.`);
+  }
+
+  const tags = field('tags').toLowerCase().split(/\s*,\s*/);
+  const flag = (name: typeof FLAG_TAGS[number]) => isTrue(raw[name]) || tags.includes(name) || defaultList === name;
+
+  const added = field('added_at', 'watcheddate', 'date');
+  const addedAt = added && !Number.isNaN(Date.parse(added)) ? new Date(added).toISOString() : null;
+
+  return {
+    row,
+    value: {
+      tmdb_id: tmdbId,
+      media_type: mediaType,
+      title,
+      year,
+      rating,
+      watchlist: flag('watchlist'),
+      favorite: flag('favorite'),
+      // A rating means the title was watched
+      seen: flag('seen') || rating !== null,
+      added_at: addedAt,
+    },
+  };
+}
+
+/**
+ * Parses an import file into rows. Column names are matched ignoring case and
+ * spaces, so both this app's exports and Letterboxd's own exports (Date, Name,
+ * Year, Letterboxd URI, Rating, Watched Date) are accepted. Rows without a list flag are put on
+ * `defaultList`, which defaults to seen for Letterboxd files.
+ * Throws when the file itself cannot be read.
+ */
+export function parseImport(text: string, format: TransferFormat, defaultList?: CollectionList): ParsedRow[] {
+  let records: Record<string, unknown>[];
+
+  if (format === 'json') {
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      throw new Error('File is not valid JSON.');
+    }
+    const items = Array.isArray(data) ? data : (data as { items?: unknown })?.items;
+    if (!Array.isArray(items)) throw new Error('JSON must be an array of items or an object with an "items" array.');
+    records = items.map(item => Object.fromEntries(
+      Object.entries(item && typeof item === 'object' ? item : {}).map(([key, value]) => [columnKey(key), value]),
+    ));
+  } else {
+    const [header, ...rows] = parseCsv(text);
+    if (!header) throw new Error('File is empty.');
+    const columns = header.map(columnKey);
+    if (!columns.includes('title') && !columns.includes('name')) throw new Error('CSV needs a "title" or "name" column.');
+    records = rows.map(cells => Object.fromEntries(columns.map((column, i) => [column, cells[i] ?? ''])));
+  }
+
+  if (records.length > MAX_IMPORT_ROWS) throw new Error(`Files are limited to ${MAX_IMPORT_ROWS} rows.`);
+
+  const list = defaultList ?? (format === 'letterboxd' ? 'seen' : undefined);
+  return records.map((record, i) => readRow(i + 1, record, format === 'letterboxd', list));
+}
+
+// ---------------------------------------------------------------------------
+// Import: matching against TMDB
+// ---------------------------------------------------------------------------
+
+interface TmdbTitle {
+  id: number;
+  title?: string;
+  name?: string;
+  original_title?: string;
+  original_name?: string;
+  poster_path: string | null;
+  release_date?: string;
+  first_air_date?: string;
+  vote_average?: number;
+  popularity?: number;
+}
+
+type Resolution =
+  | { row: number; match: CollectionImport }
+  | { row: number; problem: ImportProblem; kind: 'ambiguous' | 'unmatched' };
+
+// Candidates shown per ambiguous row
+const MAX_CANDIDATES = 5;
+// Parallel TMDB lookups per import
+const LOOKUP_CONCURRENCY = 4;
+
+const normaliseTitle = (value: string): string =>
+  value.toLowerCase().normalize('NFKD').replace(/[\u0300-\u036f]/g, '').replace(/&/g, 'and').replace(/[^a-z0-9]+/g, ' ').trim();
+
+const titleOf = (result: TmdbTitle): string => result.title ?? result.name ?? '';
+const dateOf = (result: TmdbTitle): string => result.release_date ?? result.first_air_date ?? '';
+
+const toItem = (mediaType: CollectionMediaType, result: TmdbTitle): CollectionItem => ({
+  media_type: mediaType,
+  id: result.id,
+  title: titleOf(result),
+  poster_path: result.poster_path ?? null,
+  date: dateOf(result),
+  vote_average: result.vote_average ?? 0,
+});
+
+const toImport = (row: TransferRow, item: CollectionItem): CollectionImport => {
+  const changes: CollectionImport['changes'] = {};
+  FLAG_TAGS.forEach((flag) => {
+    if (row[flag]) changes[flag] = true;
+  });
+  if (row.rating !== null) changes.rating = row.rating;
+  return { item, changes, addedAt: row.added_at ?? undefined };
+};
+
+const candidate = (result: TmdbTitle): ImportCandidate => ({ tmdb_id: result.id, title: titleOf(result), year: yearOf(dateOf(result)) });
+
+async function searchTitles(row: TransferRow, withYear: boolean): Promise<TmdbTitle[]> {
+  const path = row.media_type === 'movie' ? 'search/movie' : 'search/tv';
+  const yearParam = row.media_type === 'movie' ? 'year' : 'first_air_date_year';
+  const data = await tmdbGet(path, {
+    query: row.title,
+    [yearParam]: withYear && row.year ? String(row.year) : undefined,
+  });
+  return data.results;
+}
+
+async function resolveRow(row: number, value: TransferRow): Promise<Resolution> {
+  const problem = (reason: string, results: TmdbTitle[] = []): ImportProblem => ({
+    row,
+    title: value.title,
+    year: value.year,
+    reason,
+    candidates: results.slice(0, MAX_CANDIDATES).map(candidate),
+  });
+
+  if (value.tmdb_id !== null) {
+    try {
+      const details = await tmdbGet(`${value.media_type}/${value.tmdb_id}`);
+      return { row, match: toImport(value, toItem(value.media_type, details)) };
+    } catch (error) {
+      if (error instanceof TmdbUpstreamError && error.status === 404) {
+        return { row, kind: 'unmatched', problem: problem(`TMDB has no ${value.media_type} with id ${value.tmdb_id}.`) };
+      }
+      throw error;
+    }
+  }
+
+  const wanted = normaliseTitle(value.title);
+  const sameTitle = (result: TmdbTitle) =>
+    [result.title, result.name, result.original_title, result.original_name].some(name => name && normaliseTitle(name) === wanted);
+  const sameYear = (result: TmdbTitle) => value.year === null || yearOf(dateOf(result)) === value.year;
+
+  // A clean match is the one result with the same title and year
+  let results = await searchTitles(value, true);
+  let exact = results.filter(result => sameTitle(result) && sameYear(result));
+  if (exact.length === 1) return { row, match: toImport(value, toItem(value.media_type, exact[0])) };
+
+  if (exact.length === 0 && value.year !== null) {
+    // Release years differ between regions, so look again without the year for candidates
+    results = await searchTitles(value, false);
+    exact = results.filter(result => sameTitle(result) && sameYear(result));
+    if (exact.length === 1) return { row, match: toImport(value, toItem(value.media_type, exact[0])) };
+  }
+
+  if (results.length === 0) {
+    return { row, kind: 'unmatched', problem: problem('No TMDB title matches this row.') };
+  }
+
+  const distance = (result: TmdbTitle) => {
+    const year = yearOf(dateOf(result));
+    return value.year === null || year === null ? 0 : Math.abs(year - value.year);
+  };
+  const ranked = [...results].sort((a, b) =>
+    Number(sameTitle(b)) - Number(sameTitle(a)) || distance(a) - distance(b) || (b.popularity ?? 0) - (a.popularity ?? 0));
+
+  const reason = exact.length > 1
+    ? `${exact.length} titles share this name${value.year ? ' and year' : ''}; add a year or a TMDB id.`
+    : results.some(sameTitle)
+      ? 'The title matches, but not the year.'
+      : 'No exact title match.';
+  return { row, kind: 'ambiguous', problem: problem(reason, exact.length > 1 ? exact : ranked) };
+}
+
+async function mapWithConcurrency<T, R>(items: T[], limit: number, task: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
+/**
+ * Matches parsed rows to TMDB titles. Rows that carry a TMDB id are looked up
+ * directly; others go through search/movie (or search/tv) and only count as
+ * matched when exactly one result has the same title and year. Everything
+ * else ends up in the report with the closest candidates.
+ */
+export async function resolveImport(rows: ParsedRow[]): Promise<{ imports: CollectionImport[]; report: ImportReport }> {
+  const report: ImportReport = { rows: rows.length, matched: 0, imported: 0, ambiguous: [], unmatched: [], invalid: [] };
+  const imports: CollectionImport[] = [];
+
+  const resolutions = await mapWithConcurrency(rows, LOOKUP_CONCURRENCY, async (parsed): Promise<Resolution | ParsedRow> =>
+    ('value' in parsed ? resolveRow(parsed.row, parsed.value) : parsed));
+
+  resolutions.forEach((resolution) => {
+    if ('match' in resolution) {
+      imports.push(resolution.match);
+      report.matched += 1;
+    } else if ('kind' in resolution) {
+      report[resolution.kind].push(resolution.problem);
+    } else if ('problem' in resolution) {
+      report.invalid.push(resolution.problem);
+    }
+  });
+
+  return { imports, report };
+}
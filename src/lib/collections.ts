@@ -0,0 +1,151 @@
+// src/lib/collections.ts
+
+// Watchlist, favorites, personal ratings and "seen" markers: the shapes shared
+// by /api/collections and the browser, plus the browser-side helpers.
+
+import { fetchApi } from '@/lib/api-error';
+import type { MediaItem, Movie, TvShow } from '@/lib/movies';
+
+export type CollectionMediaType = 'movie' | 'tv';
+
+// What the collection page needs to draw a card without calling TMDB again.
+// The overview is left out: it is most of a card's text and the store keeps every card.
+export interface CollectionItem {
+  media_type: CollectionMediaType;
+  id: number;
+  title: string;
+  poster_path: string | null;
+  // release_date for movies, first_air_date for TV
+  date: string;
+  vote_average: number;
+}
+
+export interface CollectionFlags {
+  watchlist: boolean;
+  favorite: boolean;
+  seen: boolean;
+  // Personal rating, 1-10
+  rating: number | null;
+}
+
+export interface CollectionEntry extends CollectionItem, CollectionFlags {
+  // `${media_type}-${id}`, the same key the grids use
+  key: string;
+  addedAt: string;
+  updatedAt: string;
+}
+
+// A movie detail page the device opened; feeds the recommendations
+export interface MovieView {
+  id: number;
+  viewedAt: string;
+}
+
+export type CollectionList = 'watchlist' | 'favorite' | 'seen' | 'rated';
+
+export const COLLECTION_LISTS: readonly CollectionList[] = ['watchlist', 'favorite', 'rated', 'seen'];
+
+export const EMPTY_FLAGS: CollectionFlags = { watchlist: false, favorite: false, seen: false, rating: null };
+
+export const collectionKey = (item: { media_type: CollectionMediaType; id: number }): string => `${item.media_type}-${item.id}`;
+
+export const inCollectionList = (entry: CollectionFlags, list: CollectionList): boolean =>
+  list === 'rated' ? entry.rating !== null : entry[list];
+
+// An entry with no flag and no rating is dropped from the store
+export const isEmptyEntry = (entry: CollectionFlags): boolean =>
+  !entry.watchlist && !entry.favorite && !entry.seen && entry.rating === null;
+
+export const toCollectionItem = (item: (Movie & { media_type: 'movie' }) | (TvShow & { media_type: 'tv' })): CollectionItem => ({
+  media_type: item.media_type,
+  id: item.id,
+  title: item.media_type === 'movie' ? item.title : item.name,
+  poster_path: item.poster_path,
+  date: (item.media_type === 'movie' ? item.release_date : item.first_air_date) ?? '',
+  vote_average: item.vote_average,
+});
+
+// Turns a stored entry back into a list item the media cards can render
+export const toMediaItem = (entry: CollectionEntry): MediaItem =>
+  entry.media_type === 'movie'
+    ? {
+      media_type: 'movie',
+      id: entry.id,
+      title: entry.title,
+      poster_path: entry.poster_path,
+      overview: '',
+      release_date: entry.date,
+      vote_average: entry.vote_average,
+    }
+    : {
+      media_type: 'tv',
+      id: entry.id,
+      name: entry.title,
+      poster_path: entry.poster_path,
+      overview: '',
+      first_air_date: entry.date,
+      vote_average: entry.vote_average,
+    };
+
+export const fetchCollection = async (): Promise<CollectionEntry[]> =>
+  (await fetchApi<{ items: CollectionEntry[] }>('/api/collections')).items;
+
+// Applies `changes` to the item's entry; resolves to null when the entry became empty and was removed
+export const updateCollection = async (item: CollectionItem, changes: Partial<CollectionFlags>): Promise<CollectionEntry | null> =>
+  (await fetchApi<{ entry: CollectionEntry | null }>('/api/collections', {
+    method: 'PATCH',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ item, changes }),
+  })).entry;
+
+// Remembers that the movie's detail page was opened; failures only cost a recommendation signal
+export const recordMovieView = (id: number): void => {
+  fetch('/api/collections/views', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ id }),
+  }).catch(error => console.warn('Could not record movie view:', error));
+};
+
+export type TransferFormat = 'json' | 'csv' | 'letterboxd';
+
+export const TRANSFER_FORMATS: readonly TransferFormat[] = ['json', 'csv', 'letterboxd'];
+
+export interface ImportCandidate {
+  tmdb_id: number;
+  title: string;
+  year: number | null;
+}
+
+// A row that was not imported, with the reason and the closest TMDB titles
+export interface ImportProblem {
+  row: number;
+  title: string;
+  year: number | null;
+  reason: string;
+  candidates: ImportCandidate[];
+}
+
+export interface ImportReport {
+  rows: number;
+  matched: number;
+  imported: number;
+  ambiguous: ImportProblem[];
+  unmatched: ImportProblem[];
+  invalid: ImportProblem[];
+}
+
+export const collectionExportUrl = (format: TransferFormat, list?: CollectionList): string =>
+  `/api/collections/export?${new URLSearchParams({ format, ...(list ? { list } : {}) })}`;
+
+// Uploads a file's contents; rows without list flags go on `list`
+export const importCollection = async (
+  text: string,
+  format: TransferFormat,
+  list?: Exclude<CollectionList, 'rated'>,
+): Promise<ImportReport> =>
+  fetchApi<ImportReport>(`/api/collections/import?${new URLSearchParams({ format, ...(list ? { list } : {}) })}`, {
+    method: 'POST',
+    headers: { 'Content-Type': format === 'json' ? 'application/json' : 'text/csv' },
+    body: text,
+  });
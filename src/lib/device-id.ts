@@ -0,0 +1,37 @@
+// src/lib/device-id.ts
+
+// Anonymous per-browser id that keeps one device's collection apart from
+// another's without accounts. Issued as an HttpOnly cookie on the first write.
+
+import { randomUUID } from 'crypto';
+import type { NextApiRequest, NextApiResponse } from 'next';
+
+export const DEVICE_COOKIE = 'tmdb_device_id';
+
+const DEVICE_ID = /^[A-Za-z0-9-]{8,64}$/;
+const ONE_YEAR_SECONDS = 365 * 24 * 60 * 60;
+
+/**
+ * Returns the caller's device id, taken from the cookie or the X-Device-Id
+ * header (for scripts), or null when neither carries one. Routes that only
+ * read use this, so a visitor without a cookie is not given a new device on
+ * every request.
+ */
+export function readDeviceId(req: NextApiRequest): string | null {
+  const header = req.headers['x-device-id'];
+  const candidate = req.cookies[DEVICE_COOKIE] ?? (typeof header === 'string' ? header : undefined);
+  return candidate && DEVICE_ID.test(candidate) ? candidate : null;
+}
+
+/**
+ * Like readDeviceId, but issues a new id as a cookie when there is none.
+ * Only routes that write to the collection store call this.
+ */
+export function getDeviceId(req: NextApiRequest, res: NextApiResponse): string {
+  const existing = readDeviceId(req);
+  if (existing) return existing;
+
+  const deviceId = randomUUID();
+  res.setHeader('Set-Cookie', `${DEVICE_COOKIE}=${deviceId}; Path=/; Max-Age=${ONE_YEAR_SECONDS}; HttpOnly; SameSite=Lax`);
+  return deviceId;
+}
@@ -0,0 +1,118 @@
+// src/lib/health.ts
+
+// Health and configuration diagnostics for /api/health: whether TMDB and the
+// search parser's backend are configured and reachable, and which parser mode
+// is active. The checks are passed in, so tests can swap the TMDB call and the
+// LLM ping for stubs.
+
+import { getSearchParserProvider, getSearchParserStatus, SearchParserStatus } from '@/lib/search-providers';
+import { getTmdbToken, pingTmdb, TmdbUpstreamError } from '@/lib/tmdb-server';
+
+// ok: configured and answering; down: configured but failing;
+// unconfigured: missing settings; skipped: not needed in the active mode
+export type DependencyState = 'ok' | 'down' | 'unconfigured' | 'skipped';
+
+export interface DependencyHealth {
+  state: DependencyState;
+  // Round trip of the check, when one ran
+  latencyMs?: number;
+  message?: string;
+}
+
+// ok: everything works; degraded: searches fall back to a weaker parser;
+// down: TMDB is unusable, so nothing can load
+export type HealthStatus = 'ok' | 'degraded' | 'down';
+
+export interface HealthReport {
+  status: HealthStatus;
+  checkedAt: string;
+  parser: SearchParserStatus;
+  dependencies: {
+    tmdb: DependencyHealth;
+    llm: DependencyHealth;
+  };
+}
+
+export interface HealthChecks {
+  tmdbConfigured: () => boolean;
+  // Resolves when TMDB answered the lightweight configuration call
+  pingTmdb: (timeoutMs: number) => Promise<void>;
+  parserStatus: () => SearchParserStatus;
+  // Resolves when the parser backend answered; undefined when it has nothing to ping
+  pingParser: (() => Promise<void>) | undefined;
+}
+
+export const DEFAULT_HEALTH_CHECKS: HealthChecks = {
+  tmdbConfigured: () => Boolean(getTmdbToken()),
+  pingTmdb,
+  parserStatus: getSearchParserStatus,
+  get pingParser() {
+    const provider = getSearchParserProvider();
+    return provider.ping?.bind(provider);
+  },
+};
+
+const CHECK_TIMEOUT_MS = 3000;
+
+const describeFailure = (error: unknown): string =>
+  error instanceof TmdbUpstreamError ? `TMDB answered ${error.status}.`
+    : error instanceof Error ? (error.name === 'TimeoutError' ? `No answer within ${CHECK_TIMEOUT_MS}ms.` : error.message)
+      : 'Unknown error.';
+
+// Runs one check against a deadline; the checks themselves may not honour a timeout
+async function timeCheck(check: () => Promise<void>): Promise<DependencyHealth> {
+  const start = performance.now();
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  const deadline = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(Object.assign(new Error('Timed out.'), { name: 'TimeoutError' })), CHECK_TIMEOUT_MS);
+  });
+  try {
+    await Promise.race([check(), deadline]);
+    return { state: 'ok', latencyMs: Math.round(performance.now() - start) };
+  } catch (error) {
+    return { state: 'down', latencyMs: Math.round(performance.now() - start), message: describeFailure(error) };
+  } finally {
+    clearTimeout(timer);
+  }
+}
+
+/**
+ * Checks TMDB and the parser backend in parallel and summarises them. TMDB
+ * failing makes the app "down"; a parser running on a fallback, on recorded
+ * fixtures or without its backend makes it "degraded".
+ */
+export async function runHealthChecks(checks: HealthChecks = DEFAULT_HEALTH_CHECKS): Promise<HealthReport> {
+  const parser = checks.parserStatus();
+  const pingParser = checks.pingParser;
+
+  const [tmdb, llm] = await Promise.all([
+    checks.tmdbConfigured()
+      ? timeCheck(() => checks.pingTmdb(CHECK_TIMEOUT_MS))
+      : Promise.resolve<DependencyHealth>({ state: 'unconfigured', message: 'TMDB_ACCESS_TOKEN is not set.' }),
+    parser.fallbackReason
+      ? Promise.resolve<DependencyHealth>({ state: 'unconfigured', message: `${parser.fallbackReason}.` })
+      : parser.mode === 'rules' || !pingParser
+        ? Promise.resolve<DependencyHealth>({ state: 'skipped', message: `The ${parser.provider} parser needs no external service.` })
+        : timeCheck(pingParser),
+  ]);
+
+  const status: HealthStatus = tmdb.state !== 'ok' ? 'down'
+    : parser.fallbackReason || parser.mode === 'mock' || llm.state === 'down' ? 'degraded'
+      : 'ok';
+
+  return { status, checkedAt: new Date().toISOString(), parser, dependencies: { tmdb, llm } };
+}
+
+// Reports are reused briefly so frequent polling does not turn into upstream traffic
+const REPORT_TTL_MS = 30_000;
+let cachedReport: { report: Promise<HealthReport>; expiresAt: number } | null = null;
+
+/**
+ * runHealthChecks with the real dependencies, reused for up to 30 seconds.
+ */
+export function getHealthReport(now = Date.now()): Promise<HealthReport> {
+  if (!cachedReport || cachedReport.expiresAt <= now) {
+    cachedReport = { report: runHealthChecks(), expiresAt: now + REPORT_TTL_MS };
+  }
+  return cachedReport.report;
+}
@@ -0,0 +1,343 @@
+// src/lib/hybrid-search.ts
+
+// Hybrid search: runs a parsed discover query and a text search side by side,
+// merges the two result lists and reranks them, so a query such as "Nolan's
+// mind-bending sci-fi" keeps both the name match and the genre filter.
+
+import { translate } from '@/lib/i18n';
+import type { SearchMatch } from '@/lib/movies';
+import { DEFAULT_LOCALE, formatLocale, Locale } from '@/lib/locale';
+import { logger } from '@/lib/logger';
+import { FILLER_WORDS } from '@/lib/rule-parser';
+import { describeParam } from '@/lib/search-explanation';
+import type { SearchFilterChip, SearchSource } from '@/lib/search-query';
+import { tmdbGet } from '@/lib/tmdb-server';
+
+export type HybridPath = 'discover/movie' | 'discover/tv';
+
+interface RawItem {
+  id: number;
+  media_type?: string;
+  title?: string;
+  name?: string;
+  original_title?: string;
+  original_name?: string;
+  overview?: string;
+  genre_ids?: number[];
+  vote_average?: number;
+  vote_count?: number;
+  popularity?: number;
+  release_date?: string;
+  first_air_date?: string;
+  original_language?: string;
+  known_for?: RawItem[];
+}
+
+export type HybridItem = RawItem & { media_type: 'movie' | 'tv'; match: SearchMatch };
+
+export interface HybridPage {
+  page: number;
+  results: HybridItem[];
+  total_pages: number;
+  total_results: number;
+}
+
+// Weights of the ranking signals; they add up to 1
+export const HYBRID_WEIGHTS = { text: 0.4, filters: 0.3, popularity: 0.2, votes: 0.1 };
+
+// Vote count at which the vote signal reaches 0.5
+const VOTE_HALF_POINT = 500;
+
+// Results per page, as on TMDB
+const HYBRID_PAGE_SIZE = 20;
+// Pages read from each source; everything in this window is ranked together
+// and served in pages, so later pages never outrank earlier ones
+export const HYBRID_SOURCE_PAGES = 3;
+
+// Filters whose effect cannot be checked on a list item (no cast or keywords in
+// search results); items from the discover query satisfy them by construction
+const UNCHECKABLE_PARAMS = new Set([
+  'with_cast', 'with_crew', 'with_people', 'with_keywords', 'with_companies', 'with_networks',
+  'with_runtime.gte', 'with_runtime.lte', 'region',
+]);
+const PRESENTATION_PARAMS = new Set(['sort_by', 'page']);
+
+const MEDIA_WORDS = new Set(['movie', 'movies', 'film', 'films', 'show', 'shows', 'series', 'tv']);
+
+const normalise = (value: string): string =>
+  value.toLowerCase().normalize('NFKD').replace(/[\u0300-\u036f]/g, '').replace(/[^a-z0-9 ]+/g, ' ').replace(/\s+/g, ' ').trim();
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * The part of the query that no extracted filter accounts for, e.g. 'Nolan'
+ * for "Nolan's mind-bending sci-fi" once 'mind-bending' and 'sci-fi' became a
+ * genre. Returns undefined when nothing meaningful is left, in which case the
+ * discover query alone is enough.
+ */
+export function residualSearchText(
+  searchTerm: string,
+  chips: SearchFilterChip[],
+  sources: SearchSource[] = [],
+  names: string[] = [],
+): string | undefined {
+  let text = searchTerm;
+  const explained = [
+    ...sources.map(source => source.phrase),
+    ...chips.map(chip => chip.source ?? ''),
+    ...names,
+    ...names.flatMap(name => name.split(/\s+/)),
+  ].filter(phrase => phrase.trim().length > 1).sort((a, b) => b.length - a.length);
+
+  explained.forEach(phrase => {
+    text = text.replace(new RegExp(String.raw`(?<![\w])${escapeRegExp(phrase)}(?:'s)?(?![\w])`, 'gi'), ' ');
+  });
+
+  const words = text
+    .split(/\s+/)
+    .map(word => word.replace(/^[^\w]+|[^\w]+$/g, '').replace(/'s$/i, ''))
+    .filter(word => word.length > 1 && !FILLER_WORDS.has(word.toLowerCase()) && !MEDIA_WORDS.has(word.toLowerCase()));
+
+  return words.length > 0 ? words.join(' ') : undefined;
+}
+
+// How well the title (or a person the item is known for) matches the text, 0-1
+function textMatch(item: RawItem, text: string, viaPerson: string | undefined, locale: Locale): { score: number; reason?: string } {
+  const wanted = normalise(text);
+  const tokens = wanted.split(' ').filter(Boolean);
+  const titles = [item.title, item.name, item.original_title, item.original_name].filter((t): t is string => !!t).map(normalise);
+
+  if (titles.some(title => title === wanted)) return { score: 1, reason: translate(locale.language, 'reason.titleIs', { text }) };
+  if (titles.some(title => title.includes(wanted))) return { score: 0.85, reason: translate(locale.language, 'reason.titleContains', { text }) };
+  if (viaPerson) return { score: 0.75, reason: translate(locale.language, 'reason.knownFor', { name: viaPerson }) };
+
+  const inTitle = tokens.filter(token => titles.some(title => title.split(' ').includes(token)));
+  if (inTitle.length > 0) {
+    return { score: 0.6 * inTitle.length / tokens.length, reason: translate(locale.language, 'reason.titleMentions', { words: inTitle.join(' ') }) };
+  }
+
+  const overview = normalise(item.overview ?? '');
+  const inOverview = tokens.filter(token => overview.split(' ').includes(token));
+  if (inOverview.length > 0) {
+    return { score: 0.4 * inOverview.length / tokens.length, reason: translate(locale.language, 'reason.overviewMentions', { words: inOverview.join(' ') }) };
+  }
+
+  return { score: 0 };
+}
+
+// Whether a single discover filter holds for an item; null when it cannot be checked
+function filterHolds(item: RawItem, param: string, value: string): boolean | null {
+  const date = item.release_date || item.first_air_date || '';
+  switch (param) {
+    case 'with_genres': {
+      const ids = value.split(/[,|]/).map(Number);
+      const genres = item.genre_ids ?? [];
+      return value.includes('|') ? ids.some(id => genres.includes(id)) : ids.every(id => genres.includes(id));
+    }
+    case 'without_genres':
+      return !value.split(/[,|]/).map(Number).some(id => (item.genre_ids ?? []).includes(id));
+    case 'vote_average.gte':
+      return (item.vote_average ?? 0) >= Number(value);
+    case 'vote_average.lte':
+      return (item.vote_average ?? 0) <= Number(value);
+    case 'vote_count.gte':
+      return (item.vote_count ?? 0) >= Number(value);
+    case 'primary_release_year':
+    case 'first_air_date_year':
+      return date.slice(0, 4) === value;
+    case 'primary_release_date.gte':
+    case 'first_air_date.gte':
+      return !!date && date >= value;
+    case 'primary_release_date.lte':
+    case 'first_air_date.lte':
+      return !!date && date <= value;
+    case 'with_original_language':
+      return item.original_language === value;
+    default:
+      return null;
+  }
+}
+
+interface Candidate {
+  item: RawItem;
+  foundBy: Set<'filters' | 'text'>;
+  // Set when the item came in as a credit of a person matching the text
+  viaPerson?: string;
+}
+
+/**
+ * Scores one candidate as a weighted sum of four signals, each 0-1:
+ *
+ *   text        how well the title matches the residual text (1 exact title,
+ *               0.85 title contains it, 0.75 known-for credit of a matching
+ *               person, less for partial word matches in title or overview)
+ *   filters     share of the discover filters the item satisfies; filters that
+ *               cannot be checked on a list item count as met for discover
+ *               results and as half met for text results
+ *   popularity  TMDB popularity on a log scale, relative to the most popular candidate
+ *   votes       vote_count / (vote_count + 500), so a high rating from a
+ *               handful of votes does not outrank an established title
+ *
+ * Weights are HYBRID_WEIGHTS. Reasons are listed strongest first, in `locale`.
+ */
+function scoreCandidate(
+  candidate: Candidate,
+  text: string,
+  filters: [string, string][],
+  labels: Map<string, string>,
+  maxPopularity: number,
+  locale: Locale,
+): SearchMatch {
+  const { item, foundBy, viaPerson } = candidate;
+  const reasons: string[] = [];
+
+  const textResult = textMatch(item, text, viaPerson, locale);
+  if (textResult.reason) reasons.push(textResult.reason);
+
+  let met = 0;
+  const missed: string[] = [];
+  filters.forEach(([param, value]) => {
+    const holds = UNCHECKABLE_PARAMS.has(param) ? null : filterHolds(item, param, value);
+    if (holds === null) {
+      met += foundBy.has('filters') ? 1 : 0.5;
+    } else if (holds) {
+      met += 1;
+    } else {
+      missed.push(labels.get(`${param}:${value}`) ?? describeParam(param, value, locale).label);
+    }
+  });
+  const filterScore = filters.length > 0 ? met / filters.length : 1;
+  if (filters.length > 0 && missed.length === 0) {
+    reasons.push(translate(locale.language, foundBy.has('filters') ? 'reason.matchesFilters' : 'reason.alsoMatchesFilters'));
+  }
+  if (missed.length > 0) {
+    reasons.push(translate(locale.language, 'reason.misses', { filters: new Intl.ListFormat(locale.language, { type: 'unit' }).format(missed) }));
+  }
+
+  const popularity = maxPopularity > 0 ? Math.log1p(item.popularity ?? 0) / Math.log1p(maxPopularity) : 0;
+  const votes = (item.vote_count ?? 0) / ((item.vote_count ?? 0) + VOTE_HALF_POINT);
+  if (votes >= 0.8 && (item.vote_average ?? 0) >= 7) {
+    const numbers = formatLocale(locale);
+    reasons.push(translate(locale.language, 'reason.wellReviewed', {
+      rating: (item.vote_average ?? 0).toLocaleString(numbers, { minimumFractionDigits: 1, maximumFractionDigits: 1 }),
+      votes: (item.vote_count ?? 0).toLocaleString(numbers),
+    }));
+  }
+
+  const score = HYBRID_WEIGHTS.text * textResult.score
+    + HYBRID_WEIGHTS.filters * filterScore
+    + HYBRID_WEIGHTS.popularity * popularity
+    + HYBRID_WEIGHTS.votes * votes;
+
+  return { score: Math.round(score * 1000) / 1000, foundBy: Array.from(foundBy), reasons };
+}
+
+// Genre ids -> names for the reasons, e.g. 'Misses Science Fiction', in `locale`
+async function genreLabels(mediaType: 'movie' | 'tv', filters: [string, string][], locale: Locale): Promise<Map<string, string>> {
+  const labels = new Map<string, string>();
+  if (!filters.some(([param]) => param === 'with_genres' || param === 'without_genres')) return labels;
+
+  try {
+    const { genres } = await tmdbGet(`genre/${mediaType}/list`, {}, locale);
+    filters.forEach(([param, value]) => {
+      if (param !== 'with_genres' && param !== 'without_genres') return;
+      const names = value.split(/[,|]/).map(id => genres.find(g => String(g.id) === id)?.name ?? `#${id}`);
+      const joined = new Intl.ListFormat(locale.language, { type: value.includes('|') ? 'disjunction' : 'conjunction' }).format(names);
+      labels.set(`${param}:${value}`, param === 'without_genres' ? translate(locale.language, 'reason.notGenres', { genres: joined }) : joined);
+    });
+  } catch (error) {
+    logger.warn('Could not load genre names for hybrid search reasons', { error });
+  }
+  return labels;
+}
+
+type SourcePage = { results: RawItem[]; total_pages: number };
+
+// The first HYBRID_SOURCE_PAGES pages of one source. Only a failed first page
+// fails the source; a later page that fails just leaves the window shorter.
+async function readWindow(label: string, fetchPage: (page: string) => Promise<SourcePage>): Promise<RawItem[]> {
+  const first = await fetchPage('1');
+  const more = Array.from({ length: Math.min(first.total_pages, HYBRID_SOURCE_PAGES) - 1 }, (_, i) => String(i + 2));
+  const rest = await Promise.allSettled(more.map(fetchPage));
+  return [first, ...rest.flatMap((result) => {
+    if (result.status === 'fulfilled') return [result.value];
+    logger.warn(`Hybrid search: a later ${label} page failed`, { error: result.reason });
+    return [];
+  })].flatMap(sourcePage => sourcePage.results);
+}
+
+/**
+ * Runs `path` with `params` and a search/multi for `text` in parallel, reading
+ * the first HYBRID_SOURCE_PAGES pages of each, merges them by id, ranks the
+ * whole window by scoreCandidate and returns one page of it. The totals count
+ * the ranked window, so results beyond it are not reachable. People in the
+ * text results contribute their known-for titles. If one of the two sources
+ * fails the other is still returned; only a double failure throws. Titles and
+ * the reasons come back in `locale`.
+ */
+export async function hybridSearch(
+  path: HybridPath,
+  params: Record<string, string>,
+  text: string,
+  page = 1,
+  locale: Locale = DEFAULT_LOCALE,
+): Promise<HybridPage> {
+  const mediaType: HybridItem['media_type'] = path === 'discover/tv' ? 'tv' : 'movie';
+
+  const [discovered, searched] = await Promise.allSettled([
+    readWindow('discover', pageParam => tmdbGet(path, { ...params, page: pageParam }, locale)),
+    readWindow('text', pageParam => tmdbGet('search/multi', { query: text, page: pageParam }, locale)),
+  ]);
+
+  if (discovered.status === 'rejected' && searched.status === 'rejected') {
+    throw discovered.reason;
+  }
+  if (discovered.status === 'rejected') logger.warn('Hybrid search: discover query failed', { error: discovered.reason });
+  if (searched.status === 'rejected') logger.warn('Hybrid search: text query failed', { error: searched.reason });
+
+  const candidates = new Map<number, Candidate>();
+  const add = (item: RawItem, source: 'filters' | 'text', viaPerson?: string) => {
+    const existing = candidates.get(item.id);
+    if (existing) {
+      existing.foundBy.add(source);
+      existing.viaPerson = existing.viaPerson ?? viaPerson;
+      return;
+    }
+    candidates.set(item.id, { item, foundBy: new Set([source]), viaPerson });
+  };
+
+  if (discovered.status === 'fulfilled') {
+    discovered.value.forEach(item => add(item, 'filters'));
+  }
+  if (searched.status === 'fulfilled') {
+    searched.value.forEach(item => {
+      if (item.media_type === mediaType) {
+        add(item, 'text');
+      } else if (item.media_type === 'person') {
+        (item.known_for ?? [])
+          .filter(credit => credit.media_type === mediaType)
+          .forEach(credit => add(credit, 'text', item.name));
+      }
+    });
+  }
+
+  const filters = Object.entries(params).filter(([param]) => !PRESENTATION_PARAMS.has(param));
+  const labels = await genreLabels(mediaType, filters, locale);
+  const maxPopularity = Math.max(0, ...Array.from(candidates.values()).map(c => c.item.popularity ?? 0));
+
+  const ranked: HybridItem[] = Array.from(candidates.values())
+    .map(candidate => ({
+      ...candidate.item,
+      media_type: mediaType,
+      match: scoreCandidate(candidate, text, filters, labels, maxPopularity, locale),
+    }))
+    .sort((a, b) => b.match.score - a.match.score || (b.popularity ?? 0) - (a.popularity ?? 0) || a.id - b.id);
+
+  const start = (page - 1) * HYBRID_PAGE_SIZE;
+  return {
+    page,
+    results: ranked.slice(start, start + HYBRID_PAGE_SIZE),
+    total_pages: Math.ceil(ranked.length / HYBRID_PAGE_SIZE),
+    total_results: ranked.length,
+  };
+}
@@ -0,0 +1,51 @@
+// src/lib/i18n.ts
+
+// UI text lookup and date formatting for the user's locale. Catalogs live in
+// src/lib/messages, one per language; English is the reference and the
+// fallback for languages and keys without a translation.
+
+import type { Locale } from '@/lib/locale';
+import { en } from '@/lib/messages/en';
+import { fr } from '@/lib/messages/fr';
+
+// A plain string, or one string per plural category for messages with a {count}
+export type Message = string | { one: string; other: string };
+
+export type MessageKey = keyof typeof en;
+
+export type Messages = Record<MessageKey, Message>;
+
+export type MessageVars = Record<string, string | number>;
+
+const CATALOGS: Record<string, Messages> = { en, fr };
+
+// Languages with a UI catalog; the picker offers more languages for TMDB content
+export const UI_LANGUAGES = Object.keys(CATALOGS);
+
+/**
+ * Looks up `key` in the catalog for `language` and fills in `{name}`
+ * placeholders from `vars`. Plural messages pick their form from `vars.count`
+ * (or `vars.total`) using the language's plural rules.
+ */
+export function translate(language: string, key: MessageKey, vars: MessageVars = {}): string {
+  const message = CATALOGS[language]?.[key] ?? en[key];
+  let text: string;
+  if (typeof message === 'string') {
+    text = message;
+  } else {
+    const count = Number(vars.count ?? vars.total ?? 0);
+    text = new Intl.PluralRules(language).select(count) === 'one' ? message.one : message.other;
+  }
+  return text.replace(/\{(\w+)\}/g, (placeholder, name: string) => (name in vars ? String(vars[name]) : placeholder));
+}
+
+/**
+ * Formats a TMDB date ('2024-05-01') for the locale. TMDB dates have no time
+ * zone, so they are read and printed as UTC to keep the day from shifting.
+ * Returns null for a missing or unreadable date.
+ */
+export function formatDate(locale: Locale, date: string | undefined | null, options: Intl.DateTimeFormatOptions): string | null {
+  const parsed = date ? new Date(`${date.slice(0, 10)}T00:00:00Z`) : null;
+  if (!parsed || Number.isNaN(parsed.getTime())) return null;
+  return new Intl.DateTimeFormat(`${locale.language}-${locale.region}`, { ...options, timeZone: 'UTC' }).format(parsed);
+}
@@ -0,0 +1,72 @@
+// src/lib/locale.ts
+
+// The user's content locale: the language TMDB answers in (titles, overviews)
+// and the region that picks release dates, certifications and regional lists.
+// The browser sends it to the API routes as `locale=fr-FR`; the server turns it
+// into TMDB's `language` and, where the route accepts one, `region` parameter.
+
+import type { ValidationIssue } from '@/lib/tmdb-routes';
+
+export interface Locale {
+  // ISO 639-1, e.g. 'fr'
+  language: string;
+  // ISO 3166-1, e.g. 'FR'
+  region: string;
+}
+
+export const DEFAULT_LOCALE: Locale = { language: 'en', region: 'US' };
+
+// Languages and regions offered in the locale picker; the API accepts any valid code
+export const LANGUAGE_OPTIONS = ['en', 'fr', 'es', 'de', 'it', 'pt', 'ja', 'ko'] as const;
+export const REGION_OPTIONS = ['US', 'GB', 'CA', 'AU', 'IE', 'FR', 'BE', 'CH', 'DE', 'AT', 'ES', 'MX', 'AR', 'IT', 'PT', 'BR', 'JP', 'KR', 'IN'] as const;
+
+// Region assumed when only a language is known, e.g. from a browser set to plain 'fr'
+const DEFAULT_REGIONS: Record<string, string> = {
+  en: 'US', fr: 'FR', es: 'ES', de: 'DE', it: 'IT', pt: 'BR', ja: 'JP', ko: 'KR',
+};
+
+const LOCALE_TAG = /^([a-zA-Z]{2})(?:[-_]([a-zA-Z]{2}))?$/;
+
+// 'fr-FR'; also the value of TMDB's `language` parameter
+export const formatLocale = (locale: Locale): string => `${locale.language}-${locale.region}`;
+
+/**
+ * Reads a tag such as 'fr-FR', 'fr_ca' or 'fr'. A missing region is filled in
+ * from the language; tags with scripts or other subtags return null.
+ */
+export function parseLocale(tag: string | null | undefined): Locale | null {
+  const match = tag ? LOCALE_TAG.exec(tag.trim()) : null;
+  if (!match) return null;
+  const language = match[1].toLowerCase();
+  const region = match[2]?.toUpperCase() ?? DEFAULT_REGIONS[language];
+  return region ? { language, region } : null;
+}
+
+/**
+ * Picks the first usable locale from the browser's preferred languages
+ * (navigator.languages), falling back to DEFAULT_LOCALE.
+ */
+export function detectLocale(preferred: readonly string[]): Locale {
+  for (const tag of preferred) {
+    // 'zh-Hans-CN' style tags are reduced to language and region
+    const parts = tag.split('-');
+    const locale = parseLocale(parts.length > 2 ? `${parts[0]}-${parts[parts.length - 1]}` : tag);
+    if (locale) return locale;
+  }
+  return DEFAULT_LOCALE;
+}
+
+/**
+ * Reads the `locale` query parameter of an API request. A missing parameter
+ * means DEFAULT_LOCALE; a malformed one is reported as a validation issue.
+ */
+export function readLocaleParam(raw: string | string[] | undefined): { locale: Locale } | { issue: ValidationIssue } {
+  if (raw === undefined) return { locale: DEFAULT_LOCALE };
+  if (Array.isArray(raw)) {
+    return { issue: { param: 'locale', code: 'duplicate_param', message: '"locale" may only be given once.' } };
+  }
+  const locale = /^[a-z]{2}-[A-Z]{2}$/.test(raw) ? parseLocale(raw) : null;
+  return locale
+    ? { locale }
+    : { issue: { param: 'locale', code: 'invalid_value', message: '"locale" must be a language and region such as fr-FR.' } };
+}
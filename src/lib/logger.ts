@@ -0,0 +1,69 @@
+// src/lib/logger.ts
+
+// Server-side structured logging: one JSON object per line, tagged with the
+// id and route of the API request being handled. The request context is kept
+// in AsyncLocalStorage, so library code (TMDB calls, search parsers) logs with
+// the right request id without passing it around. LOG_LEVEL picks the lowest
+// level written (debug | info | warn | error; default info).
+
+import { AsyncLocalStorage } from 'async_hooks';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export interface RequestContext {
+  requestId: string;
+  // The API route name, e.g. 'tmdb-proxy'
+  route: string;
+}
+
+export type LogFields = Record<string, unknown>;
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+// Next.js may load this module once per API route bundle; one store per process
+// keeps the context visible to every copy
+const globalStore = globalThis as { __requestContext?: AsyncLocalStorage<RequestContext> };
+const requestContext = (globalStore.__requestContext ??= new AsyncLocalStorage<RequestContext>());
+
+/**
+ * Runs `fn` with `context` as the current request context for everything it
+ * awaits, including log lines and metrics recorded along the way.
+ */
+export const runWithRequestContext = <T>(context: RequestContext, fn: () => T): T => requestContext.run(context, fn);
+
+export const getRequestContext = (): RequestContext | undefined => requestContext.getStore();
+
+const minimumLevel = (): number => LEVELS[process.env.LOG_LEVEL as LogLevel] ?? LEVELS.info;
+
+// Errors do not serialise to JSON on their own; keep what helps debugging
+const serialise = (value: unknown): unknown => {
+  if (!(value instanceof Error)) return value;
+  const extra = Object.fromEntries(Object.entries(value));
+  return { name: value.name, message: value.message, ...extra, stack: value.stack };
+};
+
+function write(level: LogLevel, message: string, fields: LogFields = {}) {
+  if (LEVELS[level] < minimumLevel()) return;
+
+  const entry: LogFields = { time: new Date().toISOString(), level, msg: message, ...getRequestContext() };
+  Object.entries(fields).forEach(([key, value]) => {
+    if (value !== undefined) entry[key] = serialise(value);
+  });
+
+  let line: string;
+  try {
+    line = JSON.stringify(entry);
+  } catch {
+    // Circular details; the message and context still get through
+    line = JSON.stringify({ time: entry.time, level, msg: message, ...getRequestContext(), unserialisable: true });
+  }
+  if (LEVELS[level] >= LEVELS.warn) console.error(line);
+  else console.log(line);
+}
+
+export const logger = {
+  debug: (message: string, fields?: LogFields) => write('debug', message, fields),
+  info: (message: string, fields?: LogFields) => write('info', message, fields),
+  warn: (message: string, fields?: LogFields) => write('warn', message, fields),
+  error: (message: string, fields?: LogFields) => write('error', message, fields),
+};
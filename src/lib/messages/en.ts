@@ -0,0 +1,263 @@
+// src/lib/messages/en.ts
+
+// English UI text. This catalog defines the message keys; other languages
+// translate the same keys and fall back to these strings for any they miss.
+
+import type { Message } from '@/lib/i18n';
+
+export const en = {
+  // Locale picker
+  'locale.language': 'Language',
+  'locale.region': 'Region',
+
+  // Degraded-mode banner
+  'health.tmdbUnconfigured': 'TMDB_ACCESS_TOKEN is not set, so movies cannot load.',
+  'health.tmdbDown': 'The Movie Database is not answering, so results may fail to load.',
+  'health.parserFallback': 'The AI search parser is not configured ({reason}); searches use the simpler rule-based parser.',
+  'health.parserMock': 'Searches are parsed by an offline stand-in (recorded fixtures or the fake LLM), not a live AI model.',
+  'health.llmDown': 'The AI search parser is not answering; searches may fall back to the rule-based parser.',
+  'health.dismiss': 'Dismiss',
+
+  // Home page
+  'home.title': 'AI Semantic Search Tester 🧠',
+  'home.subtitle': 'Natural Language Search powered by AI parsing, backed by Next.js and TMDB.',
+  'home.collectionLink': 'My collection →',
+  'home.forYou': 'For You',
+  'home.forYouEmpty': 'Save, rate or open a few movies and recommendations based on your taste will show up here.',
+  'home.trending': 'Trending Movies (Today)',
+  'home.popular': 'Popular Movies (All Time)',
+  'home.footerData': 'Data provided by The Movie Database (TMDB).',
+  'home.footerParser': 'AI parsing simulated/powered by the server proxy.',
+
+  // Search form and the parsed intent line
+  'search.placeholder': "Try: 'mind-bending sci-fi with a 7.5+ rating', 'best of 2024' or 'top rated crime series'",
+  'search.submit': 'Search',
+  'search.submitting': 'Searching...',
+  'search.results': 'Search Results',
+  'search.processing': 'AI processing: "{term}"...',
+  'search.intent': 'AI {type} Search: {detail}{unresolved}',
+  'search.typeSemantic': 'Semantic',
+  'search.typeText': 'Text',
+  'search.mediaTv': 'TV series',
+  'search.mediaMovie': 'movies',
+  'search.mediaAll': 'movies, TV and people',
+  'search.trendingWeek': 'Trending {media} this week',
+  'search.trendingToday': 'Trending {media} today',
+  'search.hybrid': 'Combining "{text}" with filters for {media}',
+  'search.discover': 'Discovering {media} matching these filters',
+  'search.text': 'Searching {media}',
+  'search.unresolved': ' (could not match: {names})',
+
+  // Filter panel
+  'filters.show': 'Show filters',
+  'filters.hide': 'Hide filters',
+  'filters.media': 'Type',
+  'filters.movies': 'Movies',
+  'filters.tv': 'TV series',
+  'filters.language': 'Original language',
+  'filters.anyLanguage': 'Any language',
+  'filters.sort': 'Sort by',
+  'filters.sortAsc': '{field}, ascending',
+  'filters.sortDesc': '{field}, descending',
+  'filters.sortPopularity': 'Popularity',
+  'filters.sortRating': 'Rating',
+  'filters.sortVotes': 'Number of votes',
+  'filters.sortReleaseDate': 'Release date',
+  'filters.sortFirstAirDate': 'First air date',
+  'filters.sortRevenue': 'Revenue',
+  'filters.sortTitle': 'Title',
+  'filters.genres': 'Genres',
+  'filters.genreMatch': 'How genres combine',
+  'filters.matchAll': 'All selected',
+  'filters.matchAny': 'Any selected',
+  'filters.loading': 'Loading…',
+  'filters.loadError': 'Could not load the genre and streaming service lists.',
+  'filters.releaseYears': 'Release years',
+  'filters.firstAirYears': 'First aired',
+  'filters.from': 'From',
+  'filters.to': 'To',
+  'filters.runtime': 'Runtime (minutes)',
+  'filters.min': 'Min',
+  'filters.max': 'Max',
+  'filters.minRating': 'Minimum rating: {value}',
+  'filters.minVotes': 'Minimum votes: {value}',
+  'filters.any': 'any',
+  'filters.providers': 'Streaming on ({region})',
+  'filters.reset': 'Reset',
+  'filters.apply': 'Apply filters',
+
+  // Filter chips under the search
+  'chip.query': '“{value}”',
+  'chip.ratingMin': 'Rating ≥ {value}',
+  'chip.ratingMax': 'Rating ≤ {value}',
+  'chip.votesMin': 'At least {value} votes',
+  'chip.releasedIn': 'Released in {value}',
+  'chip.firstAiredIn': 'First aired in {value}',
+  'chip.from': 'From {value}',
+  'chip.until': 'Until {value}',
+  'chip.releasedFrom': 'Released from {value}',
+  'chip.releasedUntil': 'Released until {value}',
+  'chip.runtimeMin': 'At least {value} min',
+  'chip.runtimeMax': 'At most {value} min',
+  'chip.language': 'In {value}',
+  'chip.origin': 'From {value}',
+  'chip.streamingIn': 'Streaming in {value}',
+  'chip.releaseTypes': '{types} releases',
+  'chip.releasePremiere': 'premiere',
+  'chip.releaseLimited': 'limited theatrical',
+  'chip.releaseTheatrical': 'theatrical',
+  'chip.releaseDigital': 'digital',
+  'chip.releasePhysical': 'physical',
+  'chip.releaseTv': 'TV',
+  'chip.sortedBy': 'Sorted by {field}',
+  'chip.sortedByAscending': 'Sorted by {field} (ascending)',
+  'chip.starring': 'Starring {name}',
+  'chip.by': 'By {name}',
+  'chip.on': 'On {name}',
+  'chip.invalidValue': '"{value}" is not a valid value for this filter.',
+  'chip.fromSource': 'From “{source}”',
+  'chip.inferred': 'Inferred from the query as a whole',
+  'chip.confidence': 'Confidence {percent}%',
+  'chip.lowConfidence': 'low confidence',
+  'chip.edit': 'Edit {label}',
+  'chip.apply': 'Apply',
+  'chip.remove': 'Remove {label}',
+  'chip.list': 'Search filters',
+
+  // Changes the server made to the parser's answer
+  'warning.namesNotObject': 'Ignored names that were not an object.',
+  'warning.namesInvalid': 'Ignored {kind} entries that were not names.',
+  'warning.paramsNotObject': 'Ignored params that were not an object.',
+  'warning.paramNotSingle': 'Ignored "{param}" because it is not a single value.',
+  'warning.pathReplaced': 'Unsupported path {path} was replaced with "{replacement}".',
+  'warning.queryMoved': 'Searched for "{query}" with {replacement} instead of {path}.',
+  'warning.queryDropped': 'Ignored the text "{query}" because {path} cannot search by title.',
+  'warning.queryMissing': 'Used {replacement} because {path} needs a search text.',
+  'warning.tvYear': 'Used {param} instead of {other} for TV series.',
+  'warning.movieYear': 'Used {param} instead of {other} for movies.',
+  'warning.paramUnsupported': 'Ignored "{param}", which {path} does not support.',
+  'warning.valueInvalid': 'Ignored "{param}" because "{value}" is not a valid value.',
+  'warning.valueRepaired': 'Read "{param}" value "{value}" as "{replacement}".',
+  'warning.fallbackBudget': 'The AI parser is over its request budget, so the basic parser handled this search.',
+  'warning.fallbackRejected': 'The AI parser suggested a search outside the allowed ones, so the basic parser handled this search.',
+  'warning.fallbackError': 'The AI parser was unavailable, so the basic parser handled this search.',
+
+  // Why a result was ranked where it is
+  'reason.titleIs': 'Title is “{text}”',
+  'reason.titleContains': 'Title contains “{text}”',
+  'reason.knownFor': 'Known for work by {name}',
+  'reason.titleMentions': 'Title mentions “{words}”',
+  'reason.overviewMentions': 'Overview mentions “{words}”',
+  'reason.matchesFilters': 'Matches all filters',
+  'reason.alsoMatchesFilters': 'Also matches the filters',
+  'reason.misses': 'Misses {filters}',
+  'reason.notGenres': 'not {genres}',
+  'reason.wellReviewed': 'Well reviewed ({rating} from {votes} votes)',
+  'reason.becauseYouLiked': 'Because you liked {title}',
+  'reason.tasteGenres': 'Matches your taste for {genres}',
+  'reason.tasteCast': 'Stars actors from movies you like',
+  'reason.tasteKeywords': 'Shares themes with movies you like',
+  'reason.tasteDecade': 'From the {decade}s, a decade you enjoy',
+
+  // Error box titles and advice, per error kind
+  'error.invalidRequest': 'Invalid request',
+  'error.invalidRequestHint': 'The request was rejected before it reached TMDB. Try changing the search or its filters.',
+  'error.rateLimited': 'Too many requests',
+  'error.rateLimitedHint': 'You are sending requests faster than the server allows.',
+  'error.retryAfter': { one: 'Try again in {count} second.', other: 'Try again in {count} seconds.' },
+  'error.config': 'Server configuration error',
+  'error.configHint': 'The server is missing a setting such as TMDB_ACCESS_TOKEN. Check its environment variables.',
+  'error.tmdb': 'TMDB error',
+  'error.tmdbHint': 'The Movie Database could not answer right now, or rejected the access token. Try again shortly.',
+  'error.parser': 'Search could not be understood',
+  'error.parserHint': 'The search parser failed. Check AI_API_KEY (or the configured provider) or rephrase the search.',
+  'error.storage': 'Collection storage error',
+  'error.storageHint': 'The server could not read or write saved collections.',
+  'error.network': 'Network error',
+  'error.networkHint': 'The app server could not be reached. Check your connection.',
+  'error.internal': 'Unexpected error',
+  'error.internalHint': 'Something went wrong on the server.',
+
+  // Paged lists
+  'list.loading': 'Loading results...',
+  'list.empty': 'No results found for this query.',
+  'list.unknownError': 'Unknown network error.',
+  'list.requestId': 'Request id: {id}',
+  'list.showing': { one: 'Showing {shown} of {total} result', other: 'Showing {shown} of {total} results' },
+  'list.loadMore': 'Load more',
+  'list.loadingMore': 'Loading...',
+
+  // Cards
+  'card.posterMissing': 'Poster Unavailable',
+  'card.photoMissing': 'Photo Unavailable',
+  'card.noOverview': 'No overview available.',
+  'card.noDate': 'N/A',
+  'card.released': 'Released {date}',
+  'card.tvSeries': 'TV Series',
+  'card.since': 'Since {year}',
+  'card.seasons': { one: '{count} season', other: '{count} seasons' },
+  'card.person': 'Person',
+  'card.knownFor': 'Known for {titles}',
+
+  // Collection controls
+  'collection.watchlist': 'Watchlist',
+  'collection.favorite': 'Favorite',
+  'collection.seen': 'Seen',
+  'collection.add': 'Add to {list}',
+  'collection.remove': 'Remove from {list}',
+  'collection.yourRating': 'Your rating',
+  'collection.rate': 'Rate',
+
+  // Pages other than the home page
+  'page.backToSearch': '← Back to search',
+
+  // Movie detail page
+  'detail.loading': 'Loading movie...',
+  'detail.loadError': 'Could not load this movie',
+  'detail.runtime': '{hours}h {minutes}m',
+  'detail.runtimeMinutes': '{minutes}m',
+  'detail.trailer': 'Trailer',
+  'detail.cast': 'Cast',
+  'detail.whereToWatch': 'Where to Watch',
+  'detail.stream': 'Stream',
+  'detail.rent': 'Rent',
+  'detail.buy': 'Buy',
+  'detail.moreOptions': 'More options on TMDB',
+  'detail.noProviders': 'No streaming information available in your region.',
+  'detail.recommendations': 'Recommendations',
+
+  // Collection page
+  'collectionPage.title': 'My Collection',
+  'collectionPage.lists': 'Collection lists',
+  'collectionPage.watchlist': 'Watchlist',
+  'collectionPage.favorite': 'Favorites',
+  'collectionPage.rated': 'Rated',
+  'collectionPage.seen': 'Seen',
+  'collectionPage.emptyWatchlist': 'Nothing on your watchlist yet. Use 🔖 on any card to save it for later.',
+  'collectionPage.emptyFavorite': 'No favorites yet. Use ♡ on any card to add one.',
+  'collectionPage.emptyRated': 'You have not rated anything yet. Pick a score from the Rate menu on any card.',
+  'collectionPage.emptySeen': 'Nothing marked as seen yet. Use ✓ on any card.',
+  'collectionPage.loading': 'Loading your collection...',
+  'collectionPage.loadError': 'Could not load your collection',
+  'collectionPage.unknownError': 'Unknown error.',
+
+  // Collection import and export
+  'transfer.export': 'Export this list:',
+  'transfer.import': 'Import:',
+  'transfer.format': 'Import format',
+  'transfer.formatJson': 'JSON',
+  'transfer.formatCsv': 'CSV',
+  'transfer.formatLetterboxd': 'Letterboxd CSV',
+  'transfer.submit': 'Import',
+  'transfer.submitting': 'Importing...',
+  'transfer.failed': 'Import failed.',
+  'transfer.report': {
+    one: 'Imported {imported} of {count} row ({matched} matched on TMDB).',
+    other: 'Imported {imported} of {count} rows ({matched} matched on TMDB).',
+  },
+  'transfer.row': 'Row {row}:',
+  'transfer.candidates': 'Candidates: {titles}',
+  'transfer.ambiguous': 'Ambiguous',
+  'transfer.unmatched': 'Not found',
+  'transfer.invalid': 'Invalid rows',
+} satisfies Record<string, Message>;
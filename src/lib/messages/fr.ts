@@ -0,0 +1,246 @@
+// src/lib/messages/fr.ts
+
+// French UI text
+
+import type { Messages } from '@/lib/i18n';
+
+export const fr: Messages = {
+  'locale.language': 'Langue',
+  'locale.region': 'Région',
+
+  'health.tmdbUnconfigured': 'TMDB_ACCESS_TOKEN n’est pas défini : les films ne peuvent pas être chargés.',
+  'health.tmdbDown': 'The Movie Database ne répond pas : les résultats risquent de ne pas se charger.',
+  'health.parserFallback': 'L’analyseur de recherche IA n’est pas configuré ({reason}) ; les recherches utilisent l’analyseur à règles, plus simple.',
+  'health.parserMock': 'Les recherches sont analysées par un substitut hors ligne (enregistrements ou faux LLM), pas par un modèle d’IA en direct.',
+  'health.llmDown': 'L’analyseur de recherche IA ne répond pas ; les recherches peuvent basculer sur l’analyseur à règles.',
+  'health.dismiss': 'Fermer',
+
+  'home.title': 'Recherche sémantique par IA 🧠',
+  'home.subtitle': 'Recherche en langage naturel analysée par IA, avec Next.js et TMDB.',
+  'home.collectionLink': 'Ma collection →',
+  'home.forYou': 'Pour vous',
+  'home.forYouEmpty': 'Enregistrez, notez ou ouvrez quelques films et des recommandations adaptées à vos goûts apparaîtront ici.',
+  'home.trending': 'Films tendance (aujourd’hui)',
+  'home.popular': 'Films populaires',
+  'home.footerData': 'Données fournies par The Movie Database (TMDB).',
+  'home.footerParser': 'Analyse par IA simulée ou assurée par le proxy du serveur.',
+
+  'search.placeholder': 'Essayez : « films de science-fiction notés 7,5+ », « les meilleurs de 2024 » ou « séries policières les mieux notées »',
+  'search.submit': 'Rechercher',
+  'search.submitting': 'Recherche…',
+  'search.results': 'Résultats de recherche',
+  'search.processing': 'Analyse par IA : « {term} »…',
+  'search.intent': 'Recherche {type} par IA : {detail}{unresolved}',
+  'search.typeSemantic': 'sémantique',
+  'search.typeText': 'textuelle',
+  'search.mediaTv': 'séries',
+  'search.mediaMovie': 'films',
+  'search.mediaAll': 'films, séries et personnes',
+  'search.trendingWeek': '{media} tendance cette semaine',
+  'search.trendingToday': '{media} tendance aujourd’hui',
+  'search.hybrid': 'Combinaison de « {text} » avec les filtres pour les {media}',
+  'search.discover': 'Découverte des {media} correspondant à ces filtres',
+  'search.text': 'Recherche parmi les {media}',
+  'search.unresolved': ' (introuvable : {names})',
+
+  'filters.show': 'Afficher les filtres',
+  'filters.hide': 'Masquer les filtres',
+  'filters.media': 'Type',
+  'filters.movies': 'Films',
+  'filters.tv': 'Séries',
+  'filters.language': 'Langue originale',
+  'filters.anyLanguage': 'Toutes les langues',
+  'filters.sort': 'Trier par',
+  'filters.sortAsc': '{field}, croissant',
+  'filters.sortDesc': '{field}, décroissant',
+  'filters.sortPopularity': 'Popularité',
+  'filters.sortRating': 'Note',
+  'filters.sortVotes': 'Nombre de votes',
+  'filters.sortReleaseDate': 'Date de sortie',
+  'filters.sortFirstAirDate': 'Première diffusion',
+  'filters.sortRevenue': 'Recettes',
+  'filters.sortTitle': 'Titre',
+  'filters.genres': 'Genres',
+  'filters.genreMatch': 'Combinaison des genres',
+  'filters.matchAll': 'Tous les genres choisis',
+  'filters.matchAny': 'Un des genres choisis',
+  'filters.loading': 'Chargement…',
+  'filters.loadError': 'Impossible de charger les genres et les services de streaming.',
+  'filters.releaseYears': 'Années de sortie',
+  'filters.firstAirYears': 'Première diffusion',
+  'filters.from': 'De',
+  'filters.to': 'À',
+  'filters.runtime': 'Durée (minutes)',
+  'filters.min': 'Min',
+  'filters.max': 'Max',
+  'filters.minRating': 'Note minimale : {value}',
+  'filters.minVotes': 'Votes minimum : {value}',
+  'filters.any': 'aucune',
+  'filters.providers': 'En streaming sur ({region})',
+  'filters.reset': 'Réinitialiser',
+  'filters.apply': 'Appliquer les filtres',
+
+  'chip.query': '« {value} »',
+  'chip.ratingMin': 'Note ≥ {value}',
+  'chip.ratingMax': 'Note ≤ {value}',
+  'chip.votesMin': 'Au moins {value} votes',
+  'chip.releasedIn': 'Sorti en {value}',
+  'chip.firstAiredIn': 'Diffusé pour la première fois en {value}',
+  'chip.from': 'À partir du {value}',
+  'chip.until': 'Jusqu’au {value}',
+  'chip.releasedFrom': 'Sorti à partir du {value}',
+  'chip.releasedUntil': 'Sorti jusqu’au {value}',
+  'chip.runtimeMin': 'Au moins {value} min',
+  'chip.runtimeMax': 'Au plus {value} min',
+  'chip.language': 'En {value}',
+  'chip.origin': 'Origine : {value}',
+  'chip.streamingIn': 'En streaming : {value}',
+  'chip.releaseTypes': 'Sorties {types}',
+  'chip.releasePremiere': 'en avant-première',
+  'chip.releaseLimited': 'en salles limitées',
+  'chip.releaseTheatrical': 'en salles',
+  'chip.releaseDigital': 'numériques',
+  'chip.releasePhysical': 'physiques',
+  'chip.releaseTv': 'à la télévision',
+  'chip.sortedBy': 'Tri : {field}',
+  'chip.sortedByAscending': 'Tri : {field} (croissant)',
+  'chip.starring': 'Avec {name}',
+  'chip.by': 'De {name}',
+  'chip.on': 'Sur {name}',
+  'chip.invalidValue': '« {value} » n’est pas une valeur valide pour ce filtre.',
+  'chip.fromSource': 'D’après « {source} »',
+  'chip.inferred': 'Déduit de la recherche dans son ensemble',
+  'chip.confidence': 'Confiance {percent} %',
+  'chip.lowConfidence': 'confiance faible',
+  'chip.edit': 'Modifier {label}',
+  'chip.apply': 'Appliquer',
+  'chip.remove': 'Retirer {label}',
+  'chip.list': 'Filtres de recherche',
+
+  'warning.namesNotObject': 'Noms ignorés : ce n’était pas un objet.',
+  'warning.namesInvalid': 'Entrées {kind} ignorées : ce n’étaient pas des noms.',
+  'warning.paramsNotObject': 'Paramètres ignorés : ce n’était pas un objet.',
+  'warning.paramNotSingle': '« {param} » ignoré : ce n’est pas une valeur unique.',
+  'warning.pathReplaced': 'Le chemin non pris en charge {path} a été remplacé par « {replacement} ».',
+  'warning.queryMoved': 'Recherche de « {query} » avec {replacement} au lieu de {path}.',
+  'warning.queryDropped': 'Texte « {query} » ignoré : {path} ne recherche pas par titre.',
+  'warning.queryMissing': '{replacement} utilisé : {path} a besoin d’un texte de recherche.',
+  'warning.tvYear': '{param} utilisé au lieu de {other} pour les séries.',
+  'warning.movieYear': '{param} utilisé au lieu de {other} pour les films.',
+  'warning.paramUnsupported': '« {param} » ignoré : {path} ne le prend pas en charge.',
+  'warning.valueInvalid': '« {param} » ignoré : « {value} » n’est pas une valeur valide.',
+  'warning.valueRepaired': 'Valeur « {value} » de « {param} » lue comme « {replacement} ».',
+  'warning.fallbackBudget': 'L’analyseur IA a dépassé son quota de requêtes : l’analyseur simple a traité cette recherche.',
+  'warning.fallbackRejected': 'L’analyseur IA a proposé une recherche non autorisée : l’analyseur simple a traité cette recherche.',
+  'warning.fallbackError': 'L’analyseur IA était indisponible : l’analyseur simple a traité cette recherche.',
+
+  'reason.titleIs': 'Le titre est « {text} »',
+  'reason.titleContains': 'Le titre contient « {text} »',
+  'reason.knownFor': 'Connu pour le travail de {name}',
+  'reason.titleMentions': 'Le titre mentionne « {words} »',
+  'reason.overviewMentions': 'Le résumé mentionne « {words} »',
+  'reason.matchesFilters': 'Correspond à tous les filtres',
+  'reason.alsoMatchesFilters': 'Correspond aussi aux filtres',
+  'reason.misses': 'Ne correspond pas : {filters}',
+  'reason.notGenres': 'pas {genres}',
+  'reason.wellReviewed': 'Bien noté ({rating} sur {votes} votes)',
+  'reason.becauseYouLiked': 'Parce que vous avez aimé {title}',
+  'reason.tasteGenres': 'Correspond à votre goût pour {genres}',
+  'reason.tasteCast': 'Avec des acteurs de films que vous aimez',
+  'reason.tasteKeywords': 'Partage des thèmes avec des films que vous aimez',
+  'reason.tasteDecade': 'Des années {decade}, une décennie que vous appréciez',
+
+  'error.invalidRequest': 'Requête invalide',
+  'error.invalidRequestHint': 'La requête a été refusée avant d’atteindre TMDB. Modifiez la recherche ou ses filtres.',
+  'error.rateLimited': 'Trop de requêtes',
+  'error.rateLimitedHint': 'Vous envoyez des requêtes plus vite que le serveur ne l’autorise.',
+  'error.retryAfter': { one: 'Réessayez dans {count} seconde.', other: 'Réessayez dans {count} secondes.' },
+  'error.config': 'Erreur de configuration du serveur',
+  'error.configHint': 'Il manque un réglage au serveur, comme TMDB_ACCESS_TOKEN. Vérifiez ses variables d’environnement.',
+  'error.tmdb': 'Erreur TMDB',
+  'error.tmdbHint': 'The Movie Database ne peut pas répondre pour le moment ou a refusé le jeton d’accès. Réessayez bientôt.',
+  'error.parser': 'Recherche incomprise',
+  'error.parserHint': 'L’analyseur de recherche a échoué. Vérifiez AI_API_KEY (ou le fournisseur configuré) ou reformulez la recherche.',
+  'error.storage': 'Erreur d’enregistrement de la collection',
+  'error.storageHint': 'Le serveur n’a pas pu lire ou écrire les collections enregistrées.',
+  'error.network': 'Erreur réseau',
+  'error.networkHint': 'Le serveur de l’application est injoignable. Vérifiez votre connexion.',
+  'error.internal': 'Erreur inattendue',
+  'error.internalHint': 'Une erreur s’est produite sur le serveur.',
+
+  'list.loading': 'Chargement des résultats…',
+  'list.empty': 'Aucun résultat pour cette recherche.',
+  'list.unknownError': 'Erreur réseau inconnue.',
+  'list.requestId': 'Identifiant de requête : {id}',
+  'list.showing': { one: '{shown} résultat affiché sur {total}', other: '{shown} résultats affichés sur {total}' },
+  'list.loadMore': 'Afficher plus',
+  'list.loadingMore': 'Chargement…',
+
+  'card.posterMissing': 'Affiche indisponible',
+  'card.photoMissing': 'Photo indisponible',
+  'card.noOverview': 'Aucun résumé disponible.',
+  'card.noDate': 'N.C.',
+  'card.released': 'Sortie le {date}',
+  'card.tvSeries': 'Série',
+  'card.since': 'Depuis {year}',
+  'card.seasons': { one: '{count} saison', other: '{count} saisons' },
+  'card.person': 'Personne',
+  'card.knownFor': 'Connu(e) pour {titles}',
+
+  'collection.watchlist': 'À voir',
+  'collection.favorite': 'Favori',
+  'collection.seen': 'Vu',
+  'collection.add': 'Ajouter à « {list} »',
+  'collection.remove': 'Retirer de « {list} »',
+  'collection.yourRating': 'Votre note',
+  'collection.rate': 'Noter',
+
+  'page.backToSearch': '← Retour à la recherche',
+
+  'detail.loading': 'Chargement du film…',
+  'detail.loadError': 'Impossible de charger ce film',
+  'detail.runtime': '{hours} h {minutes} min',
+  'detail.runtimeMinutes': '{minutes} min',
+  'detail.trailer': 'Bande-annonce',
+  'detail.cast': 'Distribution',
+  'detail.whereToWatch': 'Où regarder',
+  'detail.stream': 'Streaming',
+  'detail.rent': 'Location',
+  'detail.buy': 'Achat',
+  'detail.moreOptions': 'Plus d’options sur TMDB',
+  'detail.noProviders': 'Aucune information de streaming disponible dans votre région.',
+  'detail.recommendations': 'Recommandations',
+
+  'collectionPage.title': 'Ma collection',
+  'collectionPage.lists': 'Listes de la collection',
+  'collectionPage.watchlist': 'À voir',
+  'collectionPage.favorite': 'Favoris',
+  'collectionPage.rated': 'Notés',
+  'collectionPage.seen': 'Vus',
+  'collectionPage.emptyWatchlist': 'Rien à voir pour l’instant. Utilisez 🔖 sur une fiche pour la garder pour plus tard.',
+  'collectionPage.emptyFavorite': 'Aucun favori pour l’instant. Utilisez ♡ sur une fiche pour en ajouter un.',
+  'collectionPage.emptyRated': 'Vous n’avez encore rien noté. Choisissez une note dans le menu Noter d’une fiche.',
+  'collectionPage.emptySeen': 'Rien n’est marqué comme vu pour l’instant. Utilisez ✓ sur une fiche.',
+  'collectionPage.loading': 'Chargement de votre collection…',
+  'collectionPage.loadError': 'Impossible de charger votre collection',
+  'collectionPage.unknownError': 'Erreur inconnue.',
+
+  'transfer.export': 'Exporter cette liste :',
+  'transfer.import': 'Importer :',
+  'transfer.format': 'Format d’import',
+  'transfer.formatJson': 'JSON',
+  'transfer.formatCsv': 'CSV',
+  'transfer.formatLetterboxd': 'CSV Letterboxd',
+  'transfer.submit': 'Importer',
+  'transfer.submitting': 'Import en cours…',
+  'transfer.failed': 'L’import a échoué.',
+  'transfer.report': {
+    one: '{imported} importée sur {count} ligne ({matched} trouvée sur TMDB).',
+    other: '{imported} importées sur {count} lignes ({matched} trouvées sur TMDB).',
+  },
+  'transfer.row': 'Ligne {row} :',
+  'transfer.candidates': 'Candidats : {titles}',
+  'transfer.ambiguous': 'Ambiguës',
+  'transfer.unmatched': 'Introuvables',
+  'transfer.invalid': 'Lignes invalides',
+};
@@ -0,0 +1,103 @@
+// src/lib/metrics.ts
+
+// In-process counters and histograms, rendered for /api/metrics in the
+// Prometheus text exposition format. Values live in process memory, so each
+// server instance reports its own and they reset on restart.
+
+type Labels = Record<string, string>;
+
+// Latency buckets in seconds, from cache hits to slow LLM calls
+const DURATION_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30];
+
+// Label sets are stored under a stable key: the rendered `{a="1",b="2"}` part
+const escapeLabel = (value: string): string => value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+
+const labelKey = (labels: Labels): string => {
+  const pairs = Object.keys(labels).sort().map(name => `${name}="${escapeLabel(labels[name])}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+};
+
+// Adds one more label to an already rendered label set
+const withLabel = (key: string, name: string, value: string): string =>
+  key ? `${key.slice(0, -1)},${name}="${value}"}` : `{${name}="${value}"}`;
+
+const formatValue = (value: number): string =>
+  value === Infinity ? '+Inf' : Number.isInteger(value) ? String(value) : String(Number(value.toPrecision(12)));
+
+export class Counter {
+  private values = new Map<string, number>();
+
+  constructor(readonly name: string, readonly help: string) {}
+
+  inc(labels: Labels = {}, amount = 1) {
+    const key = labelKey(labels);
+    this.values.set(key, (this.values.get(key) ?? 0) + amount);
+  }
+
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} counter`,
+      ...Array.from(this.values, ([key, value]) => `${this.name}${key} ${formatValue(value)}`),
+    ];
+  }
+}
+
+export class Histogram {
+  private series = new Map<string, { buckets: number[]; sum: number; count: number }>();
+
+  constructor(readonly name: string, readonly help: string, readonly bounds: number[] = DURATION_BUCKETS) {}
+
+  observe(labels: Labels, value: number) {
+    const key = labelKey(labels);
+    const series = this.series.get(key) ?? { buckets: this.bounds.map(() => 0), sum: 0, count: 0 };
+    this.bounds.forEach((bound, i) => {
+      if (value <= bound) series.buckets[i]++;
+    });
+    series.sum += value;
+    series.count++;
+    this.series.set(key, series);
+  }
+
+  render(): string[] {
+    const lines = [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} histogram`];
+    this.series.forEach((series, key) => {
+      this.bounds.forEach((bound, i) => {
+        lines.push(`${this.name}_bucket${withLabel(key, 'le', formatValue(bound))} ${series.buckets[i]}`);
+      });
+      lines.push(`${this.name}_bucket${withLabel(key, 'le', '+Inf')} ${series.count}`);
+      lines.push(`${this.name}_sum${key} ${formatValue(series.sum)}`);
+      lines.push(`${this.name}_count${key} ${series.count}`);
+    });
+    return lines;
+  }
+}
+
+const createMetrics = () => ({
+  httpRequests: new Counter('http_requests_total', 'API requests handled, by route, method and status.'),
+  httpDuration: new Histogram('http_request_duration_seconds', 'API request latency in seconds, by route.'),
+  rateLimited: new Counter('rate_limited_requests_total', 'Requests rejected by a rate limit, by limit.'),
+  cacheLookups: new Counter('tmdb_cache_lookups_total', 'TMDB response cache lookups, by TMDB route and result (hit or miss).'),
+  upstreamRequests: new Counter('tmdb_upstream_requests_total', 'Calls to TMDB including retries, by TMDB route and status ("network_error" when there was no response).'),
+  upstreamDuration: new Histogram('tmdb_upstream_duration_seconds', 'TMDB call latency in seconds, by TMDB route.'),
+  upstreamErrors: new Counter('tmdb_upstream_errors_total', 'TMDB requests that failed after retries, by TMDB route and status.'),
+  parserCalls: new Counter('search_parser_calls_total', 'Search parser calls, by provider and outcome (ok or error).'),
+  parserDuration: new Histogram('search_parser_duration_seconds', 'Search parser latency in seconds, by provider; gemini and openai are LLM calls.'),
+  parserFallbacks: new Counter('search_parser_fallbacks_total', 'Searches the rule-based parser handled instead of the configured LLM, by provider and reason.'),
+});
+
+// Next.js may load this module once per API route bundle; one registry per
+// process lets /api/metrics see what every route recorded
+const globalStore = globalThis as { __metrics?: ReturnType<typeof createMetrics> };
+
+export const metrics = (globalStore.__metrics ??= createMetrics());
+
+/**
+ * Renders every metric in the Prometheus text format (version 0.0.4).
+ */
+export function renderMetrics(): string {
+  return `${Object.values(metrics).flatMap(metric => metric.render()).join('\n')}\n`;
+}
+
+// Seconds elapsed since a performance.now() reading
+export const secondsSince = (start: number): number => (performance.now() - start) / 1000;
@@ -0,0 +1,110 @@
+// src/lib/movies.ts
+
+// The movie, TV and person shapes the pages and cards render: TMDB list items
+// (see tmdb-types) tagged with their media type and, for ranked lists, a match.
+// The browser-side fetchers live in tmdb-client.
+
+import type { TmdbMovie, TmdbPerson, TmdbTvShow } from '@/lib/tmdb-types';
+
+// Ranking details hybrid search and the "For You" recommendations attach to each result
+export interface SearchMatch {
+  // Higher ranks first
+  score: number;
+  // Which query returned the item: the parsed filters or the text search for
+  // hybrid search; the taste-profile discover or a liked movie's recommendations for "For You"
+  foundBy: ('filters' | 'text' | 'taste' | 'similar')[];
+  reasons: string[];
+}
+
+export interface Movie extends TmdbMovie {
+  // Only present on hybrid search and recommendation results
+  match?: SearchMatch;
+}
+
+export type MovieList = Movie[];
+
+export interface TvShow extends TmdbTvShow {
+  // Only present on tv/{id} details, not on list endpoints
+  number_of_seasons?: number;
+  // Only present on hybrid search results
+  match?: SearchMatch;
+}
+
+export interface Person extends Omit<TmdbPerson, 'known_for'> {
+  known_for?: MediaItem[];
+}
+
+export type MediaType = 'movie' | 'tv' | 'person';
+
+// Every list item is tagged with its media type so cards and dedupe can tell
+// a movie and a show with the same numeric id apart
+export type MediaItem =
+  | (Movie & { media_type: 'movie' })
+  | (TvShow & { media_type: 'tv' })
+  | (Person & { media_type: 'person' });
+
+export type MediaList = MediaItem[];
+
+// One page of a TMDB list as returned through the proxy
+export interface MediaPage {
+  results: MediaList;
+  page: number;
+  totalPages: number;
+  totalResults: number;
+}
+
+// Define the shape of the structured query used for the proxy
+export interface TmdbQueryParams {
+  path: string;
+  query?: string;
+  with_genres?: string;
+  'vote_average.gte'?: string;
+  'primary_release_year'?: string;
+  'first_air_date_year'?: string;
+  sort_by?: string;
+  page?: string;
+  append_to_response?: string;
+  // Any other parameter of the route, e.g. 'with_runtime.gte' or 'with_cast'
+  [param: string]: string | undefined;
+}
+
+// What the detail page appends to movie/{id}
+export const MOVIE_DETAIL_APPENDS = 'credits,videos,release_dates,watch/providers,recommendations';
+
+// The home page lists, rendered on the server and paged further in the browser
+export const TRENDING_QUERY: TmdbQueryParams = { path: 'trending/movie/day' };
+export const POPULAR_QUERY: TmdbQueryParams = { path: 'movie/popular' };
+
+// Movie and TV endpoints omit media_type on their items; infer it from the path.
+// Mixed endpoints (search/multi, trending/all) return it on every item.
+export const mediaTypeForPath = (path: string): MediaType | null => {
+  if (path === 'search/multi' || path.startsWith('trending/all')) return null;
+  if (/^(search|discover|trending)\/tv\b/.test(path) || path.startsWith('tv/')) return 'tv';
+  if (path === 'search/person' || path.startsWith('person/')) return 'person';
+  return 'movie';
+};
+
+const isMediaType = (value: unknown): value is MediaType =>
+  value === 'movie' || value === 'tv' || value === 'person';
+
+// A TMDB list response (or a ranked list in the same shape) before toMediaPage
+export type RawPage = { results?: unknown; page?: unknown; total_pages?: unknown; total_results?: unknown };
+
+// Tags every item with its media type and normalises the paging metadata
+export const toMediaPage = (data: RawPage, path: string): MediaPage => {
+  const fallbackType = mediaTypeForPath(path);
+  const rawResults: Record<string, unknown>[] = data.results && Array.isArray(data.results) ? data.results : [];
+  const results = rawResults.flatMap((raw): MediaList => {
+    const mediaType = isMediaType(raw.media_type) ? raw.media_type : fallbackType;
+    return mediaType ? [{ ...raw, media_type: mediaType } as MediaItem] : [];
+  });
+
+  return {
+    results,
+    page: typeof data.page === 'number' ? data.page : 1,
+    totalPages: typeof data.total_pages === 'number' ? data.total_pages : 1,
+    totalResults: typeof data.total_results === 'number' ? data.total_results : results.length,
+  };
+};
+
+export const mediaKey = (item: MediaItem): string => `${item.media_type}-${item.id}`;
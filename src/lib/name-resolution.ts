@@ -0,0 +1,157 @@
+// src/lib/name-resolution.ts
+
+// Turns the human-readable names produced by the search parser (genre names,
+// people, keyword phrases) into the numeric TMDB ids that discover/* expects.
+
+import { createEntry, MemoryLruStore } from '@/lib/response-cache';
+import { logger } from '@/lib/logger';
+import { tmdbGet } from '@/lib/tmdb-server';
+
+export type MatchMode = 'and' | 'or';
+
+// Names extracted from a query, before resolution
+export interface NamedFilters {
+  genres?: string[];
+  cast?: string[]; // actors
+  crew?: string[]; // directors, writers, composers...
+  keywords?: string[]; // themes such as "heist" or "time loop"
+  // How several values of the same filter combine: 'and' -> '1,2', 'or' -> '1|2'
+  match?: MatchMode;
+}
+
+export interface ResolvedName {
+  kind: 'genre' | 'cast' | 'crew' | 'keyword';
+  name: string;
+  id: number;
+  // The TMDB name the input was matched to, e.g. 'Science Fiction' for 'sci-fi'
+  matchedName: string;
+}
+
+export interface NameResolution {
+  params: Record<string, string>;
+  resolved: ResolvedName[];
+  unresolved: { kind: ResolvedName['kind']; name: string }[];
+}
+
+interface NamedResult {
+  id: number;
+  name: string;
+}
+
+// Resolved ids change rarely, so they are kept far longer than raw search responses
+const RESOLUTION_TTL_SECONDS = 24 * 60 * 60;
+const resolutionCache = new MemoryLruStore(1000);
+
+// Common spellings that do not appear verbatim in TMDB's genre list
+const GENRE_SYNONYMS: Record<string, string[]> = {
+  'science fiction': ['sci-fi', 'scifi', 'sci fi', 'sf'],
+  'romance': ['romantic', 'rom-com', 'romcom'],
+  'comedy': ['comedies', 'funny'],
+  'horror': ['scary', 'slasher'],
+  'thriller': ['thrillers', 'suspense'],
+  'animation': ['animated', 'cartoon', 'cartoons'],
+  'documentary': ['documentaries', 'doc', 'docs'],
+  'crime': ['heist', 'gangster', 'mob'],
+  'war': ['war movies'],
+  'family': ['kids', 'children'],
+  'music': ['musical', 'musicals'],
+  'western': ['westerns', 'cowboy'],
+  'action & adventure': ['action', 'adventure'],
+  'sci-fi & fantasy': ['sci-fi', 'science fiction', 'fantasy'],
+  'war & politics': ['war', 'politics', 'political'],
+};
+
+const normalise = (value: string): string => value.toLowerCase().replace(/\s+/g, ' ').trim();
+
+const matchesGenre = (genreName: string, wanted: string): boolean => {
+  const genre = normalise(genreName);
+  if (genre === wanted) return true;
+  return (GENRE_SYNONYMS[genre] ?? []).includes(wanted);
+};
+
+async function cached(key: string, load: () => Promise<NamedResult | null>): Promise<NamedResult | null> {
+  const hit = await resolutionCache.get(key);
+  if (hit) return JSON.parse(hit.body) as NamedResult | null;
+
+  const value = await load();
+  await resolutionCache.set(key, createEntry(JSON.stringify(value), RESOLUTION_TTL_SECONDS));
+  return value;
+}
+
+function resolveGenre(mediaType: 'movie' | 'tv', name: string): Promise<NamedResult | null> {
+  const wanted = normalise(name);
+  return cached(`genre:${mediaType}:${wanted}`, async () => {
+    const { genres } = await tmdbGet(`genre/${mediaType}/list`);
+    // Exact names win over synonyms ('war' is both a movie genre and part of 'War & Politics')
+    return genres.find(g => normalise(g.name) === wanted) ?? genres.find(g => matchesGenre(g.name, wanted)) ?? null;
+  });
+}
+
+function resolvePerson(name: string): Promise<NamedResult | null> {
+  const wanted = normalise(name);
+  return cached(`person:${wanted}`, async () => {
+    const { results } = await tmdbGet('search/person', { query: name });
+    // TMDB orders person results by popularity; prefer an exact name match among them
+    return results.find(p => normalise(p.name) === wanted) ?? results[0] ?? null;
+  });
+}
+
+function resolveKeyword(phrase: string): Promise<NamedResult | null> {
+  const wanted = normalise(phrase);
+  return cached(`keyword:${wanted}`, async () => {
+    const { results } = await tmdbGet('search/keyword', { query: phrase });
+    return results.find(k => normalise(k.name) === wanted) ?? results[0] ?? null;
+  });
+}
+
+/**
+ * Resolves every name in `filters` and returns discover/* params for the ones
+ * that matched. TV discover has no cast/crew filters, so people are reported
+ * as unresolved for TV queries. Lookup failures never throw; the name is
+ * simply reported as unresolved.
+ */
+export async function resolveNamedFilters(mediaType: 'movie' | 'tv', filters: NamedFilters): Promise<NameResolution> {
+  const separator = filters.match === 'or' ? '|' : ',';
+  const resolution: NameResolution = { params: {}, resolved: [], unresolved: [] };
+
+  const groups: { kind: ResolvedName['kind']; param: string; names: string[]; lookup: (name: string) => Promise<NamedResult | null> }[] = [
+    { kind: 'genre', param: 'with_genres', names: filters.genres ?? [], lookup: name => resolveGenre(mediaType, name) },
+    { kind: 'keyword', param: 'with_keywords', names: filters.keywords ?? [], lookup: resolveKeyword },
+    { kind: 'cast', param: 'with_cast', names: mediaType === 'movie' ? filters.cast ?? [] : [], lookup: resolvePerson },
+    { kind: 'crew', param: 'with_crew', names: mediaType === 'movie' ? filters.crew ?? [] : [], lookup: resolvePerson },
+  ];
+
+  if (mediaType === 'tv') {
+    [...(filters.cast ?? []), ...(filters.crew ?? [])].forEach(name => {
+      resolution.unresolved.push({ kind: filters.cast?.includes(name) ? 'cast' : 'crew', name });
+    });
+  }
+
+  await Promise.all(groups.map(async group => {
+    const names = Array.from(new Set(group.names.map(n => n.trim()).filter(Boolean)));
+    const matches = await Promise.all(names.map(async name => {
+      try {
+        return { name, match: await group.lookup(name) };
+      } catch (error) {
+        logger.warn('Could not resolve a named filter', { kind: group.kind, name, error });
+        return { name, match: null };
+      }
+    }));
+
+    const ids: number[] = [];
+    matches.forEach(({ name, match }) => {
+      if (!match) {
+        resolution.unresolved.push({ kind: group.kind, name });
+        return;
+      }
+      if (!ids.includes(match.id)) ids.push(match.id);
+      resolution.resolved.push({ kind: group.kind, name, id: match.id, matchedName: match.name });
+    });
+
+    if (ids.length > 0) {
+      resolution.params[group.param] = ids.join(separator);
+    }
+  }));
+
+  return resolution;
+}
@@ -0,0 +1,57 @@
+// src/lib/observability.ts
+
+// Wraps an API route so every request gets a request id, a structured
+// completion log line and request metrics. The id comes from the client's
+// X-Request-Id header when it sends a usable one (the page sends the same id
+// with a search's parser and result calls), otherwise it is generated; either
+// way it is echoed in the X-Request-Id response header.
+
+import { randomUUID } from 'crypto';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { sendApiError } from '@/lib/api-error';
+import { logger, runWithRequestContext } from '@/lib/logger';
+import { metrics, secondsSince } from '@/lib/metrics';
+
+export const REQUEST_ID_HEADER = 'X-Request-Id';
+
+// Client ids are echoed into headers and logs, so only plain tokens are accepted
+const REQUEST_ID = /^[A-Za-z0-9._:-]{8,128}$/;
+
+const readRequestId = (header: string | string[] | undefined): string => {
+  const value = Array.isArray(header) ? header[0] : header;
+  return value && REQUEST_ID.test(value) ? value : randomUUID();
+};
+
+type ApiHandler<T> = (req: NextApiRequest, res: NextApiResponse<T>) => unknown | Promise<unknown>;
+
+/**
+ * Runs `handler` inside a request context for `route`. An exception the
+ * handler did not handle is logged and answered with a 500 internal error.
+ */
+export function withObservability<T>(route: string, handler: ApiHandler<T>) {
+  return async (req: NextApiRequest, res: NextApiResponse<T>) => {
+    const requestId = readRequestId(req.headers['x-request-id']);
+    const start = performance.now();
+    res.setHeader(REQUEST_ID_HEADER, requestId);
+
+    await runWithRequestContext({ requestId, route }, async () => {
+      try {
+        await handler(req, res);
+      } catch (error) {
+        logger.error('Unhandled API route error', { error });
+        if (!res.headersSent) sendApiError(res, 500, { kind: 'internal', message: 'Internal server error.' });
+      }
+
+      const seconds = secondsSince(start);
+      const status = String(res.statusCode);
+      metrics.httpRequests.inc({ route, method: req.method ?? 'UNKNOWN', status });
+      metrics.httpDuration.observe({ route }, seconds);
+      logger.info('API request completed', {
+        method: req.method,
+        path: req.url?.split('?')[0],
+        status: res.statusCode,
+        durationMs: Math.round(seconds * 1000),
+      });
+    });
+  };
+}
@@ -0,0 +1,168 @@
+// src/lib/rate-limit.ts
+
+// Per-client token buckets for the API routes, plus the separate budget that
+// guards LLM calls. Buckets live in process memory, so limits apply per
+// server instance. Each limit can be overridden from the environment as
+// RATE_LIMIT_<NAME>=<requests>/<seconds>, e.g. RATE_LIMIT_TMDB_PROXY=300/60;
+// RATE_LIMITS_DISABLED=1 turns every limit off.
+
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { sendApiError } from '@/lib/api-error';
+import { logger } from '@/lib/logger';
+import { metrics } from '@/lib/metrics';
+
+export type RateLimitName =
+  | 'tmdb-proxy'
+  | 'ai-search-parser'
+  | 'hybrid-search'
+  | 'recommendations'
+  | 'collections'
+  | 'collections-import'
+  | 'llm'
+  | 'llm-global';
+
+// `capacity` requests in a burst, refilled evenly over `windowSeconds`
+export interface RateLimitRule {
+  capacity: number;
+  windowSeconds: number;
+}
+
+export const DEFAULT_RATE_LIMITS: Record<RateLimitName, RateLimitRule> = {
+  'tmdb-proxy': { capacity: 120, windowSeconds: 60 },
+  'ai-search-parser': { capacity: 30, windowSeconds: 60 },
+  'hybrid-search': { capacity: 60, windowSeconds: 60 },
+  'recommendations': { capacity: 20, windowSeconds: 60 },
+  'collections': { capacity: 120, windowSeconds: 60 },
+  // Every imported row costs TMDB lookups
+  'collections-import': { capacity: 5, windowSeconds: 600 },
+  // LLM calls per client, and across all clients together
+  'llm': { capacity: 10, windowSeconds: 300 },
+  'llm-global': { capacity: 300, windowSeconds: 3600 },
+};
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  // Seconds until the next request would be allowed; 0 when allowed
+  retryAfterSeconds: number;
+}
+
+// Buckets kept per limiter; past this, full ones and then the least recently used go
+const MAX_TRACKED_CLIENTS = 10_000;
+
+export class TokenBucketLimiter {
+  private buckets = new Map<string, { tokens: number; updatedAt: number }>();
+
+  constructor(readonly rule: RateLimitRule, private readonly maxClients = MAX_TRACKED_CLIENTS) {}
+
+  private get refillPerMs(): number {
+    return this.rule.capacity / (this.rule.windowSeconds * 1000);
+  }
+
+  // Takes one token for `key` if there is one
+  take(key: string, now = Date.now()): RateLimitResult {
+    const { capacity } = this.rule;
+    const bucket = this.buckets.get(key) ?? { tokens: capacity, updatedAt: now };
+    const tokens = Math.min(capacity, bucket.tokens + (now - bucket.updatedAt) * this.refillPerMs);
+    const allowed = tokens >= 1;
+    const left = allowed ? tokens - 1 : tokens;
+
+    // Re-insert so the map stays ordered by last use
+    this.buckets.delete(key);
+    this.buckets.set(key, { tokens: left, updatedAt: now });
+    if (this.buckets.size > this.maxClients) this.prune(now);
+
+    return {
+      allowed,
+      limit: capacity,
+      remaining: Math.floor(left),
+      retryAfterSeconds: allowed ? 0 : Math.ceil((1 - left) / this.refillPerMs / 1000),
+    };
+  }
+
+  // Drops buckets that have refilled completely, since they behave like new
+  // ones, then the least recently used until the map is back under the cap
+  private prune(now: number) {
+    this.buckets.forEach((bucket, key) => {
+      if (bucket.tokens + (now - bucket.updatedAt) * this.refillPerMs >= this.rule.capacity) this.buckets.delete(key);
+    });
+    for (const key of this.buckets.keys()) {
+      if (this.buckets.size <= this.maxClients) break;
+      this.buckets.delete(key);
+    }
+  }
+}
+
+const parseRule = (value: string | undefined, fallback: RateLimitRule): RateLimitRule => {
+  const match = value ? /^\s*(\d+)\s*\/\s*(\d+)\s*$/.exec(value) : null;
+  if (!match || Number(match[1]) < 1 || Number(match[2]) < 1) {
+    if (value) logger.warn('Ignoring malformed rate limit; expected <requests>/<seconds>', { value });
+    return fallback;
+  }
+  return { capacity: Number(match[1]), windowSeconds: Number(match[2]) };
+};
+
+const limiters = new Map<RateLimitName, TokenBucketLimiter>();
+
+// Limits are read from the environment once per process
+function getLimiter(name: RateLimitName): TokenBucketLimiter {
+  let limiter = limiters.get(name);
+  if (!limiter) {
+    const envName = `RATE_LIMIT_${name.toUpperCase().replace(/-/g, '_')}`;
+    limiter = new TokenBucketLimiter(parseRule(process.env[envName], DEFAULT_RATE_LIMITS[name]));
+    limiters.set(name, limiter);
+  }
+  return limiter;
+}
+
+const rateLimitsDisabled = (): boolean => process.env.RATE_LIMITS_DISABLED === '1';
+
+/**
+ * Identifies the caller by IP address. X-Forwarded-For is only trusted when
+ * TRUST_PROXY=1, since any client can send it.
+ */
+export function clientKey(req: NextApiRequest): string {
+  const forwarded = req.headers['x-forwarded-for'];
+  if (process.env.TRUST_PROXY === '1' && forwarded) {
+    const first = (Array.isArray(forwarded) ? forwarded[0] : forwarded).split(',')[0].trim();
+    if (first) return first;
+  }
+  return req.socket?.remoteAddress ?? 'unknown';
+}
+
+/**
+ * Takes a token from the caller's bucket for `name`. Sets the X-RateLimit
+ * headers and, when the bucket is empty, answers 429 with Retry-After.
+ * Returns false when the request was rejected and must not be handled further.
+ */
+export function enforceRateLimit(req: NextApiRequest, res: NextApiResponse, name: RateLimitName): boolean {
+  if (rateLimitsDisabled()) return true;
+
+  const result = getLimiter(name).take(clientKey(req));
+  res.setHeader('X-RateLimit-Limit', String(result.limit));
+  res.setHeader('X-RateLimit-Remaining', String(result.remaining));
+  if (result.allowed) return true;
+
+  metrics.rateLimited.inc({ limit: name });
+  sendApiError(res, 429, {
+    kind: 'rate_limited',
+    message: `Too many requests. Try again in ${result.retryAfterSeconds} seconds.`,
+    retryAfterSeconds: result.retryAfterSeconds,
+  });
+  return false;
+}
+
+/**
+ * Takes one LLM call from the caller's budget and from the budget shared by
+ * all callers. The caller's bucket goes first so one client running dry does
+ * not also drain the shared budget.
+ */
+export function takeLlmBudget(req: NextApiRequest): RateLimitResult {
+  const unlimited: RateLimitResult = { allowed: true, limit: Infinity, remaining: Infinity, retryAfterSeconds: 0 };
+  if (rateLimitsDisabled()) return unlimited;
+
+  const client = getLimiter('llm').take(clientKey(req));
+  if (!client.allowed) return client;
+  return getLimiter('llm-global').take('global');
+}
@@ -0,0 +1,162 @@
+// src/lib/recommendations.ts
+
+// "For You": loads the features of the movies a device saved, rated or opened,
+// builds a taste profile from them and fetches candidates through the TMDB
+// route registry (a profile-driven discover/movie plus movie/{id}/recommendations
+// for the favourite seeds). Ranking itself lives in taste-profile.
+
+import type { CollectionEntry, MovieView } from '@/lib/collections';
+import { DEFAULT_LOCALE, Locale } from '@/lib/locale';
+import { logger } from '@/lib/logger';
+import type { SearchMatch } from '@/lib/movies';
+import {
+  buildTasteProfile,
+  CandidateSources,
+  dislikedFeatures,
+  rankCandidates,
+  signalWeight,
+  topFeatures,
+  WeightedSeed,
+  yearOf,
+} from '@/lib/taste-profile';
+import { tmdbGet } from '@/lib/tmdb-server';
+import type { TmdbMovie } from '@/lib/tmdb-types';
+
+// History movies whose details are loaded for the profile
+const MAX_SEEDS = 8;
+// Seeds whose own recommendations become candidates
+const SIMILAR_SEEDS = 3;
+// Actors in each seed that count towards the profile
+const CAST_PER_SEED = 5;
+// Results per page
+const RECOMMENDATIONS_PAGE_SIZE = 20;
+// Ranked results are served in at most this many pages
+export const MAX_RECOMMENDATION_PAGES = 3;
+
+export interface RecommendationPage {
+  page: number;
+  results: (TmdbMovie & { media_type: 'movie'; match: SearchMatch })[];
+  total_pages: number;
+  total_results: number;
+  // What the profile is built from; null when the history has no positive signal yet
+  profile: { seeds: string[]; genres: string[] } | null;
+}
+
+const emptyPage = (page: number): RecommendationPage => ({ page, results: [], total_pages: 0, total_results: 0, profile: null });
+
+// Movie ids with their taste weight, strongest signal first
+function historySignals(entries: CollectionEntry[], views: MovieView[]): { id: number; weight: number }[] {
+  const viewed = new Set(views.map(view => view.id));
+  const flags = new Map(entries.filter(entry => entry.media_type === 'movie').map(entry => [entry.id, entry]));
+  const ids = Array.from(new Set([...flags.keys(), ...viewed]));
+
+  return ids
+    .map(id => ({ id, weight: signalWeight(flags.get(id), viewed.has(id)) }))
+    .filter(signal => signal.weight !== 0)
+    .sort((a, b) => Math.abs(b.weight) - Math.abs(a.weight) || a.id - b.id);
+}
+
+async function loadSeeds(signals: { id: number; weight: number }[], locale: Locale): Promise<WeightedSeed[]> {
+  const loaded = await Promise.allSettled(signals.slice(0, MAX_SEEDS).map(async ({ id, weight }): Promise<WeightedSeed> => {
+    const details = await tmdbGet(`movie/${id}`, { append_to_response: 'credits,keywords' }, locale);
+    return {
+      weight,
+      movie: {
+        id: details.id,
+        title: details.title,
+        genreIds: details.genres.map(genre => genre.id),
+        keywordIds: (details.keywords?.keywords ?? []).map(keyword => keyword.id),
+        castIds: (details.credits?.cast ?? []).filter(member => member.order < CAST_PER_SEED).map(member => member.id),
+        year: yearOf(details.release_date),
+      },
+    };
+  }));
+
+  return loaded.flatMap((result) => {
+    if (result.status === 'fulfilled') return [result.value];
+    logger.warn('Recommendations: could not load a history movie', { error: result.reason });
+    return [];
+  });
+}
+
+/**
+ * Ranks movies for a device's history and returns one page of them. Titles in
+ * the collection (marked seen, rated, favourited or on the watchlist) are left
+ * out; movies that were only opened stay eligible, since opening a detail page
+ * is interest rather than having watched it. A history
+ * without positive signals returns an empty page; candidate queries that fail
+ * are skipped and only throw when every one of them failed. Titles, genre
+ * names and reasons come back in `locale`.
+ */
+export async function getRecommendations(
+  entries: CollectionEntry[],
+  views: MovieView[],
+  page = 1,
+  locale: Locale = DEFAULT_LOCALE,
+): Promise<RecommendationPage> {
+  const seeds = await loadSeeds(historySignals(entries, views), locale);
+  const profile = buildTasteProfile(seeds);
+  if (profile.seeds.length === 0) return emptyPage(page);
+
+  const genres = topFeatures(profile.genres, 2);
+  const castIds = topFeatures(profile.cast, 3);
+  const keywordIds = topFeatures(profile.keywords, 3);
+  const dislikedGenres = dislikedFeatures(profile.genres);
+  const similarSeeds = profile.seeds.slice(0, SIMILAR_SEEDS).map(seed => seed.movie.id);
+
+  const discover = (filters: Record<string, string>) => tmdbGet('discover/movie', {
+    ...filters,
+    without_genres: dislikedGenres.length > 0 ? dislikedGenres.join(',') : undefined,
+    sort_by: 'popularity.desc',
+    'vote_count.gte': '100',
+  }, locale);
+
+  const [tasteResult, castResult, keywordResult, genreList, ...similarResults] = await Promise.allSettled([
+    genres.length > 0 ? discover({ with_genres: genres.join('|') }) : Promise.resolve({ results: [] }),
+    castIds.length > 0 ? discover({ with_cast: castIds.join('|') }) : Promise.resolve({ results: [] }),
+    keywordIds.length > 0 ? discover({ with_keywords: keywordIds.join('|') }) : Promise.resolve({ results: [] }),
+    tmdbGet('genre/movie/list', {}, locale),
+    ...similarSeeds.map(id => tmdbGet(`movie/${id}/recommendations`, {}, locale)),
+  ]);
+
+  const candidateResults = [tasteResult, castResult, keywordResult, ...similarResults];
+  if (candidateResults.every(result => result.status === 'rejected')) {
+    throw (candidateResults[0] as PromiseRejectedResult).reason;
+  }
+
+  const candidates = new Map<number, { movie: TmdbMovie; sources: CandidateSources }>();
+  const add = (result: PromiseSettledResult<{ results: TmdbMovie[] }>, mark: (sources: CandidateSources) => void) => {
+    if (result.status === 'rejected') {
+      logger.warn('Recommendations: a candidate query failed', { error: result.reason });
+      return;
+    }
+    result.value.results.forEach((movie) => {
+      const candidate = candidates.get(movie.id)
+        ?? { movie, sources: { taste: false, castIds: [], keywordIds: [], similarTo: [] } };
+      mark(candidate.sources);
+      candidates.set(movie.id, candidate);
+    });
+  };
+
+  add(tasteResult, (sources) => { sources.taste = true; });
+  add(castResult, (sources) => { sources.castIds = castIds; });
+  add(keywordResult, (sources) => { sources.keywordIds = keywordIds; });
+  similarResults.forEach((result, i) => add(result, (sources) => { sources.similarTo.push(similarSeeds[i]); }));
+
+  const genreNames = new Map(genreList.status === 'fulfilled' ? genreList.value.genres.map(g => [g.id, g.name]) : []);
+  // Anything already in the collection is known to the user; viewed-only movies stay eligible
+  const excluded = new Set(entries.filter(entry => entry.media_type === 'movie').map(entry => entry.id));
+  const ranked = rankCandidates(Array.from(candidates.values()), profile, excluded, genreNames, locale).slice(0, MAX_RECOMMENDATION_PAGES * RECOMMENDATIONS_PAGE_SIZE);
+
+  const start = (page - 1) * RECOMMENDATIONS_PAGE_SIZE;
+  return {
+    page,
+    results: ranked.slice(start, start + RECOMMENDATIONS_PAGE_SIZE).map(({ movie, match }) => ({ ...movie, media_type: 'movie', match })),
+    total_pages: Math.ceil(ranked.length / RECOMMENDATIONS_PAGE_SIZE),
+    total_results: ranked.length,
+    profile: {
+      seeds: profile.seeds.slice(0, SIMILAR_SEEDS).map(seed => seed.movie.title),
+      genres: genres.map(id => genreNames.get(id) ?? `#${id}`),
+    },
+  };
+}
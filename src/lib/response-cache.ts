@@ -0,0 +1,155 @@
+// src/lib/response-cache.ts
+
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { logger } from '@/lib/logger';
+
+// A cached upstream response. The body is kept as the raw JSON text so it can
+// be written back to the client byte-for-byte and hashed into a stable ETag.
+export interface CacheEntry {
+  body: string;
+  etag: string;
+  storedAt: number;
+  expiresAt: number;
+}
+
+// Minimal contract every cache backend implements
+export interface CacheStore {
+  get(key: string): Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+}
+
+export function createEntry(body: string, ttlSeconds: number): CacheEntry {
+  const now = Date.now();
+  return {
+    body,
+    etag: `"${createHash('sha1').update(body).digest('base64url')}"`,
+    storedAt: now,
+    expiresAt: now + ttlSeconds * 1000,
+  };
+}
+
+function isExpired(entry: CacheEntry): boolean {
+  return entry.expiresAt <= Date.now();
+}
+
+/**
+ * In-memory LRU store. A Map keeps insertion order, so re-inserting on every
+ * read moves an entry to the "most recent" end and the first key is the
+ * least recently used one.
+ */
+export class MemoryLruStore implements CacheStore {
+  private entries = new Map<string, CacheEntry>();
+
+  constructor(private readonly maxEntries = 500) {}
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+
+    this.entries.delete(key);
+    if (isExpired(entry)) return undefined;
+
+    this.entries.set(key, entry);
+    return entry;
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+
+    while (this.entries.size > this.maxEntries) {
+      const oldestKey = this.entries.keys().next().value;
+      if (oldestKey === undefined) break;
+      this.entries.delete(oldestKey);
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    this.entries.delete(key);
+  }
+}
+
+/**
+ * File-backed store, one JSON file per key. Useful when the cache should
+ * survive dev-server restarts. Read/write failures are treated as misses.
+ */
+export class FileCacheStore implements CacheStore {
+  constructor(private readonly directory: string) {}
+
+  private fileFor(key: string): string {
+    return path.join(this.directory, `${createHash('sha1').update(key).digest('hex')}.json`);
+  }
+
+  async get(key: string): Promise<CacheEntry | undefined> {
+    try {
+      const entry: CacheEntry = JSON.parse(await fs.readFile(this.fileFor(key), 'utf8'));
+      if (isExpired(entry)) {
+        await this.delete(key);
+        return undefined;
+      }
+      return entry;
+    } catch {
+      return undefined;
+    }
+  }
+
+  async set(key: string, entry: CacheEntry): Promise<void> {
+    try {
+      await fs.mkdir(this.directory, { recursive: true });
+      await fs.writeFile(this.fileFor(key), JSON.stringify(entry), 'utf8');
+    } catch (error) {
+      logger.warn('Response cache write failed', { error });
+    }
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.fileFor(key), { force: true });
+  }
+}
+
+let sharedStore: CacheStore | undefined;
+
+/**
+ * Returns the process-wide cache store.
+ * Set TMDB_CACHE_STORE=file (and optionally TMDB_CACHE_DIR) to persist to disk;
+ * the default is the in-memory LRU sized by TMDB_CACHE_MAX_ENTRIES.
+ */
+export function getCacheStore(): CacheStore {
+  if (!sharedStore) {
+    if (process.env.TMDB_CACHE_STORE === 'file') {
+      sharedStore = new FileCacheStore(process.env.TMDB_CACHE_DIR || path.join(process.cwd(), '.cache', 'tmdb'));
+    } else {
+      const maxEntries = Number(process.env.TMDB_CACHE_MAX_ENTRIES);
+      sharedStore = new MemoryLruStore(Number.isInteger(maxEntries) && maxEntries > 0 ? maxEntries : undefined);
+    }
+  }
+  return sharedStore;
+}
+
+const inFlight = new Map<string, Promise<unknown>>();
+
+/**
+ * Request coalescing: concurrent callers with the same key share a single
+ * pending promise instead of each starting their own upstream call.
+ */
+export function coalesce<T>(key: string, task: () => Promise<T>): Promise<T> {
+  const pending = inFlight.get(key);
+  if (pending) return pending as Promise<T>;
+
+  const promise = task().finally(() => inFlight.delete(key));
+  inFlight.set(key, promise);
+  return promise;
+}
+
+/**
+ * Checks an If-None-Match header against an entry's ETag (handles lists,
+ * weak validators and the '*' wildcard).
+ */
+export function matchesIfNoneMatch(header: string | undefined, etag: string): boolean {
+  if (!header) return false;
+  if (header.trim() === '*') return true;
+  return header.split(',').some((candidate) => candidate.trim().replace(/^W\//, '') === etag);
+}
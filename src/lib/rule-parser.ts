@@ -0,0 +1,694 @@
+// src/lib/rule-parser.ts
+
+// Deterministic, offline natural-language query parser. It understands the
+// same query language as the LLM parser (years and decades, ratings, runtime,
+// genres, languages, release regions, people, themes and sort intents) and is
+// used whenever AI_API_KEY is missing or the LLM call fails. Besides English it
+// knows the common French, Spanish and German words for genres, media,
+// languages, countries, decades and sort orders; accents are ignored.
+
+import type { NamedFilters } from '@/lib/name-resolution';
+import type { AISearchResult, SearchSource } from '@/lib/search-query';
+
+type MediaType = 'movie' | 'tv';
+type SortIntent = 'popularity' | 'newest' | 'oldest' | 'rating' | 'votes';
+
+// Kinds of phrase a rule can consume. Year, media and language phrases are
+// "weak": on their own they are not enough to turn a title search into discover.
+type SpanKind = 'media' | 'trending' | 'people' | 'keyword' | 'date' | 'year' | 'rating' | 'runtime' | 'language' | 'region' | 'sort' | 'genre';
+const WEAK_KINDS: readonly SpanKind[] = ['media', 'year', 'language'];
+// Sort and genre words also turn up in titles ("Top Gun", "War of the Worlds"):
+// they only count when what is left of the query does not read as a title
+const SOFT_KINDS: readonly SpanKind[] = ['sort', 'genre'];
+
+// Media-independent filters collected from the query
+interface Extracted {
+  media?: MediaType;
+  trending?: 'day' | 'week';
+  year?: number;
+  dateFrom?: string;
+  dateTo?: string;
+  minRating?: number;
+  maxRating?: number;
+  minRuntime?: number;
+  maxRuntime?: number;
+  language?: string;
+  // "released in Japan": ISO 3166-1 region whose release dates count
+  releaseRegion?: string;
+  // "from Japan", "made in Japan": ISO 3166-1 production country
+  originCountry?: string;
+  sort?: SortIntent;
+  genres: string[];
+  cast: string[];
+  crew: string[];
+  keywords: string[];
+}
+
+interface ParseState {
+  original: string;
+  // Lower-cased copy of the query; consumed phrases are blanked out with
+  // spaces so indexes keep lining up with `original`
+  text: string;
+  kinds: Set<SpanKind>;
+  spans: { kind: SpanKind; start: number; end: number }[];
+  extracted: Extracted;
+  now: Date;
+}
+
+// Genre table: canonical key -> TMDB genre names per media type and the words that mean it
+// (English first, then French, Spanish and German, written without accents).
+// A null name means TMDB has no such genre for that media type.
+const GENRES: { movie: string | null; tv: string | null; words: string[] }[] = [
+  { movie: 'Action', tv: 'Action & Adventure', words: ['action', 'action-packed', 'shoot-em-up', 'accion'] },
+  { movie: 'Adventure', tv: 'Action & Adventure', words: ['adventure', 'adventures', 'swashbuckling', 'aventure', 'aventures', 'aventura', 'aventuras', 'abenteuer'] },
+  { movie: 'Animation', tv: 'Animation', words: ['animation', 'animated', 'cartoon', 'cartoons', 'anime', 'pixar', 'dessin anime', 'dessins animes', 'animacion', 'animados', 'zeichentrick'] },
+  { movie: 'Comedy', tv: 'Comedy', words: ['comedy', 'comedies', 'comedic', 'funny', 'hilarious', 'sitcom', 'sitcoms', 'comedie', 'drole', 'droles', 'comedia', 'comedias', 'komodie', 'komodien'] },
+  { movie: 'Crime', tv: 'Crime', words: ['crime', 'gangster', 'gangsters', 'mafia', 'mob', 'noir', 'policier', 'policiers', 'polar', 'polars', 'crimen', 'policiaca', 'policiacas', 'krimi', 'krimis'] },
+  { movie: 'Documentary', tv: 'Documentary', words: ['documentary', 'documentaries', 'docuseries', 'documentaire', 'documentaires', 'documental', 'documentales', 'dokumentarfilm', 'dokumentarfilme', 'doku', 'dokus'] },
+  { movie: 'Drama', tv: 'Drama', words: ['drama', 'dramas', 'dramatic', 'k-drama', 'k-dramas', 'kdrama', 'drame', 'drames', 'dramen'] },
+  { movie: 'Family', tv: 'Family', words: ['family', 'family-friendly', 'kids', 'children', 'familial', 'familiaux', 'pour enfants', 'familiar', 'familiares', 'para ninos', 'familienfilm', 'familienfilme'] },
+  { movie: 'Fantasy', tv: 'Sci-Fi & Fantasy', words: ['fantasy', 'magic', 'magical', 'fantastique', 'fantastiques', 'fantasia'] },
+  { movie: 'History', tv: null, words: ['history', 'historical', 'period', 'historique', 'historiques', 'historica', 'historicas', 'historico', 'historicos', 'historisch', 'historische', 'historischen'] },
+  { movie: 'Horror', tv: null, words: ['horror', 'scary', 'slasher', 'slashers', 'creepy', 'horreur', 'epouvante', 'terror', 'miedo'] },
+  { movie: 'Music', tv: null, words: ['music', 'musical', 'musicals', 'musique', 'musicales', 'musica', 'musik'] },
+  { movie: 'Mystery', tv: 'Mystery', words: ['mystery', 'mysteries', 'whodunit', 'whodunits', 'detective', 'mystere', 'mysteres', 'misterio', 'misterios'] },
+  { movie: 'Romance', tv: null, words: ['romance', 'romantic', 'rom-com', 'rom-coms', 'romcom', 'romcoms', 'love story', 'love stories', 'romantique', 'romantiques', 'romantica', 'romanticas', 'romantico', 'romanticos', 'romantisch', 'romantische', 'liebesfilm', 'liebesfilme'] },
+  { movie: 'Science Fiction', tv: 'Sci-Fi & Fantasy', words: ['science fiction', 'sci-fi', 'scifi', 'sci fi', 'mind-bending', 'mind bending', 'cyberpunk', 'science-fiction', 'ciencia ficcion', 'ciencia-ficcion'] },
+  { movie: 'Thriller', tv: null, words: ['thriller', 'thrillers', 'suspense', 'suspenseful', 'tense'] },
+  { movie: 'War', tv: 'War & Politics', words: ['war', 'wartime', 'military', 'guerre', 'guerra', 'krieg', 'kriegsfilm', 'kriegsfilme'] },
+  { movie: 'Western', tv: 'Western', words: ['western', 'westerns', 'cowboy', 'cowboys'] },
+  { movie: null, tv: 'Reality', words: ['reality', 'telerealite', 'telerrealidad'] },
+];
+
+// Plot themes that map to TMDB keywords rather than genres
+const THEME_KEYWORDS: Record<string, string> = {
+  'heist': 'heist', 'heists': 'heist',
+  'time travel': 'time travel',
+  'time loop': 'time loop', 'time loops': 'time loop',
+  'zombie': 'zombie', 'zombies': 'zombie',
+  'vampire': 'vampire', 'vampires': 'vampire',
+  'dystopia': 'dystopia', 'dystopian': 'dystopia',
+  'superhero': 'superhero', 'superheroes': 'superhero',
+  'serial killer': 'serial killer', 'serial killers': 'serial killer',
+  'revenge': 'revenge',
+  'robot': 'robot', 'robots': 'robot',
+  'post-apocalyptic': 'post-apocalyptic future',
+  'coming of age': 'coming of age', 'coming-of-age': 'coming of age',
+  'based on a true story': 'based on true story', 'true story': 'based on true story',
+  'outer space': 'space', 'space travel': 'space travel',
+  'alien invasion': 'alien invasion',
+};
+
+// Language names and demonyms -> ISO 639-1 codes for with_original_language
+const LANGUAGES: Record<string, string> = {
+  english: 'en', korean: 'ko', japanese: 'ja', french: 'fr', spanish: 'es',
+  german: 'de', italian: 'it', hindi: 'hi', bollywood: 'hi', tamil: 'ta',
+  telugu: 'te', chinese: 'zh', mandarin: 'zh', cantonese: 'cn', swedish: 'sv',
+  danish: 'da', norwegian: 'no', finnish: 'fi', turkish: 'tr', russian: 'ru',
+  portuguese: 'pt', brazilian: 'pt', thai: 'th', polish: 'pl', dutch: 'nl',
+  persian: 'fa', iranian: 'fa', arabic: 'ar', hebrew: 'he', greek: 'el',
+  indonesian: 'id', vietnamese: 'vi', czech: 'cs', hungarian: 'hu',
+  // French
+  anglais: 'en', francais: 'fr', espagnol: 'es', espagnols: 'es', allemand: 'de', allemands: 'de',
+  italien: 'it', italiens: 'it', japonais: 'ja', coreen: 'ko', coreens: 'ko', chinois: 'zh',
+  // Spanish
+  ingles: 'en', frances: 'fr', francesa: 'fr', francesas: 'fr', espanol: 'es', espanola: 'es', espanolas: 'es',
+  aleman: 'de', alemana: 'de', alemanas: 'de', italiano: 'it', italiana: 'it', italianas: 'it',
+  japones: 'ja', japonesa: 'ja', japonesas: 'ja', coreano: 'ko', coreana: 'ko', coreanas: 'ko', chino: 'zh', china: 'zh',
+  // German
+  englisch: 'en', franzosisch: 'fr', franzosische: 'fr', spanisch: 'es', spanische: 'es', deutsch: 'de', deutsche: 'de',
+  italienisch: 'it', italienische: 'it', japanisch: 'ja', japanische: 'ja', koreanisch: 'ko', koreanische: 'ko', chinesisch: 'zh',
+};
+
+// Country names -> ISO 3166-1 codes for release regions and production countries
+const COUNTRIES: Record<string, string> = {
+  'united states': 'US', 'usa': 'US', 'us': 'US', 'america': 'US', 'etats-unis': 'US', 'etats unis': 'US', 'estados unidos': 'US', 'amerika': 'US',
+  'united kingdom': 'GB', 'uk': 'GB', 'britain': 'GB', 'great britain': 'GB', 'england': 'GB',
+  'royaume-uni': 'GB', 'angleterre': 'GB', 'reino unido': 'GB', 'inglaterra': 'GB', 'grossbritannien': 'GB', 'england und wales': 'GB',
+  'france': 'FR', 'francia': 'FR', 'frankreich': 'FR',
+  'germany': 'DE', 'allemagne': 'DE', 'alemania': 'DE', 'deutschland': 'DE',
+  'spain': 'ES', 'espagne': 'ES', 'espana': 'ES', 'spanien': 'ES',
+  'italy': 'IT', 'italie': 'IT', 'italia': 'IT',
+  'japan': 'JP', 'japon': 'JP',
+  'south korea': 'KR', 'korea': 'KR', 'coree': 'KR', 'coree du sud': 'KR', 'corea': 'KR', 'corea del sur': 'KR', 'sudkorea': 'KR',
+  'china': 'CN', 'chine': 'CN',
+  'india': 'IN', 'inde': 'IN', 'indien': 'IN',
+  'canada': 'CA', 'kanada': 'CA',
+  'mexico': 'MX', 'mexique': 'MX', 'mexiko': 'MX',
+  'brazil': 'BR', 'bresil': 'BR', 'brasil': 'BR', 'brasilien': 'BR',
+  'australia': 'AU', 'australie': 'AU', 'australien': 'AU',
+  'sweden': 'SE', 'suede': 'SE', 'suecia': 'SE', 'schweden': 'SE',
+  'belgium': 'BE', 'belgique': 'BE', 'belgica': 'BE', 'belgien': 'BE',
+  'argentina': 'AR', 'argentine': 'AR', 'argentinien': 'AR',
+};
+
+const NUMBER_WORDS: Record<string, number> = { a: 1, an: 1, one: 1, two: 2, three: 3, four: 4 };
+
+// Words that never carry meaning on their own once the filters are extracted
+export const FILLER_WORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'of', 'with', 'from', 'in', 'on', 'for', 'to', 'by', 'at',
+  'me', 'show', 'find', 'search', 'looking', 'look', 'want', 'i', 'some', 'any', 'all',
+  'good', 'great', 'nice', 'cool', 'that', 'which', 'who', 'are', 'is', 'were', 'was', 'be',
+  'released', 'made', 'rating', 'rated', 'ratings', 'score', 'stars', 'star', 'please',
+  'something', 'like', 'watch', 'movie', 'movies', 'film', 'films', 'year', 'years',
+  'era', 'than', 'more', 'least', 'most', 'very', 'really', 'just', 'only', 'about',
+  'set', 'ones', 'one', 'stuff', 'recommend', 'recommendations', 'give', 'get',
+  // French, Spanish and German function words
+  'le', 'la', 'les', 'des', 'du', 'de', 'un', 'une', 'et', 'avec', 'sur', 'pour', 'qui', 'je', 'veux', 'bons', 'bonnes',
+  'el', 'los', 'las', 'del', 'una', 'unos', 'unas', 'y', 'con', 'sobre', 'para', 'que', 'quiero', 'buenas', 'buenos',
+  'der', 'die', 'das', 'den', 'ein', 'eine', 'und', 'mit', 'uber', 'von', 'im', 'aus', 'ich', 'gute',
+]);
+
+// A captured name or phrase ends at the next cue word, punctuation or the end of the query
+const CUE_WORDS = 'from|in|with|rated|after|before|since|under|over|about|that|which|starring|directed|set|released|or|made|between|during|avec|con|mit';
+const PHRASE_END = String.raw`(?=\s+(?:${CUE_WORDS}|and)\b|[,.;!?]|$)`;
+// Cast lists may be joined with "and" ("starring Al Pacino and Robert De Niro")
+const NAME_LIST_END = String.raw`(?=\s+(?:${CUE_WORDS})\b|[,.;!?]|$)`;
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Strips accents letter by letter, so 'comédie' reads as 'comedie' and every index
+// still lines up with the original query
+const foldAccents = (text: string): string =>
+  text.replace(/[\u00c0-\u024f]/g, letter => letter.normalize('NFD').replace(/[\u0300-\u036f]/g, '').charAt(0) || letter);
+
+const pad = (n: number): string => String(n).padStart(2, '0');
+const isoDate = (date: Date): string => `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+function record(state: ParseState, kind: SpanKind, start: number, end: number) {
+  state.text = state.text.slice(0, start) + ' '.repeat(end - start) + state.text.slice(end);
+  state.kinds.add(kind);
+  state.spans.push({ kind, start, end });
+}
+
+/**
+ * Runs `pattern` (must be global) over the unconsumed text. Whenever `handle`
+ * returns true the whole match is consumed under `kind`.
+ */
+function consume(state: ParseState, kind: SpanKind, pattern: RegExp, handle: (match: RegExpExecArray) => boolean) {
+  const matches = Array.from(state.text.matchAll(pattern));
+  matches.forEach(match => {
+    const start = match.index ?? 0;
+    // Skip overlaps with something an earlier handler in this pass consumed
+    if (state.text.slice(start, start + match[0].length).trim() !== match[0].trim()) return;
+    if (handle(match as RegExpExecArray)) {
+      record(state, kind, start, start + match[0].length);
+    }
+  });
+}
+
+// Reads the same span from the original query, keeping the user's casing for names
+const originalSlice = (state: ParseState, match: RegExpExecArray, group: number): string => {
+  const groupText = match[group];
+  const offset = (match.index ?? 0) + match[0].indexOf(groupText);
+  return state.original.slice(offset, offset + groupText.length).trim();
+};
+
+const toTitleCase = (value: string): string =>
+  value.replace(/\b([a-z])/g, letter => letter.toUpperCase());
+
+function parseMedia(state: ParseState) {
+  // "show me ..." is a request, not a TV show
+  consume(state, 'media', /\b(?:tv shows?|tv series|television|tv|shows?(?!\s+(?:me|us)\b)|series|serie|serien|feuilletons?|telenovelas?|sitcoms?|miniseries|seasons?|saisons?|temporadas?|staffeln?|episodes?|k-?dramas?|anime)\b/g, match => {
+    state.extracted.media = 'tv';
+    // These also imply a genre or language; leave those words for the later rules
+    return !/sitcom|k-?drama|anime/.test(match[0]);
+  });
+  consume(state, 'media', /\b(?:movies?|films?|flicks?|cinema|peliculas?|pelis?|cine|filme)\b/g, () => {
+    state.extracted.media = state.extracted.media ?? 'movie';
+    return true;
+  });
+  if (/\banime\b/.test(state.text)) {
+    state.extracted.language = 'ja';
+  }
+  if (/\bk-?dramas?\b/.test(state.text)) {
+    state.extracted.language = 'ko';
+  }
+}
+
+function parseTrending(state: ParseState) {
+  consume(state, 'trending', /\b(?:trending|what'?s hot|buzzing)(?:\s+(?:right\s+)?(?:now|today|this week))?/g, match => {
+    state.extracted.trending = /week/.test(match[0]) ? 'week' : 'day';
+    return true;
+  });
+}
+
+function parsePeople(state: ParseState) {
+  consume(state, 'people', new RegExp(String.raw`\b(?:directed by|director|from director|by director|realisee? par|realises par|dirigidas? por|dirigidos? por|regie)\s+([a-z][a-z.'\- ]+?)${PHRASE_END}`, 'g'), match => {
+    state.extracted.crew.push(toTitleCase(originalSlice(state, match, 1)));
+    return true;
+  });
+  consume(state, 'people', new RegExp(String.raw`\b(?:starring|featuring|feat\.?|acted by)\s+([a-z][a-z.'\- ]+?)${NAME_LIST_END}`, 'g'), match => {
+    originalSlice(state, match, 1)
+      .split(/\s+and\s+|\s*&\s*|\s+and$/)
+      .map(name => name.trim())
+      .filter(Boolean)
+      .forEach(name => state.extracted.cast.push(toTitleCase(name)));
+    return true;
+  });
+  // "with Al Pacino" only counts as a person when the user capitalised the name,
+  // otherwise "with a high rating" would be read as an actor
+  consume(state, 'people', /\b(?:with|avec|con|mit)\s+([a-z][a-z.'-]*(?:\s+[a-z][a-z.'-]*){1,3})/g, match => {
+    const name = originalSlice(state, match, 1);
+    const capitalised = name.match(/^[A-Z][\w.'-]*(?:\s+[A-Z][\w.'-]*)+/);
+    if (!capitalised) return false;
+    state.extracted.cast.push(capitalised[0]);
+    // Only consume the capitalised part; the rest of the phrase may hold other filters
+    const start = (match.index ?? 0);
+    record(state, 'people', start, start + match[0].indexOf(match[1]) + capitalised[0].length);
+    return false;
+  });
+}
+
+function parseThemes(state: ParseState) {
+  const themes = Object.keys(THEME_KEYWORDS).sort((a, b) => b.length - a.length);
+  consume(state, 'keyword', new RegExp(String.raw`\b(${themes.map(escapeRegExp).join('|')})\b`, 'g'), match => {
+    const keyword = THEME_KEYWORDS[match[1]];
+    if (!state.extracted.keywords.includes(keyword)) state.extracted.keywords.push(keyword);
+    return true;
+  });
+  // "movies about grief", "about time loops"
+  consume(state, 'keyword', new RegExp(String.raw`\babout\s+(?:a\s+|an\s+|the\s+)?(?!(?:${CUE_WORDS}|and)\b)([a-z][a-z\- ]{2,40}?)${PHRASE_END}`, 'g'), match => {
+    const phrase = match[1].trim();
+    if (!phrase) return false;
+    // Crude singular form so "time loops" matches the "time loop" keyword
+    const singular = phrase.replace(/(?<!s)s$/, '');
+    if (!state.extracted.keywords.includes(singular)) state.extracted.keywords.push(singular);
+    return true;
+  });
+}
+
+function decadeStart(century: string | undefined, decadeDigit: string): number {
+  if (century) return Number(`${century}${decadeDigit}0`);
+  // Two-digit decades: '00s-'20s are this century, everything else the last one
+  return Number(decadeDigit) <= 2 ? 2000 + Number(decadeDigit) * 10 : 1900 + Number(decadeDigit) * 10;
+}
+
+function parseDates(state: ParseState) {
+  const { extracted, now } = state;
+
+  // "early 90s", "from the 1980s", "late '70s"
+  consume(state, 'date', /\b(?:(?:from|in|during|of)\s+)?(?:the\s+)?(early|mid|late)?[\s-]*'?(19|20)?(\d)0'?s\b/g, match => {
+    const start = decadeStart(match[2], match[3]);
+    const [from, to] = match[1] === 'early' ? [start, start + 3]
+      : match[1] === 'mid' ? [start + 3, start + 6]
+      : match[1] === 'late' ? [start + 6, start + 9]
+      : [start, start + 9];
+    extracted.dateFrom = `${from}-01-01`;
+    extracted.dateTo = `${to}-12-31`;
+    return true;
+  });
+
+  // "années 80", "los años 90", "80er Jahre"
+  consume(state, 'date', /\b(?:(?:des|les|dans les|de los|de las|los|en los)\s+)?(?:annees|anos)\s+'?(19|20)?(\d)0\b|\b(19|20)?(\d)0er(?:\s+jahre)?\b/g, match => {
+    const start = decadeStart(match[1] ?? match[3], match[2] ?? match[4]);
+    extracted.dateFrom = `${start}-01-01`;
+    extracted.dateTo = `${start + 9}-12-31`;
+    return true;
+  });
+
+  // "between 2000 and 2010", "from 1995 to 2005", "2010-2015"
+  consume(state, 'date', /\b(?:between\s+|from\s+)?(1[89]\d\d|20\d\d)\s*(?:and|to|-|–|through)\s*(1[89]\d\d|20\d\d)\b/g, match => {
+    const [a, b] = [Number(match[1]), Number(match[2])].sort((x, y) => x - y);
+    extracted.dateFrom = `${a}-01-01`;
+    extracted.dateTo = `${b}-12-31`;
+    return true;
+  });
+
+  // "after 2015", "since 2015", "before 2000", "until 1999"
+  consume(state, 'date', /\b(after|since|post|before|pre|until|up to|apres|depuis|avant|despues de|desde|antes de|nach|seit|vor)[\s-]+(1[89]\d\d|20\d\d)\b/g, match => {
+    const year = Number(match[2]);
+    switch (match[1]) {
+      case 'after':
+      case 'post':
+      case 'apres':
+      case 'despues de':
+      case 'nach':
+        extracted.dateFrom = `${year + 1}-01-01`;
+        break;
+      case 'since':
+      case 'depuis':
+      case 'desde':
+      case 'seit':
+        extracted.dateFrom = `${year}-01-01`;
+        break;
+      case 'before':
+      case 'pre':
+      case 'avant':
+      case 'antes de':
+      case 'vor':
+        extracted.dateTo = `${year - 1}-12-31`;
+        break;
+      default:
+        extracted.dateTo = `${year}-12-31`;
+    }
+    return true;
+  });
+
+  consume(state, 'date', /\b(this|last)\s+year'?s?\b/g, match => {
+    extracted.year = now.getFullYear() - (match[1] === 'last' ? 1 : 0);
+    return true;
+  });
+
+  consume(state, 'date', /\b(?:recent|recently released|new releases?|in the last few years|recents?|recentes?|recientes?)\b/g, () => {
+    extracted.dateFrom = `${now.getFullYear() - 2}-01-01`;
+    return true;
+  });
+
+  // A bare year is weak: "Dune 2021" is still a title search. Years that are
+  // part of a title stay text: one past next year ("Blade Runner 2049"), one
+  // that is the whole query ("1917") and one followed by punctuation
+  // ("2001: A Space Odyssey").
+  consume(state, 'year', /\b(?:(?:in|from|of|released in|made in|en|de|aus)\s+)?(18[89]\d|19\d\d|20\d\d)\b/g, match => {
+    const year = Number(match[1]);
+    const end = (match.index ?? 0) + match[0].length;
+    const alone = state.original.trim() === match[0];
+    if (year > now.getFullYear() + 1 || alone || /^\s*[:;,.!?–-]\s*\S/.test(state.original.slice(end))) return false;
+    extracted.year = year;
+    return true;
+  });
+}
+
+const clampRating = (value: number): number | null => (value >= 0 && value <= 10 ? value : null);
+
+function parseRatings(state: ParseState) {
+  const { extracted } = state;
+
+  // "7.5+", "8+ rating"
+  consume(state, 'rating', /(?<![\d.])(\d(?:\.\d)?|10)\s*\+(?:\s*(?:rating|rated|stars?))?/g, match => {
+    const rating = clampRating(Number(match[1]));
+    if (rating === null) return false;
+    extracted.minRating = rating;
+    return true;
+  });
+
+  // "rated above 8", "rating of at least 7", "score over 6.5", "rated 8/10 or higher"
+  consume(state, 'rating', /\b(?:rated|rating|ratings|score|scored|scoring)\s+(?:of\s+)?(above|over|at least|more than|higher than|greater than|below|under|less than|lower than)?\s*(\d(?:\.\d)?|10)(?:\s*(?:\/\s*10|stars?))?(?:\s+(?:or|and)\s+(?:more|higher|better|above|up))?/g, match => {
+    const rating = clampRating(Number(match[2]));
+    if (rating === null) return false;
+    if (match[1] && /below|under|less|lower/.test(match[1])) {
+      extracted.maxRating = rating;
+    } else {
+      extracted.minRating = rating;
+    }
+    return true;
+  });
+
+  // "at least 8 stars", "over 7/10", "8 stars and up"
+  consume(state, 'rating', /\b(?:(above|over|at least|more than|below|under|less than)\s+)?(\d(?:\.\d)?|10)\s*(?:stars?|\/\s*10)(?:\s+(?:or|and)\s+(?:more|higher|better|above|up))?/g, match => {
+    const rating = clampRating(Number(match[2]));
+    if (rating === null) return false;
+    if (match[1] && /below|under|less/.test(match[1])) {
+      extracted.maxRating = rating;
+    } else {
+      extracted.minRating = rating;
+    }
+    return true;
+  });
+
+  consume(state, 'rating', /\b(?:with\s+)?(?:an?\s+)?(?:high|good|great|strong)\s+(?:ratings?|scores?|reviews?)\b|\bwell[\s-]reviewed\b|\b(?:highly|well|critically)[\s-](?:rated|acclaimed|praised)|\bacclaimed\b|\bmasterpieces?\b|\b(?:bien notee?s?|acclamee?s?|chefs?-d'oeuvre|aclamad[ao]s|obras maestras|meisterwerke?)\b/g, () => {
+    extracted.minRating = extracted.minRating ?? 7.5;
+    return true;
+  });
+}
+
+// Runtime cues that set a lower bound; everything else ("under", "no longer than") is an upper bound
+const isMinimumCue = (cue: string): boolean => /^(?:over|more than|longer than|at least|min(?:imum)?)$/.test(cue);
+
+function parseRuntime(state: ParseState) {
+  const { extracted } = state;
+  const toMinutes = (amount: string, unit: string): number => {
+    const value = NUMBER_WORDS[amount] ?? Number(amount);
+    return /^h/.test(unit) ? Math.round(value * 60) : Math.round(value);
+  };
+
+  // "an hour and a half", "one and a half hours"
+  consume(state, 'runtime', /\b(under|less than|shorter than|below|at most|no longer than|over|more than|longer than|at least)\s+(?:an hour and a half|one and a half hours?|1\.5 hours?)\b/g, match => {
+    if (isMinimumCue(match[1])) extracted.minRuntime = 90;
+    else extracted.maxRuntime = 90;
+    return true;
+  });
+
+  // "under 2 hours", "less than 90 minutes", "over 3 hrs", "at least 100 min"
+  consume(state, 'runtime', /\b(under|less than|shorter than|below|at most|no longer than|max(?:imum)?|over|more than|longer than|at least|min(?:imum)?)\s+(\d+(?:\.\d+)?|an?|one|two|three|four)\s*(hours?|hrs?|h|minutes?|mins?|m)\b(?:\s+long)?/g, match => {
+    const minutes = toMinutes(match[2], match[3]);
+    if (isMinimumCue(match[1])) {
+      extracted.minRuntime = minutes;
+    } else {
+      extracted.maxRuntime = minutes;
+    }
+    return true;
+  });
+
+  consume(state, 'runtime', /\b(?:short|quick)\s+(?:watch|ones?)\b/g, () => {
+    extracted.maxRuntime = 100;
+    return true;
+  });
+}
+
+// "released in Japan" picks the regional release dates; "from Japan" the production country
+function parseRegions(state: ParseState) {
+  const names = Object.keys(COUNTRIES).sort((a, b) => b.length - a.length).map(escapeRegExp).join('|');
+  const released = String.raw`(?:released|out|premiered|playing|showing)\s+in|in\s+(?:theaters|theatres|cinemas)\s+in|sortie?s?\s+(?:au|aux|en)|estrenad[ao]s?\s+en|(?:erschienen|veroffentlicht)\s+in`;
+  consume(state, 'region', new RegExp(String.raw`\b(?:${released})\s+(?:the\s+)?(${names})\b`, 'g'), match => {
+    state.extracted.releaseRegion = COUNTRIES[match[1]];
+    return true;
+  });
+  consume(state, 'region', new RegExp(String.raw`\b(?:from|made in|produced in|tournee?s?\s+(?:au|en)|hech[ao]s?\s+en|aus)\s+(?:the\s+)?(${names})\b`, 'g'), match => {
+    state.extracted.originCountry = COUNTRIES[match[1]];
+    return true;
+  });
+}
+
+function parseLanguage(state: ParseState) {
+  const names = Object.keys(LANGUAGES).join('|');
+  consume(state, 'language', new RegExp(String.raw`\b(?:(?:in|spoken in|en|auf)\s+)?(${names})(?:[\s-]language)?\b`, 'g'), match => {
+    state.extracted.language = LANGUAGES[match[1]];
+    return true;
+  });
+}
+
+function parseSort(state: ParseState) {
+  const { extracted } = state;
+  const rules: [RegExp, SortIntent][] = [
+    [/\b(?:most|very)\s+popular\b|\bpopular\b|\bblockbusters?\b|\b(?:populaires?|populares|beliebteste[n]?)\b/g, 'popularity'],
+    [/\b(?:newest|latest|most recent|brand new)\b|\b(?:derniers|dernieres|ultimos|ultimas|neueste[n]?)\b/g, 'newest'],
+    [/\b(?:oldest|earliest)\b|\b(?:plus anciens|mas antiguas|mas antiguos|alteste[n]?)\b/g, 'oldest'],
+    [/\b(?:highest|top|best)[\s-]rated\b|\b(?:top|best)\s+\d{1,3}\b|\bbest\b|\bgreatest\b|\btop\b|\b(?:meilleure?s?|mejores|beste[n]?)\b/g, 'rating'],
+    [/\bmost\s+(?:voted|reviewed|watched)\b/g, 'votes'],
+  ];
+
+  rules.forEach(([pattern, intent]) => {
+    consume(state, 'sort', pattern, () => {
+      extracted.sort = extracted.sort ?? intent;
+      return true;
+    });
+  });
+}
+
+function parseGenres(state: ParseState) {
+  const words = GENRES.flatMap((genre, index) => genre.words.map(word => ({ word, index })))
+    .sort((a, b) => b.word.length - a.word.length);
+  const pattern = new RegExp(String.raw`\b(${words.map(w => escapeRegExp(w.word)).join('|')})\b`, 'g');
+
+  consume(state, 'genre', pattern, match => {
+    const entry = words.find(w => w.word === match[1]);
+    if (!entry) return false;
+    const key = String(entry.index);
+    if (!state.extracted.genres.includes(key)) state.extracted.genres.push(key);
+    return true;
+  });
+}
+
+// What is left of the query once every recognised phrase and filler word is
+// removed, with the index of each word in `original`
+function leftoverWords(state: ParseState): { word: string; index: number }[] {
+  return Array.from(state.text.matchAll(/[a-z0-9'\-]+/g))
+    .map(match => {
+      const word = match[0].replace(/^'+|'+$/g, '');
+      return { word, index: (match.index ?? 0) + match[0].indexOf(word) };
+    })
+    .filter(({ word }) => word.length > 1 && !FILLER_WORDS.has(word) && !/^'?s$/.test(word));
+}
+
+// Sort and genre words are part of a title when they lead into the words no
+// rule recognised ("Top Gun", "war of the worlds", "The Best Years of Our
+// Lives"), whatever the casing. After the last such word they describe it
+// instead: "Spielberg sci-fi" and "Christopher Nolan thrillers" are discover
+// queries whose leftover name goes to hybrid search. A plural media word asks
+// for a list ("best Nolan movies"), and a media word in the middle ends the
+// title ("Best Horror Movies Ever").
+function readsAsTitle(state: ParseState, leftover: { word: string; index: number }[]): boolean {
+  if (leftover.length === 0) return false;
+  const media = state.spans.filter(span => span.kind === 'media');
+  if (media.some(span => /(?:movies|films|flicks|shows)$/i.test(state.original.slice(span.start, span.end)))) return false;
+
+  const soft = state.spans.filter(span => SOFT_KINDS.includes(span.kind));
+  const lastWord = Math.max(...leftover.map(({ index }) => index));
+  if (soft.some(span => span.start > lastWord)) return false;
+
+  const first = Math.min(lastWord, ...leftover.map(({ index }) => index), ...soft.map(span => span.start));
+  return !media.some(span => span.start > first && span.start < lastWord);
+}
+
+// The original query minus media words and a bare year, for plain text searches
+function searchText(state: ParseState): string {
+  let text = state.original;
+  state.spans
+    .filter(span => span.kind === 'media' || span.kind === 'year')
+    .sort((a, b) => b.start - a.start)
+    .forEach(span => {
+      text = text.slice(0, span.start) + ' ' + text.slice(span.end);
+    });
+  return text
+    .replace(/^\s*(?:(?:find|show|search|give|get)(?:\s+me)?|(?:i'?m\s+)?looking\s+for|search\s+for)\s+/i, '')
+    .replace(/^\s*(?:some|any)\s+/i, '')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function buildDiscover(state: ParseState, media: MediaType): AISearchResult {
+  const { extracted, now } = state;
+  const params: AISearchResult['params'] = {};
+  const sortDate = media === 'movie' ? 'primary_release_date' : 'first_air_date';
+  // A movie release region filters on that region's theatrical release dates instead of the first release
+  const region = media === 'movie' ? extracted.releaseRegion : undefined;
+  const dateParam = region ? 'release_date' : sortDate;
+
+  if (extracted.year !== undefined && !extracted.dateFrom && !extracted.dateTo) {
+    if (region) {
+      params['release_date.gte'] = `${extracted.year}-01-01`;
+      params['release_date.lte'] = `${extracted.year}-12-31`;
+    } else {
+      params[media === 'movie' ? 'primary_release_year' : 'first_air_date_year'] = String(extracted.year);
+    }
+  }
+  if (extracted.dateFrom) params[`${dateParam}.gte`] = extracted.dateFrom;
+  if (extracted.dateTo) params[`${dateParam}.lte`] = extracted.dateTo;
+  if (extracted.minRating !== undefined) params['vote_average.gte'] = String(extracted.minRating);
+  if (extracted.maxRating !== undefined) params['vote_average.lte'] = String(extracted.maxRating);
+  if (extracted.minRuntime !== undefined) params['with_runtime.gte'] = String(extracted.minRuntime);
+  if (extracted.maxRuntime !== undefined) params['with_runtime.lte'] = String(extracted.maxRuntime);
+  if (extracted.language) params.with_original_language = extracted.language;
+  if (region) {
+    params.region = region;
+    // Theatrical (limited or wide) releases
+    params.with_release_type = '2|3';
+  }
+  // TV has no regional releases; a show "released in Japan" is a Japanese show
+  const country = extracted.originCountry ?? (media === 'tv' ? extracted.releaseRegion : undefined);
+  if (country) params.with_origin_country = country;
+
+  switch (extracted.sort) {
+    case 'popularity':
+      params.sort_by = 'popularity.desc';
+      break;
+    case 'newest':
+      params.sort_by = `${sortDate}.desc`;
+      // Without an upper bound "newest" is dominated by announced, unreleased titles
+      params[`${dateParam}.lte`] = params[`${dateParam}.lte`] ?? isoDate(now);
+      break;
+    case 'oldest':
+      params.sort_by = `${sortDate}.asc`;
+      break;
+    case 'rating':
+      params.sort_by = 'vote_average.desc';
+      // Keep titles with a handful of perfect votes from dominating "best of" lists
+      params['vote_count.gte'] = media === 'movie' ? '300' : '100';
+      break;
+    case 'votes':
+      params.sort_by = 'vote_count.desc';
+      break;
+  }
+
+  const names: NamedFilters = {};
+  const genres = extracted.genres
+    .map(key => GENRES[Number(key)][media])
+    .filter((name, i, all): name is string => name !== null && all.indexOf(name) === i);
+  if (genres.length > 0) names.genres = genres;
+  if (extracted.keywords.length > 0) names.keywords = extracted.keywords;
+  if (extracted.cast.length > 0) names.cast = extracted.cast;
+  if (extracted.crew.length > 0) names.crew = extracted.crew;
+  // "comedy or romance" widens the match; everything else narrows it
+  if (genres.length > 1 && /\bor\b/.test(state.original.toLowerCase())) names.match = 'or';
+
+  return {
+    path: media === 'movie' ? 'discover/movie' : 'discover/tv',
+    params,
+    ...(Object.keys(names).length > 0 ? { names } : {}),
+  };
+}
+
+// Picks trending, discover or a plain text search from what the rules extracted
+function chooseRoute(state: ParseState): AISearchResult {
+  const { extracted, original } = state;
+
+  if (extracted.trending) {
+    const media = extracted.media ?? 'all';
+    return { path: `trending/${media}/${extracted.trending}`, params: {} };
+  }
+
+  const strongKinds = Array.from(state.kinds).filter(kind => !WEAK_KINDS.includes(kind));
+  const leftover = leftoverWords(state);
+  const isTitle = strongKinds.every(kind => SOFT_KINDS.includes(kind)) && readsAsTitle(state, leftover);
+
+  if ((strongKinds.length > 0 && !isTitle) || (leftover.length === 0 && state.kinds.size > 0)) {
+    return buildDiscover(state, extracted.media ?? 'movie');
+  }
+
+  // Nothing but a title or name (plus maybe a year): plain text search. Only
+  // movie search filters on a year, so "Dune 2021" searches movies.
+  const query = searchText(state) || original;
+  if (extracted.media === 'movie' || (extracted.media === undefined && extracted.year !== undefined)) {
+    return {
+      path: 'search/movie',
+      params: { query, ...(extracted.year !== undefined ? { primary_release_year: String(extracted.year) } : {}) },
+    };
+  }
+  if (extracted.media === 'tv') {
+    return {
+      path: 'search/tv',
+      params: { query, ...(extracted.year !== undefined ? { first_air_date_year: String(extracted.year) } : {}) },
+    };
+  }
+  return { path: 'search/multi', params: { query } };
+}
+
+/**
+ * Parses a free-text query into a structured TMDB request without any network access.
+ * `now` anchors relative phrases such as "this year" and "newest".
+ */
+export function parseQueryRules(searchTerm: string, now: Date = new Date()): AISearchResult {
+  const original = searchTerm.replace(/\s+/g, ' ').trim();
+  const state: ParseState = {
+    original,
+    text: foldAccents(original.toLowerCase()),
+    kinds: new Set(),
+    spans: [],
+    extracted: { genres: [], cast: [], crew: [], keywords: [] },
+    now,
+  };
+
+  // Order matters: more specific phrases are consumed before the generic ones
+  // that could otherwise claim part of them (e.g. runtime "under 2 hours"
+  // before ratings, date ranges before a bare year, "released in Japan" before
+  // the language names)
+  parseMedia(state);
+  parseTrending(state);
+  parsePeople(state);
+  parseRuntime(state);
+  parseRatings(state);
+  parseRegions(state);
+  parseDates(state);
+  parseThemes(state);
+  parseLanguage(state);
+  parseSort(state);
+  parseGenres(state);
+
+  // The original wording of each recognised phrase, for the explanation chips
+  const sources: SearchSource[] = [...state.spans]
+    .sort((a, b) => a.start - b.start)
+    .map(span => ({ kind: span.kind, phrase: original.slice(span.start, span.end).trim() }));
+
+  return { ...chooseRoute(state), sources };
+}
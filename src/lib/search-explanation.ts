@@ -0,0 +1,358 @@
+// src/lib/search-explanation.ts
+
+// Explains a parsed search as a list of filter chips (server side) and applies
+// chip removals and edits to the current query (client side) so a search can
+// be refined without another parser call.
+
+import { MessageKey, translate } from '@/lib/i18n';
+import { DEFAULT_LOCALE, formatLocale, Locale } from '@/lib/locale';
+import type { TmdbQueryParams } from '@/lib/movies';
+import type { AISearchPath, AISearchResult, SearchFilterChip, SearchSource } from '@/lib/search-query';
+import { checkParamValue, matchRoute } from '@/lib/tmdb-routes';
+
+type ChipKind = SearchFilterChip['kind'];
+
+// Confidence for filters a rule matched verbatim, for filters derived from another
+// phrase (e.g. the vote floor added for "best"), and for LLM output with and without
+// a phrase in the query that backs it up
+const CONFIDENCE = { rule: 0.95, derived: 0.7, llmBacked: 0.8, llmUnbacked: 0.5, repaired: 0.4 };
+
+// Which rule-parser phrase kinds can back up each chip kind
+const SOURCE_KINDS: Record<ChipKind, string[]> = {
+  query: [],
+  genre: ['genre', 'media'],
+  cast: ['people'],
+  crew: ['people'],
+  keyword: ['keyword'],
+  rating: ['rating'],
+  votes: ['sort'],
+  year: ['year', 'date'],
+  date: ['date', 'sort'],
+  runtime: ['runtime'],
+  language: ['language', 'media'],
+  region: ['region'],
+  provider: [],
+  sort: ['sort'],
+  other: [],
+};
+
+// The filter panel's names for the sort fields
+const SORT_FIELDS: Record<string, MessageKey> = {
+  popularity: 'filters.sortPopularity',
+  vote_average: 'filters.sortRating',
+  vote_count: 'filters.sortVotes',
+  primary_release_date: 'filters.sortReleaseDate',
+  first_air_date: 'filters.sortFirstAirDate',
+  revenue: 'filters.sortRevenue',
+  title: 'filters.sortTitle',
+  name: 'filters.sortTitle',
+};
+
+// Params whose value is a list of ids and whose chips each stand for one id
+const ID_LIST_PARAMS: Record<string, ChipKind> = {
+  with_genres: 'genre',
+  with_cast: 'cast',
+  with_crew: 'crew',
+  with_keywords: 'keyword',
+  with_watch_providers: 'provider',
+};
+
+// How the chip of one id reads, e.g. 'Starring Tom Hardy'; genres and keywords are just their name
+const LIST_LABELS: Partial<Record<ChipKind, MessageKey>> = {
+  cast: 'chip.starring',
+  crew: 'chip.by',
+  provider: 'chip.on',
+};
+
+function displayName(type: 'language' | 'region', code: string, locale: Locale): string {
+  try {
+    return new Intl.DisplayNames([formatLocale(locale)], { type }).of(code) ?? code;
+  } catch {
+    return code;
+  }
+}
+
+const languageName = (code: string, locale: Locale): string => displayName('language', code, locale);
+const countryName = (code: string, locale: Locale): string => displayName('region', code, locale);
+
+// TMDB release types; "2|3" (limited or wide theatrical) is the usual filter
+const RELEASE_TYPES: Record<string, MessageKey> = {
+  1: 'chip.releasePremiere',
+  2: 'chip.releaseLimited',
+  3: 'chip.releaseTheatrical',
+  4: 'chip.releaseDigital',
+  5: 'chip.releasePhysical',
+  6: 'chip.releaseTv',
+};
+
+/**
+ * Kind, label and editability of a single scalar param, e.g.
+ * 'vote_average.gte' = '7.5' -> 'Rating ≥ 7.5'. Shared by the server, which
+ * builds the chips, and the page, which relabels a chip after an edit.
+ */
+export function describeParam(
+  param: string,
+  value: string,
+  locale: Locale = DEFAULT_LOCALE,
+): Pick<SearchFilterChip, 'kind' | 'label' | 'editable'> {
+  const label = (key: MessageKey, shown = value) => translate(locale.language, key, { value: shown });
+  switch (param) {
+    case 'query':
+      return { kind: 'query', label: label('chip.query'), editable: true };
+    case 'vote_average.gte':
+      return { kind: 'rating', label: label('chip.ratingMin'), editable: true };
+    case 'vote_average.lte':
+      return { kind: 'rating', label: label('chip.ratingMax'), editable: true };
+    case 'vote_count.gte':
+      return { kind: 'votes', label: label('chip.votesMin'), editable: true };
+    case 'primary_release_year':
+    case 'year':
+      return { kind: 'year', label: label('chip.releasedIn'), editable: true };
+    case 'first_air_date_year':
+      return { kind: 'year', label: label('chip.firstAiredIn'), editable: true };
+    case 'primary_release_date.gte':
+    case 'first_air_date.gte':
+      return { kind: 'date', label: label('chip.from'), editable: true };
+    case 'primary_release_date.lte':
+    case 'first_air_date.lte':
+      return { kind: 'date', label: label('chip.until'), editable: true };
+    // Regional release dates, paired with `region`
+    case 'release_date.gte':
+      return { kind: 'date', label: label('chip.releasedFrom'), editable: true };
+    case 'release_date.lte':
+      return { kind: 'date', label: label('chip.releasedUntil'), editable: true };
+    case 'with_runtime.gte':
+      return { kind: 'runtime', label: label('chip.runtimeMin'), editable: true };
+    case 'with_runtime.lte':
+      return { kind: 'runtime', label: label('chip.runtimeMax'), editable: true };
+    case 'with_original_language':
+      return { kind: 'language', label: label('chip.language', languageName(value, locale)), editable: false };
+    case 'region':
+      return { kind: 'region', label: label('chip.releasedIn', countryName(value, locale)), editable: false };
+    case 'with_origin_country':
+      return { kind: 'region', label: label('chip.origin', countryName(value, locale)), editable: false };
+    case 'watch_region':
+      return { kind: 'provider', label: label('chip.streamingIn', countryName(value, locale)), editable: false };
+    case 'with_release_type': {
+      const types = value.split(/[,|]/).map(type => (RELEASE_TYPES[type] ? translate(locale.language, RELEASE_TYPES[type]) : type));
+      const list = new Intl.ListFormat(locale.language, { type: 'disjunction' }).format(types);
+      return {
+        kind: 'region',
+        label: translate(locale.language, 'chip.releaseTypes', { types: list }).replace(/^./, c => c.toUpperCase()),
+        editable: false,
+      };
+    }
+    case 'sort_by': {
+      const [field, direction] = value.split('.');
+      const name = SORT_FIELDS[field] ? translate(locale.language, SORT_FIELDS[field]).toLocaleLowerCase(locale.language) : field;
+      return {
+        kind: 'sort',
+        label: translate(locale.language, direction === 'asc' ? 'chip.sortedByAscending' : 'chip.sortedBy', { field: name }),
+        editable: false,
+      };
+    }
+    default:
+      return { kind: 'other', label: `${param}: ${value}`, editable: false };
+  }
+}
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Finds the first candidate in the query as a whole word, returning the user's wording
+function findInQuery(searchTerm: string, candidates: string[]): string | undefined {
+  for (const candidate of candidates.filter(Boolean)) {
+    const match = new RegExp(String.raw`(?<![\w])${escapeRegExp(candidate)}(?![\w])`, 'i').exec(searchTerm);
+    if (match) return match[0];
+  }
+  return undefined;
+}
+
+// Words in the query that could have produced a chip with this value
+function candidatesFor(kind: ChipKind, value: string, locale: Locale): string[] {
+  switch (kind) {
+    case 'rating':
+      return [value, value.replace(/\.0$/, '')];
+    case 'year':
+    case 'date':
+      return [value.slice(0, 4), `${value.slice(2, 3)}0s`];
+    case 'runtime': {
+      const hours = Number(value) / 60;
+      return [value, Number.isInteger(hours) ? `${hours} hour` : String(hours)];
+    }
+    case 'language':
+      return [languageName(value, locale), languageName(value, DEFAULT_LOCALE)];
+    case 'region':
+      return [countryName(value, locale), countryName(value, DEFAULT_LOCALE)];
+    case 'sort':
+      return value.startsWith('vote_average') ? ['best', 'top', 'highest rated']
+        : value.startsWith('popularity') ? ['popular']
+          : value.endsWith('.desc') ? ['newest', 'latest'] : ['oldest', 'earliest'];
+    default:
+      return [];
+  }
+}
+
+// Rule-parser phrases of the kinds that can back a chip of `kind`
+const phrasesOfKind = (sources: SearchSource[], kind: ChipKind): string[] =>
+  sources.filter(source => SOURCE_KINDS[kind].includes(source.kind)).map(source => source.phrase);
+
+/**
+ * Builds one chip per filter in `result.params`, labelled with the resolved
+ * TMDB names where ids are involved. Results from the rule-based parser carry
+ * the phrases they consumed; for LLM results the phrase is looked up in the
+ * query and its absence lowers the confidence. Labels are in `locale`.
+ */
+export function explainSearchResult(
+  searchTerm: string,
+  result: AISearchResult,
+  locale: Locale = DEFAULT_LOCALE,
+): SearchFilterChip[] {
+  const fromRules = result.sources !== undefined;
+  const sources = result.sources ?? [];
+  const repairedParams = new Set((result.warnings ?? []).map(warning => warning.param).filter(Boolean));
+  const resolved = result.resolution?.resolved ?? [];
+  // A fuzzy name match (e.g. 'sci-fi' -> 'Science Fiction') is slightly less certain
+  const fuzzyChips = new Set<string>();
+
+  const findSource = (kind: ChipKind, candidates: string[]): string | undefined => {
+    if (!fromRules) return findInQuery(searchTerm, candidates);
+    return phrasesOfKind(sources, kind).find(phrase => findInQuery(phrase, candidates));
+  };
+
+  const chips: SearchFilterChip[] = [];
+  Object.entries(result.params).forEach(([param, value]) => {
+    if (value === undefined || param === 'page') return;
+
+    const listKind = ID_LIST_PARAMS[param];
+    if (listKind) {
+      value.split(/[,|]/).forEach(id => {
+        // Ids added by the server came from resolved names; others were given as ids
+        const names = resolved.filter(r => String(r.id) === id && r.kind === listKind);
+        const name = names[0]?.matchedName ?? `#${id}`;
+        if (!names.some(n => n.name.toLowerCase() === n.matchedName.toLowerCase())) fuzzyChips.add(`${param}:${id}`);
+        chips.push({
+          id: `${param}:${id}`,
+          kind: listKind,
+          label: LIST_LABELS[listKind] ? translate(locale.language, LIST_LABELS[listKind], { name }) : name,
+          param,
+          value: id,
+          source: findSource(listKind, [...names.map(n => n.name), name]),
+          confidence: 0,
+          editable: false,
+          removable: true,
+        });
+      });
+      return;
+    }
+
+    const { kind, label, editable } = describeParam(param, value, locale);
+    chips.push({
+      id: `${param}:${value}`,
+      kind,
+      label,
+      param,
+      value,
+      source: kind === 'query' ? value : findSource(kind, candidatesFor(kind, value, locale)),
+      confidence: 0,
+      editable,
+      removable: !(kind === 'query' && result.path.startsWith('search/')),
+    });
+  });
+
+  // Rule phrases that matched no chip by wording ('sci-fi' for Science Fiction,
+  // 'after 2015' for a 2016-01-01 bound) go to the remaining chips of their kind in order
+  if (fromRules) {
+    const used = new Set(chips.map(chip => chip.source));
+    chips.filter(chip => !chip.source && chip.kind !== 'query').forEach(chip => {
+      const phrase = phrasesOfKind(sources, chip.kind).find(candidate => !used.has(candidate));
+      if (phrase) {
+        chip.source = phrase;
+        used.add(phrase);
+      }
+    });
+  }
+
+  chips.forEach(chip => {
+    const base = chip.kind === 'query' ? 1
+      : repairedParams.has(chip.param) ? CONFIDENCE.repaired
+        : fromRules ? (chip.source ? CONFIDENCE.rule : CONFIDENCE.derived)
+          : (chip.source ? CONFIDENCE.llmBacked : CONFIDENCE.llmUnbacked);
+    chip.confidence = Math.round(base * (fuzzyChips.has(chip.id) ? 0.9 : 1) * 100) / 100;
+  });
+
+  return chips;
+}
+
+/**
+ * Chips for a query that did not come straight from the parser, such as one
+ * restored from the page URL or built in the filter panel. A chip in `known`
+ * (e.g. from parsing the term again) with the same id is reused as is; the
+ * others were chosen by the user, so they carry full confidence. Ids are
+ * labelled from `names` (keyed by chip id, e.g. 'with_genres:28') or as "#id".
+ */
+export function chipsForQuery(
+  query: TmdbQueryParams,
+  known: SearchFilterChip[] = [],
+  names: Record<string, string> = {},
+  locale: Locale = DEFAULT_LOCALE,
+): SearchFilterChip[] {
+  const { path, ...params } = query;
+  return explainSearchResult('', { path: path as AISearchPath, params, sources: [] }, locale)
+    .map(chip => known.find(k => k.id === chip.id) ?? {
+      ...chip,
+      label: names[chip.id] ? chip.label.replace(`#${chip.value}`, names[chip.id]) : chip.label,
+      source: undefined,
+      confidence: 1,
+    });
+}
+
+/**
+ * Drops a chip's value from the query. For id lists only that id goes, keeping
+ * the list's AND (',') or OR ('|') separator.
+ */
+export function removeChip(query: TmdbQueryParams, chip: SearchFilterChip): TmdbQueryParams {
+  const next: TmdbQueryParams = { ...query };
+  const current = next[chip.param];
+
+  if (current && chip.param in ID_LIST_PARAMS) {
+    const separator = current.includes('|') ? '|' : ',';
+    const remaining = current.split(/[,|]/).filter(id => id !== chip.value);
+    next[chip.param] = remaining.length > 0 ? remaining.join(separator) : undefined;
+  } else {
+    delete next[chip.param];
+  }
+
+  return next;
+}
+
+/**
+ * Sets a new value for an editable chip after checking it against the route
+ * schema, so the proxy never sees a value it would reject. Returns the
+ * updated query and chip, or an error message for the user in `locale`.
+ */
+export function editChip(
+  query: TmdbQueryParams,
+  chip: SearchFilterChip,
+  rawValue: string,
+  locale: Locale = DEFAULT_LOCALE,
+): { query: TmdbQueryParams; chip: SearchFilterChip } | { error: string } {
+  const spec = matchRoute(query.path)?.route.params[chip.param];
+  const value = spec ? checkParamValue(spec, rawValue) : null;
+  if (value === null) {
+    return { error: translate(locale.language, 'chip.invalidValue', { value: rawValue }) };
+  }
+
+  const next: TmdbQueryParams = { ...query, [chip.param]: value };
+  return {
+    query: next,
+    chip: {
+      ...chip,
+      ...describeParam(chip.param, value, locale),
+      id: `${chip.param}:${value}`,
+      value,
+      // The user set it; there is nothing left to be unsure about
+      confidence: 1,
+      source: undefined,
+    },
+  };
+}
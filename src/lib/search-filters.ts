@@ -0,0 +1,160 @@
+// src/lib/search-filters.ts
+
+// The manual filter panel's values and their mapping to and from the same
+// { path, params } the search parser returns. The panel starts from the
+// current search, so a parsed query can be refined by hand; filters it has no
+// control for (cast, keywords, regional releases...) are carried over, and the
+// text of a title search goes on to rank the discover results.
+
+import type { TmdbQueryParams } from '@/lib/movies';
+import type { MatchMode } from '@/lib/name-resolution';
+import type { AISearchResult } from '@/lib/search-query';
+import { matchRoute, validateRouteParams } from '@/lib/tmdb-routes';
+
+export type FilterMedia = 'movie' | 'tv';
+
+export interface FilterValues {
+  media: FilterMedia;
+  // TMDB genre ids, combined with AND ('all') or OR ('any')
+  genres: number[];
+  genreMatch: MatchMode;
+  // Four-digit years; '' for no bound
+  yearFrom: string;
+  yearTo: string;
+  // 0 for no minimum
+  minRating: number;
+  minVotes: number;
+  // Minutes; '' for no bound
+  runtimeMin: string;
+  runtimeMax: string;
+  // ISO 639-1; '' for any
+  language: string;
+  // TMDB watch provider ids, any of which will do
+  providers: number[];
+  sortBy: string;
+}
+
+export const DEFAULT_SORT = 'popularity.desc';
+
+export const EMPTY_FILTERS: FilterValues = {
+  media: 'movie',
+  genres: [],
+  genreMatch: 'and',
+  yearFrom: '',
+  yearTo: '',
+  minRating: 0,
+  minVotes: 0,
+  runtimeMin: '',
+  runtimeMax: '',
+  language: '',
+  providers: [],
+  sortBy: DEFAULT_SORT,
+};
+
+// Movies and shows name their date filters differently
+const DATE_PARAMS: Record<FilterMedia, { year: string; from: string; to: string }> = {
+  movie: { year: 'primary_release_year', from: 'primary_release_date.gte', to: 'primary_release_date.lte' },
+  tv: { year: 'first_air_date_year', from: 'first_air_date.gte', to: 'first_air_date.lte' },
+};
+
+// Everything the panel sets, so refining replaces these and keeps the rest
+const PANEL_PARAMS = new Set([
+  'with_genres', 'year',
+  ...Object.values(DATE_PARAMS).flatMap(({ year, from, to }) => [year, from, to]),
+  'vote_average.gte', 'vote_count.gte', 'with_runtime.gte', 'with_runtime.lte',
+  'with_original_language', 'with_watch_providers', 'watch_region', 'sort_by',
+]);
+
+const discoverPath = (media: FilterMedia) => `discover/${media}` as const;
+
+const idsOf = (value: string | undefined): number[] =>
+  value ? value.split(/[,|]/).map(Number).filter(id => Number.isInteger(id) && id > 0) : [];
+
+/**
+ * The panel values for a query, e.g. the parser's result; EMPTY_FILTERS when
+ * there is none. Search and trending paths contribute their media type and year.
+ */
+export function filtersFromQuery(query: TmdbQueryParams | null): FilterValues {
+  if (!query) return EMPTY_FILTERS;
+
+  const media: FilterMedia = /(^|\/)tv(\/|$)/.test(query.path) ? 'tv' : 'movie';
+  const dates = DATE_PARAMS[media];
+  const year = query[dates.year] ?? query.year;
+
+  return {
+    media,
+    genres: idsOf(query.with_genres),
+    genreMatch: query.with_genres?.includes('|') ? 'or' : 'and',
+    yearFrom: year ?? query[dates.from]?.slice(0, 4) ?? '',
+    yearTo: year ?? query[dates.to]?.slice(0, 4) ?? '',
+    minRating: Number(query['vote_average.gte'] ?? 0) || 0,
+    minVotes: Number(query['vote_count.gte'] ?? 0) || 0,
+    runtimeMin: query['with_runtime.gte'] ?? '',
+    runtimeMax: query['with_runtime.lte'] ?? '',
+    language: query.with_original_language ?? '',
+    providers: idsOf(query.with_watch_providers),
+    sortBy: query.sort_by ?? DEFAULT_SORT,
+  };
+}
+
+/**
+ * The discover query for the panel values, in the parser's { path, params }
+ * shape. Filters of a discover `base` the panel does not show are kept when
+ * the new route accepts them; the text of a search/* `base` cannot be a
+ * discover filter and becomes `hybridText` instead. Providers are looked up in
+ * `region`. Values the route would reject (e.g. a year out of range) are left out.
+ */
+export function queryFromFilters(
+  values: FilterValues,
+  base: TmdbQueryParams | null,
+  region: string,
+): Pick<AISearchResult, 'path' | 'params' | 'hybridText'> {
+  const path = discoverPath(values.media);
+  const route = matchRoute(path)?.route;
+  if (!route) throw new Error(`The ${path} route is missing from the TMDB route registry.`);
+
+  const params: Record<string, string> = {};
+  if (base?.path.startsWith('discover/')) {
+    Object.entries(base).forEach(([key, value]) => {
+      if (value !== undefined && key !== 'path' && key !== 'page' && !PANEL_PARAMS.has(key)) params[key] = value;
+    });
+  }
+
+  const dates = DATE_PARAMS[values.media];
+  if (values.genres.length > 0) params.with_genres = values.genres.join(values.genreMatch === 'or' ? '|' : ',');
+  if (values.yearFrom) params[dates.from] = `${values.yearFrom}-01-01`;
+  if (values.yearTo) params[dates.to] = `${values.yearTo}-12-31`;
+  if (values.minRating > 0) params['vote_average.gte'] = String(values.minRating);
+  if (values.minVotes > 0) params['vote_count.gte'] = String(values.minVotes);
+  if (values.runtimeMin) params['with_runtime.gte'] = values.runtimeMin;
+  if (values.runtimeMax) params['with_runtime.lte'] = values.runtimeMax;
+  if (values.language) params.with_original_language = values.language;
+  if (values.providers.length > 0) {
+    params.with_watch_providers = values.providers.join('|');
+    params.watch_region = region;
+  }
+  params.sort_by = values.sortBy;
+
+  // Drops carried-over filters the other media type lacks and anything malformed
+  const valid = validateRouteParams(route, params).params;
+  const text = base?.path.startsWith('search/') ? base.query?.trim() : undefined;
+  return { path, params: { ...valid, sort_by: valid.sort_by ?? DEFAULT_SORT }, ...(text ? { hybridText: text } : {}) };
+}
+
+/**
+ * What Reset leaves of a search as the panel's base: the path and search text,
+ * without any of the filters queryFromFilters would carry over.
+ */
+export function resetBase(query: TmdbQueryParams | null): TmdbQueryParams | null {
+  if (!query) return null;
+  return query.query !== undefined ? { path: query.path, query: query.query } : { path: query.path };
+}
+
+/**
+ * The sort orders the discover route accepts for a media type, e.g.
+ * 'vote_average.desc', from the route registry.
+ */
+export function sortOptions(media: FilterMedia): readonly string[] {
+  const spec = matchRoute(discoverPath(media))?.route.params.sort_by;
+  return spec?.type === 'enum' ? spec.values : [DEFAULT_SORT];
+}
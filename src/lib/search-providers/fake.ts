@@ -0,0 +1,46 @@
+// src/lib/search-providers/fake.ts
+
+// Stands in for an LLM when working offline. Unlike the fixture provider it
+// answers any term: the rule-based parser supplies the query, which is then
+// handed over as model output (a JSON string with names instead of ids) and
+// goes through the same normalisation as a real model's answer.
+//
+// Failures are triggered through the search term:
+//   llm-error      the request fails, as on a network error or an outage
+//   llm-malformed  the model answers with text that is not JSON
+//   llm-steered    the model answers with a path and parameters outside the
+//                  allowlist, as after a prompt injection
+
+import { normalizeSearchResult } from '@/lib/search-providers/prompt';
+import type { SearchParserProvider } from '@/lib/search-providers/types';
+import { parseQueryRules } from '@/lib/rule-parser';
+
+export interface FakeProviderOptions {
+  // Delay before every answer, e.g. to see the loading state
+  latencyMs?: number;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+export function createFakeProvider({ latencyMs = 0 }: FakeProviderOptions = {}): SearchParserProvider {
+  return {
+    name: 'fake',
+    async parse(searchTerm) {
+      if (latencyMs > 0) await sleep(latencyMs);
+      if (searchTerm.includes('llm-error')) {
+        throw new Error('Fake LLM request failed.');
+      }
+      if (searchTerm.includes('llm-malformed')) {
+        return normalizeSearchResult('Sorry, I can only answer questions about movies.');
+      }
+      if (searchTerm.includes('llm-steered')) {
+        return normalizeSearchResult(JSON.stringify({ path: 'account/1/favorite/movies', params: { session_id: 'stolen' } }));
+      }
+
+      // Only what a model returns: no phrase sources, no hybrid text
+      const { path, params, names } = parseQueryRules(searchTerm);
+      return normalizeSearchResult(JSON.stringify({ path, params, ...(names ? { names } : {}) }));
+    },
+    async ping() {},
+  };
+}
@@ -0,0 +1,77 @@
+// src/lib/search-providers/fixture.ts
+
+// Replays recorded parser responses so that anything exercising the search
+// parser gets the same output on every run, without network or API keys.
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { normalizeSearchResult } from '@/lib/search-providers/prompt';
+import type { SearchParserProvider } from '@/lib/search-providers/types';
+import type { AISearchResult } from '@/lib/search-query';
+import { logger } from '@/lib/logger';
+
+export type SearchFixtures = Record<string, AISearchResult>;
+
+// Fixtures are keyed case- and whitespace-insensitively
+export const fixtureKey = (searchTerm: string): string => searchTerm.toLowerCase().replace(/\s+/g, ' ').trim();
+
+export const DEFAULT_FIXTURES_FILE = path.join(process.cwd(), 'src/lib/search-providers/fixtures.json');
+
+async function readFixtures(file: string): Promise<SearchFixtures> {
+  try {
+    return JSON.parse(await fs.readFile(file, 'utf8')) as SearchFixtures;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === 'ENOENT') return {};
+    throw error;
+  }
+}
+
+/**
+ * Serves results from a fixtures file. A term without a recording is an
+ * error rather than a silent fallback, so missing fixtures surface quickly.
+ */
+export function createFixtureProvider(file: string = DEFAULT_FIXTURES_FILE): SearchParserProvider {
+  let fixtures: Promise<SearchFixtures> | null = null;
+
+  return {
+    name: 'fixture',
+    async parse(searchTerm) {
+      fixtures ??= readFixtures(file);
+      const recorded = (await fixtures)[fixtureKey(searchTerm)];
+      if (!recorded) {
+        throw new Error(`No recorded fixture for "${searchTerm}" in ${file}.`);
+      }
+      return normalizeSearchResult(recorded);
+    },
+    // The mock is "reachable" when its recordings can be read
+    async ping() {
+      fixtures ??= readFixtures(file);
+      await fixtures;
+    },
+  };
+}
+
+/**
+ * Wraps a live provider and appends every successful result to `file`,
+ * producing the recordings createFixtureProvider replays.
+ */
+export function withFixtureRecording(provider: SearchParserProvider, file: string): SearchParserProvider {
+  // Serialises writes so concurrent requests do not clobber each other
+  let queue: Promise<void> = Promise.resolve();
+
+  return {
+    name: provider.name,
+    async parse(searchTerm) {
+      const result = await provider.parse(searchTerm);
+      queue = queue.then(async () => {
+        const fixtures = await readFixtures(file);
+        fixtures[fixtureKey(searchTerm)] = result;
+        await fs.mkdir(path.dirname(file), { recursive: true });
+        await fs.writeFile(file, `${JSON.stringify(fixtures, null, 2)}\n`);
+      }).catch(error => logger.warn('Could not record search parser fixture', { error }));
+      await queue;
+      return result;
+    },
+    ping: provider.ping?.bind(provider),
+  };
+}
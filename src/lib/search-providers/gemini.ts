@@ -0,0 +1,40 @@
+// src/lib/search-providers/gemini.ts
+
+// Using GoogleGenAI as suggested, assuming it's installed
+import { GoogleGenAI } from '@google/genai';
+import { buildSearchQueryContent, normalizeSearchResult, SEARCH_INSTRUCTIONS, SEARCH_RESULT_SCHEMA } from '@/lib/search-providers/prompt';
+import type { SearchParserProvider } from '@/lib/search-providers/types';
+
+export const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash';
+
+export function createGeminiProvider(options: { apiKey: string; model?: string }): SearchParserProvider {
+  const aiClient = new GoogleGenAI({ apiKey: options.apiKey });
+  const model = options.model || DEFAULT_GEMINI_MODEL;
+
+  return {
+    name: 'gemini',
+    async parse(searchTerm) {
+      const response = await aiClient.models.generateContent({
+        model,
+        contents: [{ role: 'user', parts: [{ text: buildSearchQueryContent(searchTerm) }] }],
+        config: {
+          systemInstruction: SEARCH_INSTRUCTIONS,
+          responseMimeType: 'application/json',
+          responseJsonSchema: SEARCH_RESULT_SCHEMA,
+          temperature: 0.1,
+        },
+      });
+
+      // response.text is undefined when the answer was blocked or empty
+      if (!response.text) {
+        throw new Error('Gemini API failed to return structured text content, possibly due to a safety block or internal error.');
+      }
+
+      return normalizeSearchResult(response.text);
+    },
+    // Looking up the model checks the key without spending tokens
+    async ping() {
+      await aiClient.models.get({ model });
+    },
+  };
+}
@@ -0,0 +1,103 @@
+// src/lib/search-providers/index.ts
+
+// Chooses the search parser provider from the environment:
+//   SEARCH_PARSER_PROVIDER  gemini | openai | rules | fixture | fake
+//                           (default: gemini when AI_API_KEY is set, otherwise rules)
+//   AI_API_KEY, GEMINI_MODEL                          for gemini
+//   LLM_BASE_URL, LLM_MODEL, LLM_API_KEY, LLM_TIMEOUT_MS   for openai
+//   SEARCH_PARSER_FIXTURES  fixtures file for fixture (and for recording)
+//   FAKE_LLM_LATENCY_MS     delay before every fake answer
+//   SEARCH_PARSER_RECORD_FIXTURES=1  record live gemini/openai results into it
+
+import { createGeminiProvider } from '@/lib/search-providers/gemini';
+import { createOpenAICompatibleProvider } from '@/lib/search-providers/openai-compatible';
+import { createFixtureProvider, DEFAULT_FIXTURES_FILE, withFixtureRecording } from '@/lib/search-providers/fixture';
+import { createFakeProvider } from '@/lib/search-providers/fake';
+import { rulesProvider } from '@/lib/search-providers/rules';
+import type { SearchParserProvider, SearchProviderName } from '@/lib/search-providers/types';
+import { logger } from '@/lib/logger';
+
+export type { SearchParserProvider, SearchProviderName } from '@/lib/search-providers/types';
+export { rulesProvider } from '@/lib/search-providers/rules';
+
+// real: an LLM (gemini, openai); mock: recorded fixtures or the fake LLM; rules: the offline parser
+export type SearchParserMode = 'real' | 'mock' | 'rules';
+
+export interface SearchParserStatus {
+  provider: SearchProviderName;
+  mode: SearchParserMode;
+  // What SEARCH_PARSER_PROVIDER (or its default) asked for
+  requested: string;
+  // Why the requested provider is not the one in use
+  fallbackReason?: string;
+}
+
+const MODES: Record<SearchProviderName, SearchParserMode> = {
+  gemini: 'real', openai: 'real', fixture: 'mock', fake: 'mock', rules: 'rules',
+};
+
+let selection: { provider: SearchParserProvider; requested: string; fallbackReason?: string } | null = null;
+
+// Falls back to the rule-based parser, remembering why for /api/health
+function fallBack(requested: string, reason: string) {
+  logger.warn(`${reason}; falling back to the rule-based parser`, { provider: requested });
+  return { provider: rulesProvider, requested, fallbackReason: reason };
+}
+
+function createProvider(): NonNullable<typeof selection> {
+  const env = process.env;
+  const name = (env.SEARCH_PARSER_PROVIDER || (env.AI_API_KEY ? 'gemini' : 'rules')) as SearchProviderName;
+  const fixturesFile = env.SEARCH_PARSER_FIXTURES || DEFAULT_FIXTURES_FILE;
+
+  let live: SearchParserProvider;
+  switch (name) {
+    case 'rules':
+      return { provider: rulesProvider, requested: name };
+    case 'fixture':
+      return { provider: createFixtureProvider(fixturesFile), requested: name };
+    case 'fake':
+      return {
+        provider: createFakeProvider({ latencyMs: env.FAKE_LLM_LATENCY_MS ? Number(env.FAKE_LLM_LATENCY_MS) : undefined }),
+        requested: name,
+      };
+    case 'gemini':
+      if (!env.AI_API_KEY) {
+        return fallBack(name, 'AI_API_KEY is not set');
+      }
+      live = createGeminiProvider({ apiKey: env.AI_API_KEY, model: env.GEMINI_MODEL });
+      break;
+    case 'openai':
+      if (!env.LLM_BASE_URL || !env.LLM_MODEL) {
+        return fallBack(name, 'LLM_BASE_URL or LLM_MODEL is not set');
+      }
+      live = createOpenAICompatibleProvider({
+        baseUrl: env.LLM_BASE_URL,
+        model: env.LLM_MODEL,
+        apiKey: env.LLM_API_KEY,
+        timeoutMs: env.LLM_TIMEOUT_MS ? Number(env.LLM_TIMEOUT_MS) : undefined,
+      });
+      break;
+    default:
+      return fallBack(name, `Unknown SEARCH_PARSER_PROVIDER "${name}"`);
+  }
+
+  return {
+    provider: env.SEARCH_PARSER_RECORD_FIXTURES === '1' ? withFixtureRecording(live, fixturesFile) : live,
+    requested: name,
+  };
+}
+
+// Configuration is read once per server process
+export function getSearchParserProvider(): SearchParserProvider {
+  selection ??= createProvider();
+  return selection.provider;
+}
+
+/**
+ * Which parser is in use, and why it differs from the configured one when
+ * the configuration was incomplete.
+ */
+export function getSearchParserStatus(): SearchParserStatus {
+  const { provider, requested, fallbackReason } = (selection ??= createProvider());
+  return { provider: provider.name, mode: MODES[provider.name], requested, ...(fallbackReason ? { fallbackReason } : {}) };
+}
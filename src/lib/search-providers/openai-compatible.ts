@@ -0,0 +1,74 @@
+// src/lib/search-providers/openai-compatible.ts
+
+// Any server implementing the OpenAI chat completions API: OpenAI itself,
+// llama.cpp's server, Ollama (/v1), vLLM, LM Studio...
+
+import { buildSearchQueryContent, normalizeSearchResult, SEARCH_INSTRUCTIONS, SEARCH_RESULT_SCHEMA } from '@/lib/search-providers/prompt';
+import type { SearchParserProvider } from '@/lib/search-providers/types';
+
+const DEFAULT_TIMEOUT_MS = 15000;
+
+interface ChatCompletionResponse {
+  choices?: { message?: { content?: string | null } }[];
+}
+
+export function createOpenAICompatibleProvider(options: {
+  baseUrl: string;
+  model: string;
+  apiKey?: string;
+  timeoutMs?: number;
+}): SearchParserProvider {
+  const baseUrl = options.baseUrl.replace(/\/+$/, '');
+  const endpoint = `${baseUrl}/chat/completions`;
+  // Local servers usually run without a key
+  const authorization: Record<string, string> = options.apiKey ? { 'Authorization': `Bearer ${options.apiKey}` } : {};
+
+  return {
+    name: 'openai',
+    async parse(searchTerm) {
+      const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...authorization,
+        },
+        body: JSON.stringify({
+          model: options.model,
+          temperature: 0.1,
+          messages: [
+            { role: 'system', content: SEARCH_INSTRUCTIONS },
+            { role: 'user', content: buildSearchQueryContent(searchTerm) },
+          ],
+          response_format: {
+            type: 'json_schema',
+            json_schema: { name: 'tmdb_search_query', schema: SEARCH_RESULT_SCHEMA },
+          },
+        }),
+        signal: AbortSignal.timeout(options.timeoutMs ?? DEFAULT_TIMEOUT_MS),
+      });
+
+      if (!response.ok) {
+        throw new Error(`LLM endpoint failed with status ${response.status}.`);
+      }
+
+      const data: ChatCompletionResponse = await response.json();
+      const content = data.choices?.[0]?.message?.content;
+      if (!content) {
+        throw new Error('LLM endpoint returned no message content.');
+      }
+
+      return normalizeSearchResult(content);
+    },
+    // GET /models is served by every compatible server and costs no tokens
+    async ping() {
+      const response = await fetch(`${baseUrl}/models`, {
+        headers: authorization,
+        signal: AbortSignal.timeout(options.timeoutMs ?? DEFAULT_TIMEOUT_MS),
+      });
+      await response.body?.cancel();
+      if (!response.ok) {
+        throw new Error(`LLM endpoint failed with status ${response.status}.`);
+      }
+    },
+  };
+}
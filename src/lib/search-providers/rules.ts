@@ -0,0 +1,12 @@
+// src/lib/search-providers/rules.ts
+
+import { parseQueryRules } from '@/lib/rule-parser';
+import type { SearchParserProvider } from '@/lib/search-providers/types';
+
+// Offline provider; also the fallback whenever another provider fails
+export const rulesProvider: SearchParserProvider = {
+  name: 'rules',
+  async parse(searchTerm) {
+    return parseQueryRules(searchTerm);
+  },
+};
@@ -0,0 +1,17 @@
+// src/lib/search-providers/types.ts
+
+import type { AISearchResult } from '@/lib/search-query';
+
+// Which backend turns free text into a structured TMDB query
+export type SearchProviderName = 'gemini' | 'openai' | 'rules' | 'fixture' | 'fake';
+
+export interface SearchParserProvider {
+  name: SearchProviderName;
+  // Parses one query. Implementations throw on transport or format errors;
+  // the API route falls back to the rule-based provider in that case.
+  parse(searchTerm: string): Promise<AISearchResult>;
+  // Checks that the backend is reachable and accepts the credentials without
+  // parsing anything; used by /api/health. Providers that need nothing
+  // external (rules) leave it out.
+  ping?(): Promise<void>;
+}
@@ -0,0 +1,109 @@
+// src/lib/search-query.ts
+
+// The structured search query produced by the AI / rule-based parsers and
+// consumed by the page when it calls tmdb-proxy.
+
+import type { MessageKey, MessageVars } from '@/lib/i18n';
+import type { NamedFilters, NameResolution } from '@/lib/name-resolution';
+
+// TMDB endpoints the parser may route a query to
+export type AISearchPath =
+  | 'search/movie'
+  | 'search/tv'
+  | 'search/multi'
+  | 'discover/movie'
+  | 'discover/tv'
+  | 'trending/all/day'
+  | 'trending/all/week'
+  | 'trending/movie/day'
+  | 'trending/movie/week'
+  | 'trending/tv/day'
+  | 'trending/tv/week';
+
+export const AI_SEARCH_PATHS: readonly AISearchPath[] = [
+  'search/movie', 'search/tv', 'search/multi',
+  'discover/movie', 'discover/tv',
+  'trending/all/day', 'trending/all/week',
+  'trending/movie/day', 'trending/movie/week',
+  'trending/tv/day', 'trending/tv/week',
+];
+
+// Something the server changed or dropped while validating parser output
+export interface SearchWarning {
+  code: 'path_repaired' | 'query_moved' | 'param_dropped' | 'value_repaired' | 'names_dropped' | 'parser_fallback';
+  // The parameter concerned, if any
+  param?: string;
+  message: string;
+  // Catalog key and values `message` was built from, so the route can answer in the request's language
+  messageKey?: MessageKey;
+  messageVars?: MessageVars;
+}
+
+// A phrase of the query a parser recognised, e.g. { kind: 'rating', phrase: 'rated above 8' }
+export interface SearchSource {
+  kind: string;
+  phrase: string;
+}
+
+// One extracted filter, shown as a chip the user can remove or edit
+export interface SearchFilterChip {
+  // Stable key, `${param}:${value}`
+  id: string;
+  kind: 'query' | 'genre' | 'cast' | 'crew' | 'keyword' | 'rating' | 'votes' | 'year' | 'date' | 'runtime' | 'language' | 'region' | 'provider' | 'sort' | 'other';
+  // Human label, e.g. 'Science Fiction' or 'Rating ≥ 7.5'
+  label: string;
+  // The TMDB param the chip controls and its share of the value (one id of an id list)
+  param: string;
+  value: string;
+  // The part of the query the filter was read from, when it can be pointed at
+  source?: string;
+  // How sure the parser is about this filter, 0-1
+  confidence: number;
+  // Whether the value can be typed in; id-based filters can only be removed
+  editable: boolean;
+  // The query of a search/* path cannot be removed, only changed
+  removable: boolean;
+}
+
+// Define the shape of the AI-generated structured search query
+export interface AISearchResult {
+  path: AISearchPath;
+  params: {
+    query?: string;
+    with_genres?: string; // TMDB Genre ID, e.g., '878' for Sci-Fi
+    'vote_average.gte'?: string; // Minimum rating, e.g., '7.5'
+    'primary_release_year'?: string; // Specific year for movies, e.g., '2024'
+    'first_air_date_year'?: string; // Specific first-air year for TV, e.g., '2024'
+    sort_by?: string; // e.g., 'vote_count.desc'
+    [key: string]: string | undefined;
+  };
+  // Human-readable genre, people and keyword names; resolved to TMDB ids before responding
+  names?: NamedFilters;
+  // Outcome of that resolution, so the client can show what was (not) understood
+  resolution?: Omit<NameResolution, 'params'>;
+  // Repairs applied to the parser's output, shown next to the search intent
+  warnings?: SearchWarning[];
+  // Phrases the rule-based parser consumed; used to explain the result, not sent to the client
+  sources?: SearchSource[];
+  // Every filter in `params`, explained
+  explanation?: SearchFilterChip[];
+  // For discover paths: the part of the query no filter explains (often a title or
+  // name). When set, the client runs a hybrid search instead of plain discover.
+  hybridText?: string;
+}
+
+// Matches the query limit of the search/* routes in tmdb-routes
+export const MAX_SEARCH_TERM_LENGTH = 200;
+
+/**
+ * Cleans free text before it reaches a parser: removes control and invisible
+ * formatting characters (zero-width, bidi overrides) and collapses whitespace.
+ * Length is checked by the caller against MAX_SEARCH_TERM_LENGTH.
+ */
+export function sanitizeSearchTerm(raw: string): string {
+  return raw
+    .normalize('NFKC')
+    .replace(/[\p{Cc}\p{Cf}\p{Zl}\p{Zp}]/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
@@ -0,0 +1,64 @@
+// src/lib/search-url.ts
+
+// Keeps a search in the page URL so reloads, back/forward and shared links
+// show the same results. The URL holds the search term and the resolved
+// filters as TMDB parameters, e.g.
+//   /?q=best+sci-fi&path=discover%2Fmovie&with_genres=878&sort_by=vote_average.desc
+// Without `path` the term is parsed again; without `q` (filters applied in
+// the filter panel) the filters are shown as they are.
+
+import type { TmdbQueryParams } from '@/lib/movies';
+import { AI_SEARCH_PATHS, AISearchPath, MAX_SEARCH_TERM_LENGTH } from '@/lib/search-query';
+import { matchRoute, validateRouteParams } from '@/lib/tmdb-routes';
+
+export interface SearchUrlState {
+  // '' when the filters were set by hand
+  term: string;
+  // The filters the results came from; null when only the term is known
+  query: TmdbQueryParams | null;
+  // Text a hybrid search ranks against (see AISearchResult.hybridText)
+  hybridText: string | null;
+}
+
+// URL parameters of this app; every other one is a TMDB parameter
+const TERM_PARAM = 'q';
+const PATH_PARAM = 'path';
+const TEXT_PARAM = 'text';
+
+/**
+ * The URL parameters for a search. The page number is left out: a shared
+ * link starts from the first page.
+ */
+export function toSearchParams({ term, query, hybridText }: SearchUrlState): URLSearchParams {
+  const params = new URLSearchParams(term ? { [TERM_PARAM]: term } : {});
+  if (!query) return params;
+
+  const { path, ...filters } = query;
+  params.set(PATH_PARAM, path);
+  Object.entries(filters).forEach(([key, value]) => {
+    if (value !== undefined && key !== 'page') params.set(key, value);
+  });
+  if (hybridText) params.set(TEXT_PARAM, hybridText);
+  return params;
+}
+
+/**
+ * Reads a search back from a query string; null when there is none. Links
+ * are user input: a path the parser could not have produced is ignored, and
+ * so is any filter its route would reject.
+ */
+export function readSearchParams(params: URLSearchParams): SearchUrlState | null {
+  const term = params.get(TERM_PARAM)?.trim().slice(0, MAX_SEARCH_TERM_LENGTH) ?? '';
+  const path = params.get(PATH_PARAM);
+  const match = path && AI_SEARCH_PATHS.includes(path as AISearchPath) ? matchRoute(path) : null;
+  if (!path || !match) return term ? { term, query: null, hybridText: null } : null;
+
+  const raw: Record<string, string> = {};
+  params.forEach((value, key) => {
+    if (key !== TERM_PARAM && key !== PATH_PARAM && key !== TEXT_PARAM && key !== 'page') raw[key] = value;
+  });
+  const { params: filters } = validateRouteParams(match.route, raw);
+  const hybridText = path.startsWith('discover/') ? params.get(TEXT_PARAM)?.trim() || null : null;
+
+  return { term, query: { path, ...filters }, hybridText };
+}
@@ -0,0 +1,329 @@
+// src/lib/search-validation.ts
+
+// Validates a search parser result against the TMDB route registry and
+// repairs what can be repaired: misspelled paths, a query sent to discover,
+// ratings outside 0-10, free-form years, parameters the route does not accept.
+// Every change is reported as a warning instead of failing the search. Model
+// output is checked strictly: a path outside the allowlist, or a parameter
+// that no search route takes, is not repaired but rejects the whole result.
+// A parameter of another search route ("primary_release_year" on search/multi)
+// is a common slip and is only dropped.
+
+import { MessageKey, MessageVars, translate } from '@/lib/i18n';
+import { DEFAULT_LOCALE, Locale } from '@/lib/locale';
+import { checkParamValue, matchRoute, validateRouteParams, ValidationIssue } from '@/lib/tmdb-routes';
+import { AI_SEARCH_PATHS, AISearchPath, AISearchResult, SearchWarning } from '@/lib/search-query';
+import type { NamedFilters } from '@/lib/name-resolution';
+
+type Params = AISearchResult['params'];
+
+const MOVIE_YEAR = 'primary_release_year';
+const TV_YEAR = 'first_air_date_year';
+const NAME_KINDS = ['genres', 'cast', 'crew', 'keywords'] as const;
+
+// Upper bounds for names in a result; a real query never comes close
+const MAX_NAMES_PER_KIND = 10;
+const MAX_NAME_LENGTH = 100;
+
+// The client owns paging, so a page chosen by the model is never forwarded
+const IGNORED_PARAMS = new Set(['page']);
+
+// Every parameter some search path takes; anything else in model output was put there on purpose
+const SEARCH_PARAMS = new Set(AI_SEARCH_PATHS.flatMap(path => Object.keys(matchRoute(path)?.route.params ?? {})));
+
+/** A warning whose message comes from the catalog, in English until the route localizes it. */
+export const searchWarning = (
+  code: SearchWarning['code'],
+  key: MessageKey,
+  vars: MessageVars = {},
+  param?: string,
+): SearchWarning => ({
+  code,
+  ...(param ? { param } : {}),
+  message: translate(DEFAULT_LOCALE.language, key, vars),
+  messageKey: key,
+  messageVars: vars,
+});
+
+/** Rewrites catalog warnings in `locale`; others are left as they are. */
+export const localizeWarnings = (warnings: SearchWarning[], locale: Locale): SearchWarning[] =>
+  warnings.map(warning => (warning.messageKey
+    ? { ...warning, message: translate(locale.language, warning.messageKey, warning.messageVars) }
+    : warning));
+
+const isSearchPath = (path: AISearchPath) => path.startsWith('search/');
+const mediaOf = (path: AISearchPath): 'movie' | 'tv' | 'all' =>
+  path.endsWith('/tv') || path.startsWith('trending/tv/') ? 'tv'
+    : path.endsWith('/movie') || path.startsWith('trending/movie/') ? 'movie'
+      : 'all';
+
+const searchPathFor = (media: 'movie' | 'tv' | 'all'): AISearchPath =>
+  media === 'all' ? 'search/multi' : `search/${media}`;
+const discoverPathFor = (media: 'movie' | 'tv' | 'all'): AISearchPath =>
+  media === 'tv' ? 'discover/tv' : 'discover/movie';
+
+const isKnownPath = (path: string): path is AISearchPath => (AI_SEARCH_PATHS as readonly string[]).includes(path);
+
+// Fixes spelling variants such as '/3/discover/movies/' or 'search/shows'.
+// Full URLs are only read on TMDB's own host.
+function repairPath(raw: string): AISearchPath | null {
+  const cleaned = raw.trim().toLowerCase()
+    .replace(/^https?:\/\/api\.themoviedb\.org(?=\/)/, '')
+    .replace(/^\/+|\/+$/g, '')
+    .replace(/^3\//, '')
+    .split('/')
+    .map(part => (part === 'movies' || part === 'film' || part === 'films' ? 'movie'
+      : part === 'shows' || part === 'series' || part === 'show' ? 'tv'
+        : part))
+    .join('/');
+  return isKnownPath(cleaned) ? cleaned : null;
+}
+
+// Picks a path from the params when the model's path is beyond repair
+function inferPath(params: Params, names: NamedFilters | undefined): AISearchPath {
+  const media = params[TV_YEAR] ? 'tv' : params[MOVIE_YEAR] ? 'movie' : 'all';
+  const hasFilters = hasDiscoverFilters(params, names);
+  if (params.query && !hasFilters) return searchPathFor(media);
+  return discoverPathFor(media);
+}
+
+function hasDiscoverFilters(params: Params, names: NamedFilters | undefined): boolean {
+  const filterParams = Object.keys(params).filter(key => key !== 'query' && key !== 'sort_by' && !IGNORED_PARAMS.has(key) && params[key]);
+  const filterNames = NAME_KINDS.some(kind => (names?.[kind]?.length ?? 0) > 0);
+  return filterParams.length > 0 || filterNames;
+}
+
+// Accepts '7.5', '7.5/10', '8+', '75%' and clamps to TMDB's 0-10 scale
+function repairRating(raw: string): string | null {
+  const match = /-?\d+(?:\.\d+)?/.exec(raw);
+  if (!match) return null;
+  let rating = Number(match[0]);
+  if (/%/.test(raw) || /\/\s*100\b/.test(raw)) rating /= 10;
+  rating = Math.min(10, Math.max(0, rating));
+  return String(Math.round(rating * 10) / 10);
+}
+
+// Accepts '2024', '2024-05-01', "'99" and '99'
+function repairYear(raw: string): string | null {
+  const full = /\b(1[89]\d{2}|20\d{2}|2100)\b/.exec(raw);
+  if (full) return full[1];
+  const short = /^'?(\d{2})$/.exec(raw.trim());
+  if (!short) return null;
+  const twoDigits = Number(short[1]);
+  // Two-digit years up to next year read as 20xx, the rest as 19xx
+  const century = twoDigits <= (new Date().getFullYear() + 1) % 100 ? 2000 : 1900;
+  return String(century + twoDigits);
+}
+
+// Accepts 'jp' for a region or country and 'FR' for a language
+const CODE_PARAMS: Record<string, (code: string) => string> = {
+  region: code => code.toUpperCase(),
+  with_origin_country: code => code.toUpperCase(),
+  with_original_language: code => code.toLowerCase(),
+};
+
+// Accepts 'rating', 'vote_average' or 'release_date.asc' and maps them onto the route's sort values
+function repairSort(raw: string, media: 'movie' | 'tv'): string {
+  const [field, direction] = raw.trim().toLowerCase().split('.');
+  const fields: Record<string, string> = {
+    rating: 'vote_average',
+    votes: 'vote_count',
+    popular: 'popularity',
+    release_date: media === 'tv' ? 'first_air_date' : 'primary_release_date',
+    primary_release_date: media === 'tv' ? 'first_air_date' : 'primary_release_date',
+    first_air_date: media === 'tv' ? 'first_air_date' : 'primary_release_date',
+    date: media === 'tv' ? 'first_air_date' : 'primary_release_date',
+    title: media === 'tv' ? 'name' : 'title',
+    name: media === 'tv' ? 'name' : 'title',
+  };
+  return `${fields[field] ?? field}.${direction === 'asc' ? 'asc' : 'desc'}`;
+}
+
+function readNames(raw: unknown, warnings: SearchWarning[]): NamedFilters | undefined {
+  if (raw === undefined || raw === null) return undefined;
+  if (typeof raw !== 'object' || Array.isArray(raw)) {
+    warnings.push(searchWarning('names_dropped', 'warning.namesNotObject'));
+    return undefined;
+  }
+
+  const source = raw as Record<string, unknown>;
+  const names: NamedFilters = {};
+  NAME_KINDS.forEach(kind => {
+    const value = source[kind];
+    if (value === undefined) return;
+    // A single name instead of a list is common enough to accept
+    const list = typeof value === 'string' ? [value] : Array.isArray(value) ? value : [];
+    const kept = list.filter((item): item is string => typeof item === 'string' && item.trim() !== '').map(item => item.trim());
+    if (kept.length !== list.length || (list.length === 0 && !Array.isArray(value))) {
+      warnings.push(searchWarning('names_dropped', 'warning.namesInvalid', { kind }, kind));
+    }
+    if (kept.length > 0) names[kind] = kept;
+  });
+  if (source.match === 'or') names.match = 'or';
+
+  return Object.keys(names).length > 0 ? names : undefined;
+}
+
+function readParams(raw: unknown, warnings: SearchWarning[]): Params {
+  const params: Params = {};
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    if (raw !== undefined) warnings.push(searchWarning('param_dropped', 'warning.paramsNotObject'));
+    return params;
+  }
+
+  Object.entries(raw as Record<string, unknown>).forEach(([key, value]) => {
+    if (typeof value === 'string' || typeof value === 'number') {
+      if (String(value).trim()) params[key] = String(value).trim();
+      return;
+    }
+    if (value !== null && value !== undefined) {
+      warnings.push(searchWarning('param_dropped', 'warning.paramNotSingle', { param: key }, key));
+    }
+  });
+  return params;
+}
+
+export interface ValidateOptions {
+  // For LLM output: a path that is not an allowed one (spelling variants
+  // aside) or a parameter no search route takes means the model was
+  // steered, e.g. by instructions hidden in the search term
+  strict?: boolean;
+}
+
+/**
+ * Validates raw parser output and returns a result that tmdb-proxy will accept.
+ * Throws when the input is not an object at all and, with `strict`, throws
+ * SearchResultRejectedError for output outside the allowlist; everything else
+ * is repaired or dropped, with a warning describing the change.
+ */
+export function validateSearchResult(
+  raw: unknown,
+  { strict = false }: ValidateOptions = {},
+): { result: AISearchResult; warnings: SearchWarning[] } {
+  if (!raw || typeof raw !== 'object' || Array.isArray(raw)) {
+    throw new Error('AI response is not a JSON object.');
+  }
+
+  const source = raw as { path?: unknown; params?: unknown; names?: unknown };
+  const warnings: SearchWarning[] = [];
+  // Outside the allowlist; fatal with `strict`
+  const rejected: ValidationIssue[] = [];
+  const params = readParams(source.params, warnings);
+  const names = readNames(source.names, warnings);
+
+  // 1. Path: exact, repairable, or inferred from the parameters
+  let path: AISearchPath;
+  if (typeof source.path === 'string' && isKnownPath(source.path)) {
+    path = source.path;
+  } else {
+    const repaired = typeof source.path === 'string' ? repairPath(source.path) : null;
+    if (!repaired) {
+      rejected.push({ param: 'path', code: 'invalid_path', message: `${JSON.stringify(source.path ?? null)} is not an allowed search path.` });
+    }
+    path = repaired ?? inferPath(params, names);
+    warnings.push(searchWarning('path_repaired', 'warning.pathReplaced', { path: JSON.stringify(source.path ?? null), replacement: path }));
+  }
+
+  // 2. Query and path must agree: discover and trending ignore a query, search needs one
+  if (params.query && !isSearchPath(path)) {
+    if (!hasDiscoverFilters(params, names) || path.startsWith('trending/')) {
+      const searchPath = searchPathFor(mediaOf(path));
+      warnings.push(searchWarning('query_moved', 'warning.queryMoved', { query: params.query, replacement: searchPath, path }, 'query'));
+      path = searchPath;
+    } else {
+      warnings.push(searchWarning('param_dropped', 'warning.queryDropped', { query: params.query, path }, 'query'));
+      delete params.query;
+    }
+  } else if (!params.query && isSearchPath(path)) {
+    const discoverPath = discoverPathFor(mediaOf(path));
+    warnings.push(searchWarning('query_moved', 'warning.queryMissing', { replacement: discoverPath, path }));
+    path = discoverPath;
+  }
+
+  // 3. Parameters: fix the year key for the media type, then check every value against the route
+  const media = mediaOf(path);
+  if (media === 'tv' && params[MOVIE_YEAR] && !params[TV_YEAR]) {
+    params[TV_YEAR] = params[MOVIE_YEAR];
+    delete params[MOVIE_YEAR];
+    warnings.push(searchWarning('value_repaired', 'warning.tvYear', { param: TV_YEAR, other: MOVIE_YEAR }, TV_YEAR));
+  } else if (media === 'movie' && params[TV_YEAR] && !params[MOVIE_YEAR]) {
+    params[MOVIE_YEAR] = params[TV_YEAR];
+    delete params[TV_YEAR];
+    warnings.push(searchWarning('value_repaired', 'warning.movieYear', { param: MOVIE_YEAR, other: TV_YEAR }, MOVIE_YEAR));
+  }
+
+  const route = matchRoute(path)?.route;
+  const checked: Params = {};
+  Object.entries(params).forEach(([key, value]) => {
+    const spec = route?.params[key];
+    if (value === undefined || IGNORED_PARAMS.has(key)) return;
+    if (!spec) {
+      if (!SEARCH_PARAMS.has(key)) rejected.push({ param: key, code: 'unknown_param', message: `${path} does not take "${key}".` });
+      warnings.push(searchWarning('param_dropped', 'warning.paramUnsupported', { param: key, path }, key));
+      return;
+    }
+
+    let normalised = checkParamValue(spec, value);
+    if (normalised === null) {
+      const repaired = key.startsWith('vote_average.') ? repairRating(value)
+        : key === MOVIE_YEAR || key === TV_YEAR || key === 'year' ? repairYear(value)
+          : key === 'sort_by' && media !== 'all' ? repairSort(value, media)
+            : key in CODE_PARAMS ? CODE_PARAMS[key](value.trim())
+              : null;
+      normalised = repaired === null ? null : checkParamValue(spec, repaired);
+      if (normalised === null) {
+        warnings.push(searchWarning('param_dropped', 'warning.valueInvalid', { param: key, value }, key));
+        return;
+      }
+      warnings.push(searchWarning('value_repaired', 'warning.valueRepaired', { param: key, value, replacement: normalised }, key));
+    }
+    checked[key] = normalised;
+  });
+
+  if (strict && rejected.length > 0) {
+    throw new SearchResultRejectedError(rejected);
+  }
+
+  const result: AISearchResult = { path, params: checked };
+  if (names) result.names = names;
+  return { result, warnings };
+}
+
+// A parser result that falls outside the allowed routes and parameters
+export class SearchResultRejectedError extends Error {
+  constructor(public issues: ValidationIssue[]) {
+    super(`Search parser output was rejected: ${issues.map(issue => issue.message).join(' ')}`);
+  }
+}
+
+/**
+ * Final gate before a result leaves the server, applied to every provider.
+ * Unlike validateSearchResult it repairs nothing: a path outside
+ * AI_SEARCH_PATHS, a parameter the route would refuse or oversized names
+ * mean the output was steered, and the whole result is rejected.
+ */
+export function assertAllowedSearchResult(result: AISearchResult): void {
+  const issues: ValidationIssue[] = [];
+  const match = isKnownPath(result.path) ? matchRoute(result.path) : null;
+
+  if (!match) {
+    issues.push({ param: 'path', code: 'invalid_path', message: `"${result.path}" is not an allowed search path.` });
+  } else {
+    issues.push(...validateRouteParams(match.route, result.params).issues);
+  }
+
+  NAME_KINDS.forEach(kind => {
+    const list: unknown = result.names?.[kind];
+    if (list === undefined) return;
+    const valid = Array.isArray(list)
+      && list.length <= MAX_NAMES_PER_KIND
+      && list.every(name => typeof name === 'string' && name.length <= MAX_NAME_LENGTH);
+    if (!valid) {
+      issues.push({ param: kind, code: 'invalid_value', message: `"${kind}" must be at most ${MAX_NAMES_PER_KIND} names of up to ${MAX_NAME_LENGTH} characters.` });
+    }
+  });
+
+  if (issues.length > 0) {
+    throw new SearchResultRejectedError(issues);
+  }
+}
@@ -0,0 +1,238 @@
+// src/lib/taste-profile.ts
+
+// "For You" ranking. Turns what a device saved, rated and opened into a taste
+// profile (genre, keyword, cast and decade weights) and scores candidate
+// movies against it. Everything here is a pure function of its arguments, so
+// the ranking can be checked against fixture data without calling TMDB.
+
+import type { CollectionFlags } from '@/lib/collections';
+import { MessageKey, MessageVars, translate } from '@/lib/i18n';
+import { DEFAULT_LOCALE, Locale } from '@/lib/locale';
+import type { SearchMatch } from '@/lib/movies';
+
+// How much each kind of history says about taste. A rating replaces `seen`
+// and counts from -1 (rated 1) through 0 (5.5) to +1 (rated 10).
+export const SIGNAL_WEIGHTS = { rating: 1, favorite: 1, watchlist: 0.5, view: 0.3, seen: 0.2 };
+
+// Weights of the ranking signals; they add up to 1
+export const RECOMMENDATION_WEIGHTS = { genre: 0.3, similar: 0.25, cast: 0.15, keyword: 0.1, decade: 0.1, quality: 0.1 };
+
+// Vote count at which the quality signal reaches half the rating
+const VOTE_HALF_POINT = 500;
+// Signals at or above this strength are named in the reasons
+const REASON_THRESHOLD = 0.5;
+// Features at or below this weight are filtered out of the candidate queries
+const DISLIKE_THRESHOLD = -0.5;
+
+// The features of a movie from the user's history
+export interface SeedMovie {
+  id: number;
+  title: string;
+  genreIds: number[];
+  keywordIds: number[];
+  // Top billed cast only
+  castIds: number[];
+  year: number | null;
+}
+
+export interface WeightedSeed {
+  movie: SeedMovie;
+  weight: number;
+}
+
+// Feature weights are scaled to -1..1 per kind
+export interface TasteProfile {
+  genres: Map<number, number>;
+  keywords: Map<number, number>;
+  cast: Map<number, number>;
+  decades: Map<number, number>;
+  // Seeds with a positive weight, strongest first
+  seeds: WeightedSeed[];
+}
+
+// A list item from discover/movie or movie/{id}/recommendations
+export interface CandidateMovie {
+  id: number;
+  title?: string;
+  genre_ids?: number[];
+  release_date?: string;
+  vote_average?: number;
+  vote_count?: number;
+  popularity?: number;
+}
+
+// Which candidate queries returned a movie
+export interface CandidateSources {
+  // The genre discover built from the profile
+  taste: boolean;
+  // Ids the cast or keyword discover asked for; TMDB ORs them, so any one may be the match
+  castIds: number[];
+  keywordIds: number[];
+  // Seeds whose movie/{id}/recommendations listed the movie
+  similarTo: number[];
+}
+
+export interface RankedCandidate<T extends CandidateMovie> {
+  movie: T;
+  match: SearchMatch;
+}
+
+export const decadeOf = (year: number): number => Math.floor(year / 10) * 10;
+
+export const yearOf = (date: string | undefined): number | null =>
+  date && /^\d{4}/.test(date) ? Number(date.slice(0, 4)) : null;
+
+/**
+ * The taste weight of one movie in the history. Positive means "more like
+ * this", negative (a low rating) means "less like this", 0 means no signal.
+ */
+export function signalWeight(flags: CollectionFlags | undefined, viewed: boolean): number {
+  let weight = viewed ? SIGNAL_WEIGHTS.view : 0;
+  if (!flags) return weight;
+
+  if (flags.rating !== null) weight += SIGNAL_WEIGHTS.rating * (flags.rating - 5.5) / 4.5;
+  else if (flags.seen) weight += SIGNAL_WEIGHTS.seen;
+  if (flags.favorite) weight += SIGNAL_WEIGHTS.favorite;
+  if (flags.watchlist) weight += SIGNAL_WEIGHTS.watchlist;
+  return Math.round(weight * 1000) / 1000;
+}
+
+const addWeight = (map: Map<number, number>, key: number, weight: number) => map.set(key, (map.get(key) ?? 0) + weight);
+
+// Scales a map so its strongest entry is +-1
+const normalise = (map: Map<number, number>): Map<number, number> => {
+  const max = Math.max(0, ...Array.from(map.values()).map(Math.abs));
+  return max > 0 ? new Map(Array.from(map, ([key, value]) => [key, value / max])) : map;
+};
+
+/**
+ * Sums each seed's weight onto its genres, keywords, cast and decade, then
+ * scales every kind to -1..1 so a long history does not outweigh a short one.
+ */
+export function buildTasteProfile(seeds: WeightedSeed[]): TasteProfile {
+  const genres = new Map<number, number>();
+  const keywords = new Map<number, number>();
+  const cast = new Map<number, number>();
+  const decades = new Map<number, number>();
+
+  seeds.forEach(({ movie, weight }) => {
+    movie.genreIds.forEach(id => addWeight(genres, id, weight));
+    movie.keywordIds.forEach(id => addWeight(keywords, id, weight));
+    movie.castIds.forEach(id => addWeight(cast, id, weight));
+    if (movie.year !== null) addWeight(decades, decadeOf(movie.year), weight);
+  });
+
+  return {
+    genres: normalise(genres),
+    keywords: normalise(keywords),
+    cast: normalise(cast),
+    decades: normalise(decades),
+    seeds: seeds.filter(seed => seed.weight > 0).sort((a, b) => b.weight - a.weight || a.movie.id - b.movie.id),
+  };
+}
+
+/**
+ * The `count` strongest positive features of a kind, ties broken by id so the
+ * candidate queries are the same for the same history.
+ */
+export function topFeatures(map: Map<number, number>, count: number): number[] {
+  return Array.from(map)
+    .filter(([, weight]) => weight > 0)
+    .sort(([a, wa], [b, wb]) => wb - wa || a - b)
+    .slice(0, count)
+    .map(([id]) => id);
+}
+
+/**
+ * Features the history clearly dislikes (low ratings outweigh the rest), by
+ * id, for the candidate queries to leave out.
+ */
+export function dislikedFeatures(map: Map<number, number>): number[] {
+  return Array.from(map)
+    .filter(([, weight]) => weight <= DISLIKE_THRESHOLD)
+    .map(([id]) => id)
+    .sort((a, b) => a - b);
+}
+
+const mean = (values: number[]): number => (values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0);
+
+/**
+ * Scores one candidate as a weighted sum of six signals:
+ *
+ *   genre    mean profile weight of the movie's genres (-1..1)
+ *   similar  summed weight of the seeds that recommended it, relative to the
+ *            strongest seed and capped at 1
+ *   cast     mean profile weight of the actors the cast discover asked for
+ *   keyword  mean profile weight of the keywords the keyword discover asked for
+ *   decade   profile weight of the release decade (-1..1)
+ *   quality  vote_average / 10 scaled by vote_count / (vote_count + 500)
+ *
+ * Weights are RECOMMENDATION_WEIGHTS. Reasons are listed strongest first, in `locale`.
+ */
+export function scoreCandidate(
+  movie: CandidateMovie,
+  sources: CandidateSources,
+  profile: TasteProfile,
+  genreNames: Map<number, string>,
+  locale: Locale = DEFAULT_LOCALE,
+): SearchMatch {
+  const t = (key: MessageKey, vars?: MessageVars) => translate(locale.language, key, vars);
+  const reasons: string[] = [];
+  const foundBy: SearchMatch['foundBy'] = [];
+  if (sources.taste || sources.castIds.length > 0 || sources.keywordIds.length > 0) foundBy.push('taste');
+  if (sources.similarTo.length > 0) foundBy.push('similar');
+
+  const topSeed = profile.seeds[0]?.weight ?? 0;
+  const recommending = profile.seeds.filter(seed => sources.similarTo.includes(seed.movie.id));
+  const similar = topSeed > 0 ? Math.min(1, recommending.reduce((sum, seed) => sum + seed.weight, 0) / topSeed) : 0;
+  if (recommending.length > 0) reasons.push(t('reason.becauseYouLiked', { title: recommending[0].movie.title }));
+
+  const genreIds = movie.genre_ids ?? [];
+  const genre = mean(genreIds.map(id => profile.genres.get(id) ?? 0));
+  const likedGenres = genreIds.filter(id => (profile.genres.get(id) ?? 0) >= REASON_THRESHOLD && genreNames.has(id));
+  if (likedGenres.length > 0) {
+    const genres = new Intl.ListFormat(locale.language, { type: 'unit' }).format(likedGenres.map(id => genreNames.get(id) ?? ''));
+    reasons.push(t('reason.tasteGenres', { genres }));
+  }
+
+  const cast = mean(sources.castIds.map(id => profile.cast.get(id) ?? 0));
+  if (cast >= REASON_THRESHOLD) reasons.push(t('reason.tasteCast'));
+
+  const keyword = mean(sources.keywordIds.map(id => profile.keywords.get(id) ?? 0));
+  if (keyword >= REASON_THRESHOLD) reasons.push(t('reason.tasteKeywords'));
+
+  const year = yearOf(movie.release_date);
+  const decade = year !== null ? profile.decades.get(decadeOf(year)) ?? 0 : 0;
+  if (year !== null && decade >= REASON_THRESHOLD) reasons.push(t('reason.tasteDecade', { decade: decadeOf(year) }));
+
+  const votes = movie.vote_count ?? 0;
+  const quality = ((movie.vote_average ?? 0) / 10) * (votes / (votes + VOTE_HALF_POINT));
+
+  const score = RECOMMENDATION_WEIGHTS.genre * genre
+    + RECOMMENDATION_WEIGHTS.similar * similar
+    + RECOMMENDATION_WEIGHTS.cast * cast
+    + RECOMMENDATION_WEIGHTS.keyword * keyword
+    + RECOMMENDATION_WEIGHTS.decade * decade
+    + RECOMMENDATION_WEIGHTS.quality * quality;
+
+  return { score: Math.round(score * 1000) / 1000, foundBy, reasons };
+}
+
+/**
+ * Scores every candidate that is not in `excluded` and returns those with a
+ * positive score, best first. Ties are broken by id, so the same history and
+ * candidates always produce the same order.
+ */
+export function rankCandidates<T extends CandidateMovie>(
+  candidates: { movie: T; sources: CandidateSources }[],
+  profile: TasteProfile,
+  excluded: Set<number>,
+  genreNames: Map<number, string> = new Map(),
+  locale: Locale = DEFAULT_LOCALE,
+): RankedCandidate<T>[] {
+  return candidates
+    .filter(({ movie }) => !excluded.has(movie.id))
+    .map(({ movie, sources }) => ({ movie, match: scoreCandidate(movie, sources, profile, genreNames, locale) }))
+    .filter(({ match }) => match.score > 0)
+    .sort((a, b) => b.match.score - a.match.score || a.movie.id - b.movie.id);
+}
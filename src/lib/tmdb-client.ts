@@ -0,0 +1,57 @@
+// src/lib/tmdb-client.ts
+
+// Browser-side client for the app's TMDB routes: /api/tmdb-proxy for raw
+// registry paths, /api/hybrid-search and /api/recommendations for ranked
+// lists. Every failure rejects with an ApiError, so callers can tell a
+// rejected request, a TMDB outage and an unreachable server apart. A locale,
+// when given, picks the language and region TMDB answers for; a request id
+// ties the call to others in the server logs (e.g. a search and its parser call).
+
+import { fetchApi } from '@/lib/api-error';
+import { formatLocale, Locale } from '@/lib/locale';
+import { MediaPage, RawPage, TmdbQueryParams, toMediaPage } from '@/lib/movies';
+import type { TmdbParams, TmdbQuery, TmdbResponse } from '@/lib/tmdb-types';
+
+export interface TmdbClientOptions {
+  locale?: Locale;
+  // Sent as X-Request-Id; a fresh id is generated when missing
+  requestId?: string;
+}
+
+// Calls one of the app's API routes with `params` and the locale as its query string
+const fetchApiJson = <T>(endpoint: string, params: TmdbQuery, { locale, requestId }: TmdbClientOptions = {}): Promise<T> => {
+  const urlParams = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== undefined) {
+      urlParams.set(key, value);
+    }
+  });
+  if (locale) urlParams.set('locale', formatLocale(locale));
+
+  return fetchApi<T>(`${endpoint}?${urlParams.toString()}`, requestId ? { headers: { 'X-Request-Id': requestId } } : undefined);
+};
+
+/**
+ * Fetches an allowlisted TMDB path through the proxy and returns the raw TMDB
+ * JSON, typed by path, e.g. fetchTmdb(`movie/${id}`) resolves to MovieDetails.
+ */
+export const fetchTmdb = <P extends string>(
+  path: P,
+  params: TmdbParams<P> = {} as TmdbParams<P>,
+  options?: TmdbClientOptions,
+): Promise<TmdbResponse<P>> =>
+  fetchApiJson<TmdbResponse<P>>('/api/tmdb-proxy', { ...params, path }, options);
+
+// Fetches one page of a TMDB list endpoint through the proxy
+export const fetchTmdbPage = async ({ path, ...params }: TmdbQueryParams, options?: TmdbClientOptions): Promise<MediaPage> =>
+  toMediaPage(await fetchTmdb(path, params, options) as RawPage, path);
+
+// Fetches one page of a discover query merged with a text search, ranked by the server.
+// Every item carries a `match` with its score and reasons.
+export const fetchHybrid = async (params: TmdbQueryParams, text: string, options?: TmdbClientOptions): Promise<MediaPage> =>
+  toMediaPage(await fetchApiJson<RawPage>('/api/hybrid-search', { ...params, text }, options), params.path);
+
+// Fetches one page of "For You" movies for this device. Only `page` is read from
+// the params; the rest of the query comes from the device's history on the server.
+export const fetchRecommendations = async (params: TmdbQueryParams, options?: TmdbClientOptions): Promise<MediaPage> =>
+  toMediaPage(await fetchApiJson<RawPage>('/api/recommendations', { page: params.page }, options), 'movie/recommendations');
@@ -0,0 +1,101 @@
+// src/lib/tmdb-images.ts
+
+// TMDB image URLs. TMDB serves every image at a fixed set of widths listed by
+// its `configuration` endpoint; the server reads that list (see
+// getImageConfig in tmdb-server) and the browser builds a next/image loader
+// from it so each screen downloads the smallest width that still looks sharp.
+
+import type { ImageLoader } from 'next/image';
+import type { TmdbConfiguration } from '@/lib/tmdb-types';
+
+export type ImageKind = 'poster' | 'backdrop' | 'profile' | 'logo';
+
+export interface ImageConfig {
+  // e.g. https://image.tmdb.org/t/p/
+  baseUrl: string;
+  // Size names per kind, smallest first, e.g. ['w92', 'w154', ..., 'original']
+  sizes: Record<ImageKind, string[]>;
+}
+
+// TMDB's published sizes, used until (or when) the configuration cannot be read
+export const DEFAULT_IMAGE_CONFIG: ImageConfig = {
+  baseUrl: 'https://image.tmdb.org/t/p/',
+  sizes: {
+    poster: ['w92', 'w154', 'w185', 'w342', 'w500', 'w780', 'original'],
+    backdrop: ['w300', 'w780', 'w1280', 'original'],
+    profile: ['w45', 'w185', 'h632', 'original'],
+    logo: ['w45', 'w92', 'w154', 'w185', 'w300', 'w500', 'original'],
+  },
+};
+
+// Layout widths for the `sizes` attribute, matching the grids that show each kind
+export const IMAGE_SIZES = {
+  // MediaGrid: 2 columns on phones up to 6 on wide screens
+  grid: '(min-width: 1280px) 16vw, (min-width: 1024px) 20vw, (min-width: 768px) 25vw, (min-width: 640px) 33vw, 50vw',
+  // The cast grid on the detail page: 3 to 6 columns
+  cast: '(min-width: 768px) 16vw, (min-width: 640px) 25vw, 33vw',
+  // The detail page poster: w-48, md:w-64
+  detailPoster: '(min-width: 768px) 256px, 192px',
+  backdrop: '100vw',
+} as const;
+
+// The widest a MediaGrid card gets, in CSS pixels (3 columns just below the md breakpoint)
+export const GRID_CARD_WIDTH = 240;
+
+/**
+ * Picks the image settings out of TMDB's configuration response, keeping the
+ * defaults for any list it leaves empty.
+ */
+export function toImageConfig(configuration: TmdbConfiguration): ImageConfig {
+  const { images } = configuration;
+  const pick = (sizes: string[] | undefined, kind: ImageKind) => (sizes?.length ? sizes : DEFAULT_IMAGE_CONFIG.sizes[kind]);
+  return {
+    baseUrl: images.secure_base_url || DEFAULT_IMAGE_CONFIG.baseUrl,
+    sizes: {
+      poster: pick(images.poster_sizes, 'poster'),
+      backdrop: pick(images.backdrop_sizes, 'backdrop'),
+      profile: pick(images.profile_sizes, 'profile'),
+      logo: pick(images.logo_sizes, 'logo'),
+    },
+  };
+}
+
+// Only width-based sizes ("w342") can be picked by width; "h632" and "original" have no known width
+const widthOf = (size: string): number | null => {
+  const match = /^w(\d+)$/.exec(size);
+  return match ? Number(match[1]) : null;
+};
+
+// The width-based sizes of a kind, smallest first, up to the first one at or
+// above `maxWidth` so the largest layout is never upscaled
+const usableSizes = (config: ImageConfig, kind: ImageKind, maxWidth: number) => {
+  const widths = config.sizes[kind]
+    .map(size => ({ size, width: widthOf(size) }))
+    .filter((entry): entry is { size: string; width: number } => entry.width !== null)
+    .sort((a, b) => a.width - b.width);
+  const cut = widths.findIndex(entry => entry.width >= maxWidth);
+  return cut === -1 ? widths : widths.slice(0, cut + 1);
+};
+
+const imageUrl = (config: ImageConfig, size: string, path: string) => `${config.baseUrl}${size}${path}`;
+
+/**
+ * A next/image loader for one kind of TMDB image: every width in the srcset
+ * is served by the smallest size TMDB offers at least that wide. `maxWidth`
+ * (in image pixels) leaves out widths no screen will ever need.
+ */
+export function tmdbImageLoader(config: ImageConfig, kind: ImageKind, maxWidth = Infinity): ImageLoader {
+  const sizes = usableSizes(config, kind, maxWidth);
+  return ({ src, width }) => {
+    const size = sizes.find(entry => entry.width >= width) ?? sizes[sizes.length - 1];
+    return imageUrl(config, size?.size ?? 'original', src);
+  };
+}
+
+/**
+ * The smallest version of an image, shown blurred while the real one loads.
+ */
+export function previewUrl(config: ImageConfig, kind: ImageKind, path: string): string {
+  const [smallest] = usableSizes(config, kind, Infinity);
+  return imageUrl(config, smallest?.size ?? 'original', path);
+}
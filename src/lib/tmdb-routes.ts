@@ -0,0 +1,356 @@
+// src/lib/tmdb-routes.ts
+
+// Registry of the TMDB v3 routes the proxy is allowed to reach, together with
+// a typed schema for every query parameter each route accepts. Anything not
+// declared here is rejected before an upstream call is made.
+
+export type ParamSpec =
+  | { type: 'string'; maxLength?: number; pattern?: RegExp }
+  | { type: 'integer'; min?: number; max?: number }
+  | { type: 'number'; min?: number; max?: number }
+  | { type: 'boolean' }
+  | { type: 'date' }
+  | { type: 'enum'; values: readonly string[] }
+  // Comma separated subset of the given values, e.g. 'credits,videos'
+  | { type: 'enumList'; values: readonly string[] }
+  // Comma (AND) or pipe (OR) separated numeric TMDB ids, e.g. '878,28' or '878|28'
+  | { type: 'idList' };
+
+export type ParamSchema = Record<string, ParamSpec>;
+
+export interface TmdbRoute {
+  // Stable identifier used for logging and per-route configuration
+  id: string;
+  // Path template relative to the TMDB v3 base, e.g. 'movie/{movie_id}'
+  pattern: string;
+  // Schema for the templated path segments
+  segments?: ParamSchema;
+  // Schema for the query parameters forwarded upstream
+  params: ParamSchema;
+  // How long a successful response may be served from the proxy cache
+  ttlSeconds: number;
+  // Whether the endpoint returns a paged list (page, total_pages, total_results)
+  paginated?: boolean;
+}
+
+export interface ValidationIssue {
+  param: string;
+  code: 'invalid_path' | 'unknown_param' | 'invalid_value' | 'duplicate_param';
+  message: string;
+}
+
+export interface RouteMatch {
+  route: TmdbRoute;
+  pathParams: Record<string, string>;
+}
+
+const LANGUAGE_CODE = /^[a-z]{2}$/;
+const REGION_CODE = /^[A-Z]{2}$/;
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+const ID_LIST = /^\d+(?:[,|]\d+)*$/;
+// A single path segment may only contain lowercase letters, digits and underscores
+const PATH_SEGMENT = /^[a-z0-9_]+$/;
+
+const MOVIE_SORT_VALUES = [
+  'popularity.asc', 'popularity.desc',
+  'revenue.asc', 'revenue.desc',
+  'primary_release_date.asc', 'primary_release_date.desc',
+  'title.asc', 'title.desc',
+  'vote_average.asc', 'vote_average.desc',
+  'vote_count.asc', 'vote_count.desc',
+] as const;
+
+const TV_SORT_VALUES = [
+  'popularity.asc', 'popularity.desc',
+  'first_air_date.asc', 'first_air_date.desc',
+  'name.asc', 'name.desc',
+  'vote_average.asc', 'vote_average.desc',
+  'vote_count.asc', 'vote_count.desc',
+] as const;
+
+const MOVIE_APPENDS = [
+  'credits', 'videos', 'release_dates', 'watch/providers',
+  'recommendations', 'similar', 'keywords', 'images',
+] as const;
+
+const TV_APPENDS = [
+  'credits', 'videos', 'content_ratings', 'watch/providers',
+  'recommendations', 'similar', 'keywords', 'images',
+] as const;
+
+const YEAR: ParamSpec = { type: 'integer', min: 1870, max: 2100 };
+const RATING: ParamSpec = { type: 'number', min: 0, max: 10 };
+// TMDB refuses page numbers above 500 on every list endpoint
+export const MAX_PAGE = 500;
+
+const LIST_PARAMS: ParamSchema = {
+  page: { type: 'integer', min: 1, max: MAX_PAGE },
+};
+
+// Movie lists whose contents depend on regional release dates
+const MOVIE_LIST_PARAMS: ParamSchema = {
+  ...LIST_PARAMS,
+  region: { type: 'string', pattern: REGION_CODE },
+};
+
+const SEARCH_MOVIE_PARAMS: ParamSchema = {
+  ...LIST_PARAMS,
+  query: { type: 'string', maxLength: 200 },
+  primary_release_year: YEAR,
+  year: YEAR,
+  region: { type: 'string', pattern: REGION_CODE },
+};
+
+const SEARCH_TV_PARAMS: ParamSchema = {
+  ...LIST_PARAMS,
+  query: { type: 'string', maxLength: 200 },
+  first_air_date_year: YEAR,
+  year: YEAR,
+};
+
+// Shared by search/multi, search/person and search/keyword
+const SEARCH_MULTI_PARAMS: ParamSchema = {
+  ...LIST_PARAMS,
+  query: { type: 'string', maxLength: 200 },
+};
+
+// Streaming services, e.g. '8|337' for Netflix or Disney+; TMDB needs the region they stream in
+const WATCH_PROVIDER_PARAMS: ParamSchema = {
+  with_watch_providers: { type: 'idList' },
+  watch_region: { type: 'string', pattern: REGION_CODE },
+};
+
+const DISCOVER_MOVIE_PARAMS: ParamSchema = {
+  ...LIST_PARAMS,
+  sort_by: { type: 'enum', values: MOVIE_SORT_VALUES },
+  with_genres: { type: 'idList' },
+  without_genres: { type: 'idList' },
+  with_cast: { type: 'idList' },
+  with_crew: { type: 'idList' },
+  with_people: { type: 'idList' },
+  with_keywords: { type: 'idList' },
+  with_companies: { type: 'idList' },
+  'vote_average.gte': RATING,
+  'vote_average.lte': RATING,
+  'vote_count.gte': { type: 'integer', min: 0 },
+  'with_runtime.gte': { type: 'integer', min: 0, max: 1000 },
+  'with_runtime.lte': { type: 'integer', min: 0, max: 1000 },
+  primary_release_year: YEAR,
+  'primary_release_date.gte': { type: 'date' },
+  'primary_release_date.lte': { type: 'date' },
+  // Release dates in `region` rather than the first release anywhere
+  'release_date.gte': { type: 'date' },
+  'release_date.lte': { type: 'date' },
+  // 1 premiere, 2 limited theatrical, 3 theatrical, 4 digital, 5 physical, 6 TV
+  with_release_type: { type: 'string', pattern: /^[1-6](?:[,|][1-6])*$/ },
+  with_original_language: { type: 'string', pattern: LANGUAGE_CODE },
+  with_origin_country: { type: 'string', pattern: REGION_CODE },
+  region: { type: 'string', pattern: REGION_CODE },
+  ...WATCH_PROVIDER_PARAMS,
+};
+
+const DISCOVER_TV_PARAMS: ParamSchema = {
+  ...LIST_PARAMS,
+  sort_by: { type: 'enum', values: TV_SORT_VALUES },
+  with_genres: { type: 'idList' },
+  without_genres: { type: 'idList' },
+  with_keywords: { type: 'idList' },
+  with_companies: { type: 'idList' },
+  with_networks: { type: 'idList' },
+  'vote_average.gte': RATING,
+  'vote_average.lte': RATING,
+  'vote_count.gte': { type: 'integer', min: 0 },
+  'with_runtime.gte': { type: 'integer', min: 0, max: 1000 },
+  'with_runtime.lte': { type: 'integer', min: 0, max: 1000 },
+  first_air_date_year: YEAR,
+  'first_air_date.gte': { type: 'date' },
+  'first_air_date.lte': { type: 'date' },
+  with_original_language: { type: 'string', pattern: LANGUAGE_CODE },
+  with_origin_country: { type: 'string', pattern: REGION_CODE },
+  ...WATCH_PROVIDER_PARAMS,
+};
+
+export const TMDB_ROUTES: readonly TmdbRoute[] = [
+  { id: 'movie.popular', pattern: 'movie/popular', params: MOVIE_LIST_PARAMS, ttlSeconds: 600, paginated: true },
+  { id: 'movie.top_rated', pattern: 'movie/top_rated', params: MOVIE_LIST_PARAMS, ttlSeconds: 3600, paginated: true },
+  { id: 'movie.now_playing', pattern: 'movie/now_playing', params: MOVIE_LIST_PARAMS, ttlSeconds: 900, paginated: true },
+  { id: 'movie.upcoming', pattern: 'movie/upcoming', params: MOVIE_LIST_PARAMS, ttlSeconds: 3600, paginated: true },
+  { id: 'tv.popular', pattern: 'tv/popular', params: LIST_PARAMS, ttlSeconds: 600, paginated: true },
+  { id: 'tv.top_rated', pattern: 'tv/top_rated', params: LIST_PARAMS, ttlSeconds: 3600, paginated: true },
+  {
+    id: 'trending',
+    pattern: 'trending/{media_type}/{time_window}',
+    segments: {
+      media_type: { type: 'enum', values: ['all', 'movie', 'tv', 'person'] },
+      time_window: { type: 'enum', values: ['day', 'week'] },
+    },
+    params: LIST_PARAMS,
+    ttlSeconds: 300,
+    paginated: true,
+  },
+  { id: 'search.movie', pattern: 'search/movie', params: SEARCH_MOVIE_PARAMS, ttlSeconds: 300, paginated: true },
+  { id: 'discover.movie', pattern: 'discover/movie', params: DISCOVER_MOVIE_PARAMS, ttlSeconds: 600, paginated: true },
+  { id: 'search.tv', pattern: 'search/tv', params: SEARCH_TV_PARAMS, ttlSeconds: 300, paginated: true },
+  { id: 'search.multi', pattern: 'search/multi', params: SEARCH_MULTI_PARAMS, ttlSeconds: 300, paginated: true },
+  { id: 'discover.tv', pattern: 'discover/tv', params: DISCOVER_TV_PARAMS, ttlSeconds: 600, paginated: true },
+  { id: 'search.person', pattern: 'search/person', params: SEARCH_MULTI_PARAMS, ttlSeconds: 3600, paginated: true },
+  { id: 'search.keyword', pattern: 'search/keyword', params: SEARCH_MULTI_PARAMS, ttlSeconds: 86400, paginated: true },
+  { id: 'genre.movie.list', pattern: 'genre/movie/list', params: {}, ttlSeconds: 86400 },
+  { id: 'genre.tv.list', pattern: 'genre/tv/list', params: {}, ttlSeconds: 86400 },
+  { id: 'watch_providers.movie', pattern: 'watch/providers/movie', params: { watch_region: { type: 'string', pattern: REGION_CODE } }, ttlSeconds: 86400 },
+  { id: 'watch_providers.tv', pattern: 'watch/providers/tv', params: { watch_region: { type: 'string', pattern: REGION_CODE } }, ttlSeconds: 86400 },
+  { id: 'configuration', pattern: 'configuration', params: {}, ttlSeconds: 86400 },
+  {
+    id: 'movie.details',
+    pattern: 'movie/{movie_id}',
+    segments: { movie_id: { type: 'integer', min: 1 } },
+    params: { append_to_response: { type: 'enumList', values: MOVIE_APPENDS } },
+    ttlSeconds: 86400,
+  },
+  {
+    id: 'movie.recommendations',
+    pattern: 'movie/{movie_id}/recommendations',
+    segments: { movie_id: { type: 'integer', min: 1 } },
+    params: LIST_PARAMS,
+    ttlSeconds: 86400,
+    paginated: true,
+  },
+  {
+    id: 'tv.details',
+    pattern: 'tv/{series_id}',
+    segments: { series_id: { type: 'integer', min: 1 } },
+    params: { append_to_response: { type: 'enumList', values: TV_APPENDS } },
+    ttlSeconds: 86400,
+  },
+];
+
+function describeSpec(spec: ParamSpec): string {
+  switch (spec.type) {
+    case 'enum':
+      return `one of ${spec.values.join(', ')}`;
+    case 'enumList':
+      return `a comma separated list of ${spec.values.join(', ')}`;
+    case 'idList':
+      return "numeric ids separated by ',' (AND) or '|' (OR)";
+    case 'date':
+      return 'a date in YYYY-MM-DD format';
+    case 'integer':
+    case 'number': {
+      const range = [
+        spec.min !== undefined ? `>= ${spec.min}` : null,
+        spec.max !== undefined ? `<= ${spec.max}` : null,
+      ].filter(Boolean).join(' and ');
+      return `${spec.type === 'integer' ? 'an integer' : 'a number'}${range ? ` ${range}` : ''}`;
+    }
+    case 'boolean':
+      return "'true' or 'false'";
+    case 'string':
+      return spec.pattern ? `a string matching ${spec.pattern}` : 'a non-empty string';
+  }
+}
+
+/**
+ * Checks a single raw value against its spec.
+ * Returns the normalised string to forward upstream, or null if it is invalid.
+ */
+export function checkParamValue(spec: ParamSpec, raw: string): string | null {
+  const value = raw.trim();
+  if (!value) return null;
+
+  switch (spec.type) {
+    case 'string':
+      if (spec.maxLength !== undefined && value.length > spec.maxLength) return null;
+      if (spec.pattern && !spec.pattern.test(value)) return null;
+      return value;
+    case 'integer':
+    case 'number': {
+      const isValidSyntax = spec.type === 'integer' ? /^-?\d+$/.test(value) : /^-?\d+(?:\.\d+)?$/.test(value);
+      if (!isValidSyntax) return null;
+      const n = Number(value);
+      if (spec.min !== undefined && n < spec.min) return null;
+      if (spec.max !== undefined && n > spec.max) return null;
+      return String(n);
+    }
+    case 'boolean':
+      return value === 'true' || value === 'false' ? value : null;
+    case 'date':
+      return ISO_DATE.test(value) && !Number.isNaN(Date.parse(value)) ? value : null;
+    case 'enum':
+      return spec.values.includes(value) ? value : null;
+    case 'enumList': {
+      const items = value.split(',').map((item) => item.trim());
+      if (new Set(items).size !== items.length) return null;
+      return items.every((item) => spec.values.includes(item)) ? items.join(',') : null;
+    }
+    case 'idList':
+      return ID_LIST.test(value) ? value : null;
+  }
+}
+
+/**
+ * Resolves a client-supplied path against the registry.
+ * Absolute URLs, traversal segments and anything not declared above return null.
+ */
+export function matchRoute(path: string): RouteMatch | null {
+  const parts = path.split('/');
+  if (!parts.every((part) => PATH_SEGMENT.test(part))) return null;
+
+  for (const route of TMDB_ROUTES) {
+    const templateParts = route.pattern.split('/');
+    if (templateParts.length !== parts.length) continue;
+
+    const pathParams: Record<string, string> = {};
+    const matches = templateParts.every((templatePart, i) => {
+      const placeholder = /^\{(\w+)\}$/.exec(templatePart);
+      if (!placeholder) return templatePart === parts[i];
+
+      const spec = route.segments?.[placeholder[1]];
+      const normalised = spec ? checkParamValue(spec, parts[i]) : null;
+      if (normalised === null) return false;
+      pathParams[placeholder[1]] = normalised;
+      return true;
+    });
+
+    if (matches) return { route, pathParams };
+  }
+
+  return null;
+}
+
+/**
+ * Validates incoming query parameters against a route's schema.
+ * Unknown keys, repeated keys and malformed values are all reported; the
+ * caller should only forward `params` when `issues` is empty.
+ */
+export function validateRouteParams(
+  route: TmdbRoute,
+  query: Record<string, string | string[] | undefined>,
+): { params: Record<string, string>; issues: ValidationIssue[] } {
+  const params: Record<string, string> = {};
+  const issues: ValidationIssue[] = [];
+
+  Object.entries(query).forEach(([key, value]) => {
+    if (value === undefined) return;
+
+    const spec = route.params[key];
+    if (!spec) {
+      issues.push({ param: key, code: 'unknown_param', message: `"${key}" is not supported for ${route.pattern}.` });
+      return;
+    }
+
+    if (Array.isArray(value)) {
+      issues.push({ param: key, code: 'duplicate_param', message: `"${key}" may only be given once.` });
+      return;
+    }
+
+    const normalised = checkParamValue(spec, value);
+    if (normalised === null) {
+      issues.push({ param: key, code: 'invalid_value', message: `"${key}" must be ${describeSpec(spec)}.` });
+      return;
+    }
+
+    params[key] = normalised;
+  });
+
+  return { params, issues };
+}
@@ -0,0 +1,277 @@
+// src/lib/tmdb-server.ts
+
+// Server-only access to TMDB: builds URLs for allowlisted routes, talks to the
+// upstream API and serves responses through the shared cache. Used by the
+// tmdb-proxy route and by API routes that need TMDB data themselves. Every
+// upstream call and cache lookup is counted in the metrics by route pattern.
+
+import type { NextApiResponse } from 'next';
+import { MAX_PAGE, matchRoute, RouteMatch, TmdbRoute, validateRouteParams, ValidationIssue } from '@/lib/tmdb-routes';
+import { CacheEntry, coalesce, createEntry, getCacheStore } from '@/lib/response-cache';
+import { sendApiError } from '@/lib/api-error';
+import { DEFAULT_LOCALE, formatLocale, Locale } from '@/lib/locale';
+import { logger } from '@/lib/logger';
+import { metrics, secondsSince } from '@/lib/metrics';
+import { DEFAULT_IMAGE_CONFIG, ImageConfig, toImageConfig } from '@/lib/tmdb-images';
+import type { TmdbParams, TmdbResponse } from '@/lib/tmdb-types';
+
+const DEFAULT_TMDB_API_BASE_URL = 'https://api.themoviedb.org/3/';
+
+// TMDB_API_BASE_URL points the app at another TMDB, e.g. the offline mock in
+// mock/tmdb. The trailing slash keeps the version segment when paths are resolved.
+const getTmdbApiBaseUrl = (): string =>
+  (process.env.TMDB_API_BASE_URL || DEFAULT_TMDB_API_BASE_URL).replace(/\/?$/, '/');
+
+export const getTmdbToken = (): string | undefined => process.env.TMDB_ACCESS_TOKEN;
+
+// Carries a non-2xx TMDB response through the coalesced fetch so every waiter sees it.
+// `retryAfterSeconds` is set when TMDB was throttling or unavailable and retries ran out.
+export class TmdbUpstreamError extends Error {
+  constructor(public status: number, public details: unknown, public retryAfterSeconds?: number) {
+    super(`TMDB API failed with status ${status}.`);
+  }
+}
+
+// A server-side caller asked for a path or parameters the route registry does not allow
+export class TmdbRequestError extends Error {
+  constructor(message: string, public issues: ValidationIssue[]) {
+    super(message);
+  }
+}
+
+// Retries after a 429 or 5xx from TMDB; TMDB_MAX_RETRIES overrides the count
+const DEFAULT_MAX_RETRIES = 3;
+const BASE_RETRY_DELAY_MS = 500;
+// A longer Retry-After is passed on to the client instead of holding the request open
+const MAX_RETRY_DELAY_MS = 8000;
+// Suggested to clients when TMDB did not say how long to wait
+const DEFAULT_RETRY_AFTER_SECONDS = 30;
+
+const isRetryable = (status: number): boolean => status === 429 || status >= 500;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Reads a Retry-After header (delay in seconds or an HTTP date) as milliseconds.
+ */
+export function parseRetryAfter(header: string | null, now = Date.now()): number | null {
+  if (!header) return null;
+  if (/^\d+$/.test(header.trim())) return Number(header.trim()) * 1000;
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+// One timed call to TMDB, recorded in the upstream metrics and the debug log
+async function timedFetch(url: string, route: TmdbRoute, attempt: number, signal?: AbortSignal): Promise<Response> {
+  const start = performance.now();
+  const labels = { tmdb_route: route.pattern };
+  try {
+    const response = await fetch(url, {
+      method: 'GET',
+      headers: {
+        'Authorization': `Bearer ${getTmdbToken()}`,
+        'accept': 'application/json',
+      },
+      signal,
+    });
+    const seconds = secondsSince(start);
+    metrics.upstreamRequests.inc({ ...labels, status: String(response.status) });
+    metrics.upstreamDuration.observe(labels, seconds);
+    logger.debug('TMDB call', { tmdbRoute: route.pattern, status: response.status, attempt, durationMs: Math.round(seconds * 1000) });
+    return response;
+  } catch (error) {
+    metrics.upstreamRequests.inc({ ...labels, status: 'network_error' });
+    metrics.upstreamErrors.inc({ ...labels, status: 'network_error' });
+    logger.error('TMDB could not be reached', { tmdbRoute: route.pattern, attempt, durationMs: Math.round(secondsSince(start) * 1000), error });
+    throw error;
+  }
+}
+
+async function fetchUpstream(url: string, route: TmdbRoute): Promise<CacheEntry> {
+  const maxRetries = Number(process.env.TMDB_MAX_RETRIES ?? DEFAULT_MAX_RETRIES);
+  let tmdbResponse: Response;
+
+  for (let attempt = 0; ; attempt++) {
+    tmdbResponse = await timedFetch(url, route, attempt);
+    if (!isRetryable(tmdbResponse.status)) break;
+
+    // Honour TMDB's Retry-After, otherwise back off exponentially with jitter
+    const retryAfter = parseRetryAfter(tmdbResponse.headers.get('retry-after'));
+    const delay = retryAfter ?? BASE_RETRY_DELAY_MS * 2 ** attempt + Math.random() * BASE_RETRY_DELAY_MS;
+    if (attempt >= maxRetries || delay > MAX_RETRY_DELAY_MS) {
+      const data = await tmdbResponse.json().catch(() => null);
+      const retryAfterSeconds = retryAfter !== null ? Math.ceil(retryAfter / 1000) : DEFAULT_RETRY_AFTER_SECONDS;
+      metrics.upstreamErrors.inc({ tmdb_route: route.pattern, status: String(tmdbResponse.status) });
+      throw new TmdbUpstreamError(tmdbResponse.status, data, retryAfterSeconds);
+    }
+
+    logger.warn('TMDB is throttling or failing; retrying', {
+      tmdbRoute: route.pattern,
+      status: tmdbResponse.status,
+      delayMs: Math.round(delay),
+      attempt: attempt + 1,
+      maxRetries,
+    });
+    await tmdbResponse.body?.cancel();
+    await sleep(delay);
+  }
+
+  const data = await tmdbResponse.json();
+
+  if (!tmdbResponse.ok) {
+    metrics.upstreamErrors.inc({ tmdb_route: route.pattern, status: String(tmdbResponse.status) });
+    throw new TmdbUpstreamError(tmdbResponse.status, data);
+  }
+
+  // TMDB reports more pages than it will actually serve, so cap the metadata
+  // the client uses to decide whether another page can be loaded
+  if (route.paginated && typeof data.total_pages === 'number') {
+    data.total_pages = Math.min(data.total_pages, MAX_PAGE);
+  }
+
+  return createEntry(JSON.stringify(data), route.ttlSeconds);
+}
+
+/**
+ * Builds the upstream URL for an already validated route match.
+ * Parameters are sorted so the URL doubles as an order-independent cache key.
+ * The locale sets the response language and, on routes that take a region,
+ * the region unless the request names one itself (e.g. "released in Japan").
+ */
+export function buildTmdbUrl(
+  match: RouteMatch,
+  path: string,
+  params: Record<string, string>,
+  locale: Locale = DEFAULT_LOCALE,
+): string {
+  // Initialize the TMDB URL with the validated path
+  const tmdbUrl = new URL(path, getTmdbApiBaseUrl());
+
+  // Add standard parameters
+  tmdbUrl.searchParams.set('language', formatLocale(locale));
+  tmdbUrl.searchParams.set('include_adult', 'false');
+  if ('region' in match.route.params) {
+    tmdbUrl.searchParams.set('region', locale.region);
+  }
+
+  // List routes default to the first page unless the caller asked for another one
+  if (match.route.paginated) {
+    tmdbUrl.searchParams.set('page', params.page ?? '1');
+  }
+
+  // Add the validated route parameters (e.g. from the AI parser)
+  Object.entries(params).forEach(([key, value]) => {
+    tmdbUrl.searchParams.set(key, value);
+  });
+
+  tmdbUrl.searchParams.sort();
+  return tmdbUrl.toString();
+}
+
+/**
+ * Returns the cached response for `url`, fetching it from TMDB on a miss.
+ * Identical requests already in flight share one upstream call and one cache write.
+ */
+export async function getCachedResponse(
+  url: string,
+  route: TmdbRoute,
+): Promise<{ entry: CacheEntry; cacheStatus: 'HIT' | 'MISS' }> {
+  const cache = getCacheStore();
+  const cached = await cache.get(url);
+  metrics.cacheLookups.inc({ tmdb_route: route.pattern, result: cached ? 'hit' : 'miss' });
+  if (cached) return { entry: cached, cacheStatus: 'HIT' };
+
+  const entry = await coalesce(url, async () => {
+    const fresh = await fetchUpstream(url, route);
+    await cache.set(url, fresh);
+    return fresh;
+  });
+  return { entry, cacheStatus: 'MISS' };
+}
+
+/**
+ * Validates a request for an allowlisted TMDB route against the registry and
+ * returns its cached response entry in `locale`. Throws TmdbRequestError for
+ * disallowed input and TmdbUpstreamError for TMDB failures.
+ */
+export async function getTmdbEntry(
+  path: string,
+  query: Record<string, string | string[] | undefined> = {},
+  locale: Locale = DEFAULT_LOCALE,
+): Promise<{ entry: CacheEntry; cacheStatus: 'HIT' | 'MISS' }> {
+  const match = matchRoute(path);
+  if (!match) {
+    throw new TmdbRequestError(`Path "${path}" is not an allowed TMDB route.`, [
+      { param: 'path', code: 'invalid_path', message: 'Path is not in the TMDB route allowlist.' },
+    ]);
+  }
+
+  // Reject unknown or malformed parameters before anything reaches TMDB
+  const { params, issues } = validateRouteParams(match.route, query);
+  if (issues.length > 0) {
+    throw new TmdbRequestError(`Invalid query parameters for "${match.route.pattern}".`, issues);
+  }
+
+  return getCachedResponse(buildTmdbUrl(match, path, params, locale), match.route);
+}
+
+/**
+ * Fetches an allowlisted TMDB route from server code and returns the parsed
+ * JSON, typed by path through TmdbResponse. Throws like getTmdbEntry.
+ */
+export async function tmdbGet<P extends string>(
+  path: P,
+  query: TmdbParams<P> = {} as TmdbParams<P>,
+  locale: Locale = DEFAULT_LOCALE,
+): Promise<TmdbResponse<P>> {
+  const { entry } = await getTmdbEntry(path, query, locale);
+  return JSON.parse(entry.body) as TmdbResponse<P>;
+}
+
+/**
+ * Answers an API request that failed upstream. Throttling and outages TMDB
+ * still reported after the retries become a 503 with Retry-After; other
+ * TMDB errors keep their status.
+ */
+export function sendTmdbUpstreamError(res: NextApiResponse, error: TmdbUpstreamError) {
+  logger.error('TMDB API error', { status: error.status, details: error.details, retryAfterSeconds: error.retryAfterSeconds });
+  if (error.retryAfterSeconds !== undefined) {
+    return sendApiError(res, 503, {
+      kind: 'tmdb',
+      message: `TMDB is busy or unavailable (status ${error.status}). Try again in ${error.retryAfterSeconds} seconds.`,
+      retryAfterSeconds: error.retryAfterSeconds,
+    });
+  }
+  return sendApiError(res, error.status, { kind: 'tmdb', message: error.message, details: error.details });
+}
+
+/**
+ * Checks that TMDB is reachable and accepts the token with one uncached,
+ * unretried call to the small `configuration` route. Throws TmdbUpstreamError
+ * for a TMDB error status and the fetch error (e.g. a timeout) otherwise.
+ */
+export async function pingTmdb(timeoutMs: number): Promise<void> {
+  const match = matchRoute('configuration');
+  if (!match) throw new Error('The configuration route is missing from the TMDB route registry.');
+
+  const response = await timedFetch(buildTmdbUrl(match, 'configuration', {}), match.route, 0, AbortSignal.timeout(timeoutMs));
+  if (!response.ok) {
+    throw new TmdbUpstreamError(response.status, await response.json().catch(() => null));
+  }
+  await response.body?.cancel();
+}
+
+/**
+ * TMDB's image base URL and sizes, from the cached `configuration` route.
+ * Falls back to the published defaults when there is no token or TMDB fails,
+ * so images keep working whenever TMDB's image CDN does.
+ */
+export async function getImageConfig(): Promise<ImageConfig> {
+  if (!getTmdbToken()) return DEFAULT_IMAGE_CONFIG;
+  try {
+    return toImageConfig(await tmdbGet('configuration'));
+  } catch (error) {
+    logger.warn('Could not read the TMDB image configuration; using the defaults', { error });
+    return DEFAULT_IMAGE_CONFIG;
+  }
+}
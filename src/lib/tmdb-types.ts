@@ -0,0 +1,277 @@
+// src/lib/tmdb-types.ts
+
+// Request and response shapes of the TMDB endpoints in the route registry,
+// shared by the server client (tmdb-server), the browser client (tmdb-client)
+// and the pages. TmdbParams<P> and TmdbResponse<P> map a path to its types, so
+// tmdbGet('genre/movie/list') or fetchTmdb(`movie/${id}`) need no cast.
+
+// ---------------------------------------------------------------------------
+// Request parameters (query string values, so always strings)
+// ---------------------------------------------------------------------------
+
+export type TmdbQuery = Record<string, string | undefined>;
+
+export interface TmdbListParams extends TmdbQuery {
+  page?: string;
+}
+
+// movie/popular, movie/top_rated, movie/now_playing and movie/upcoming
+export interface TmdbMovieListParams extends TmdbListParams {
+  region?: string;
+}
+
+export interface TmdbSearchParams extends TmdbListParams {
+  query?: string;
+}
+
+export interface TmdbSearchMovieParams extends TmdbSearchParams {
+  primary_release_year?: string;
+  year?: string;
+  region?: string;
+}
+
+export interface TmdbSearchTvParams extends TmdbSearchParams {
+  first_air_date_year?: string;
+  year?: string;
+}
+
+interface TmdbDiscoverParams extends TmdbListParams {
+  sort_by?: string;
+  with_genres?: string;
+  without_genres?: string;
+  with_keywords?: string;
+  with_companies?: string;
+  'vote_average.gte'?: string;
+  'vote_average.lte'?: string;
+  'vote_count.gte'?: string;
+  'with_runtime.gte'?: string;
+  'with_runtime.lte'?: string;
+  with_original_language?: string;
+  with_origin_country?: string;
+  with_watch_providers?: string;
+  watch_region?: string;
+}
+
+export interface TmdbDiscoverMovieParams extends TmdbDiscoverParams {
+  with_cast?: string;
+  with_crew?: string;
+  with_people?: string;
+  primary_release_year?: string;
+  'primary_release_date.gte'?: string;
+  'primary_release_date.lte'?: string;
+  'release_date.gte'?: string;
+  'release_date.lte'?: string;
+  with_release_type?: string;
+  region?: string;
+}
+
+export interface TmdbDiscoverTvParams extends TmdbDiscoverParams {
+  with_networks?: string;
+  first_air_date_year?: string;
+  'first_air_date.gte'?: string;
+  'first_air_date.lte'?: string;
+}
+
+// watch/providers/movie and watch/providers/tv
+export interface TmdbWatchProviderListParams extends TmdbQuery {
+  watch_region?: string;
+}
+
+export interface TmdbDetailsParams extends TmdbQuery {
+  // Comma separated, e.g. 'credits,keywords'
+  append_to_response?: string;
+}
+
+// ---------------------------------------------------------------------------
+// List items
+// ---------------------------------------------------------------------------
+
+export interface TmdbPage<T> {
+  page: number;
+  results: T[];
+  total_pages: number;
+  total_results: number;
+}
+
+export interface TmdbMovie {
+  id: number;
+  title: string;
+  original_title?: string;
+  poster_path: string | null;
+  backdrop_path?: string | null;
+  overview: string;
+  release_date: string;
+  vote_average: number;
+  vote_count?: number;
+  popularity?: number;
+  genre_ids?: number[];
+  original_language?: string;
+}
+
+export interface TmdbTvShow {
+  id: number;
+  name: string;
+  original_name?: string;
+  poster_path: string | null;
+  backdrop_path?: string | null;
+  overview: string;
+  first_air_date: string;
+  vote_average: number;
+  vote_count?: number;
+  popularity?: number;
+  genre_ids?: number[];
+  original_language?: string;
+}
+
+export interface TmdbPerson {
+  id: number;
+  name: string;
+  profile_path: string | null;
+  known_for_department: string;
+  popularity?: number;
+  known_for?: TmdbMultiItem[];
+}
+
+// Items of search/multi and trending/all carry their media type
+export type TmdbMultiItem =
+  | (TmdbMovie & { media_type: 'movie' })
+  | (TmdbTvShow & { media_type: 'tv' })
+  | (TmdbPerson & { media_type: 'person' });
+
+export interface Genre {
+  id: number;
+  name: string;
+}
+
+// configuration: where images live and which sizes TMDB serves
+export interface TmdbConfiguration {
+  images: {
+    base_url: string;
+    secure_base_url: string;
+    backdrop_sizes: string[];
+    logo_sizes: string[];
+    poster_sizes: string[];
+    profile_sizes: string[];
+    still_sizes: string[];
+  };
+  change_keys: string[];
+}
+
+export interface TmdbKeyword {
+  id: number;
+  name: string;
+}
+
+// ---------------------------------------------------------------------------
+// Details and their append_to_response parts
+// ---------------------------------------------------------------------------
+
+export interface CastMember {
+  id: number;
+  name: string;
+  character: string;
+  profile_path: string | null;
+  order: number;
+}
+
+export interface CrewMember {
+  id: number;
+  name: string;
+  job: string;
+  department: string;
+}
+
+export interface Video {
+  key: string;
+  name: string;
+  site: string;
+  type: string;
+  official: boolean;
+}
+
+export interface ReleaseDate {
+  certification: string;
+  type: number;
+  release_date: string;
+}
+
+export interface WatchProvider {
+  provider_id: number;
+  provider_name: string;
+  logo_path: string | null;
+}
+
+// An entry of watch/providers/movie or watch/providers/tv
+export interface TmdbWatchProviderListItem extends WatchProvider {
+  // Lower is more prominent; the region's own ranking when watch_region was given
+  display_priority: number;
+}
+
+export interface WatchProviderRegion {
+  link: string;
+  flatrate?: WatchProvider[];
+  rent?: WatchProvider[];
+  buy?: WatchProvider[];
+}
+
+// movie/{id}; the optional parts are only present when appended
+export interface MovieDetails extends TmdbMovie {
+  tagline: string;
+  runtime: number | null;
+  genres: Genre[];
+  backdrop_path: string | null;
+  credits?: { cast: CastMember[]; crew: CrewMember[] };
+  keywords?: { keywords: TmdbKeyword[] };
+  videos?: { results: Video[] };
+  release_dates?: { results: { iso_3166_1: string; release_dates: ReleaseDate[] }[] };
+  'watch/providers'?: { results: Record<string, WatchProviderRegion> };
+  recommendations?: TmdbPage<TmdbMovie>;
+}
+
+// tv/{id}; the optional parts are only present when appended
+export interface TvDetails extends TmdbTvShow {
+  tagline: string;
+  genres: Genre[];
+  number_of_seasons: number;
+  credits?: { cast: CastMember[]; crew: CrewMember[] };
+  keywords?: { results: TmdbKeyword[] };
+  videos?: { results: Video[] };
+  'watch/providers'?: { results: Record<string, WatchProviderRegion> };
+  recommendations?: TmdbPage<TmdbTvShow>;
+}
+
+// ---------------------------------------------------------------------------
+// Path -> types
+// ---------------------------------------------------------------------------
+
+type MovieListPath =
+  | 'movie/popular' | 'movie/top_rated' | 'movie/now_playing' | 'movie/upcoming'
+  | 'search/movie' | 'discover/movie' | `movie/${number}/recommendations` | `trending/movie/${string}`;
+
+type TvListPath = 'tv/popular' | 'tv/top_rated' | 'search/tv' | 'discover/tv' | `trending/tv/${string}`;
+
+// The JSON TMDB returns for a registry path; unknown for paths outside the registry
+export type TmdbResponse<P extends string> =
+  P extends MovieListPath ? TmdbPage<TmdbMovie>
+  : P extends TvListPath ? TmdbPage<TmdbTvShow>
+  : P extends 'search/multi' | `trending/all/${string}` ? TmdbPage<TmdbMultiItem>
+  : P extends 'search/person' | `trending/person/${string}` ? TmdbPage<TmdbPerson>
+  : P extends 'search/keyword' ? TmdbPage<TmdbKeyword>
+  : P extends 'genre/movie/list' | 'genre/tv/list' ? { genres: Genre[] }
+  : P extends 'watch/providers/movie' | 'watch/providers/tv' ? { results: TmdbWatchProviderListItem[] }
+  : P extends 'configuration' ? TmdbConfiguration
+  : P extends `movie/${number}` ? MovieDetails
+  : P extends `tv/${number}` ? TvDetails
+  : unknown;
+
+// The query parameters the registry accepts for a path
+export type TmdbParams<P extends string> =
+  P extends 'search/movie' ? TmdbSearchMovieParams
+  : P extends 'search/tv' ? TmdbSearchTvParams
+  : P extends 'search/multi' | 'search/person' | 'search/keyword' ? TmdbSearchParams
+  : P extends 'discover/movie' ? TmdbDiscoverMovieParams
+  : P extends 'discover/tv' ? TmdbDiscoverTvParams
+  : P extends 'movie/popular' | 'movie/top_rated' | 'movie/now_playing' | 'movie/upcoming' ? TmdbMovieListParams
+  : P extends 'watch/providers/movie' | 'watch/providers/tv' ? TmdbWatchProviderListParams
+  : P extends `movie/${number}` | `tv/${number}` ? TmdbDetailsParams
+  : TmdbListParams;
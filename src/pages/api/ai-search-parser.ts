@@ -1,160 +1,151 @@
 // src/pages/api/ai-search-parser.ts
 
 import { NextApiRequest, NextApiResponse } from 'next';
-// Using GoogleGenAI as suggested, assuming it's installed
-import { GoogleGenAI } from '@google/genai'; 
-
-// Define the shape of the AI-generated structured search query
-interface AISearchResult {
-    path: string;
-    params: {
-        query?: string;
-        with_genres?: string; // TMDB Genre ID, e.g., '878' for Sci-Fi
-        'vote_average.gte'?: string; // Minimum rating, e.g., '7.5'
-        'primary_release_year'?: string; // Specific year, e.g., '2024'
-        sort_by?: string; // e.g., 'vote_count.desc'
-        [key: string]: string | undefined; 
-    };
+import type { MessageKey } from '@/lib/i18n';
+import { readLocaleParam } from '@/lib/locale';
+import { resolveNamedFilters } from '@/lib/name-resolution';
+import { residualSearchText } from '@/lib/hybrid-search';
+import { parseQueryRules } from '@/lib/rule-parser';
+import { explainSearchResult } from '@/lib/search-explanation';
+import { AISearchResult, MAX_SEARCH_TERM_LENGTH, sanitizeSearchTerm } from '@/lib/search-query';
+import { getSearchParserProvider, rulesProvider, SearchParserProvider } from '@/lib/search-providers';
+import { assertAllowedSearchResult, localizeWarnings, searchWarning, SearchResultRejectedError } from '@/lib/search-validation';
+import { enforceRateLimit, takeLlmBudget } from '@/lib/rate-limit';
+import { getTmdbToken } from '@/lib/tmdb-server';
+import { ApiErrorBody, sendApiError } from '@/lib/api-error';
+import { logger } from '@/lib/logger';
+import { metrics, secondsSince } from '@/lib/metrics';
+import { withObservability } from '@/lib/observability';
+
+// Providers that call a paid LLM and therefore draw on the LLM budget
+const LLM_PROVIDERS = new Set(['gemini', 'openai']);
+
+// Calls one provider, recording its latency and outcome; for gemini and openai this times the LLM call
+async function timedParse(provider: SearchParserProvider, searchTerm: string): Promise<AISearchResult> {
+    const start = performance.now();
+    let outcome = 'error';
+    try {
+        const result = await provider.parse(searchTerm);
+        outcome = 'ok';
+        return result;
+    } finally {
+        const seconds = secondsSince(start);
+        metrics.parserCalls.inc({ provider: provider.name, outcome });
+        metrics.parserDuration.observe({ provider: provider.name }, seconds);
+        logger.info('Search parser finished', { provider: provider.name, outcome, durationMs: Math.round(seconds * 1000) });
+    }
 }
 
-const AI_API_KEY = process.env.AI_API_KEY;
-
-// Mock implementation as fallback if the AI key is missing or for local testing
-function mockLLM_Parse(searchTerm: string): AISearchResult {
-    searchTerm = searchTerm.toLowerCase().trim();
-
-    if (searchTerm.includes('mind-bending') || searchTerm.includes('sci-fi')) {
-        return {
-            path: 'discover/movie',
-            params: {
-                with_genres: '878', // Science Fiction
-                'vote_average.gte': '7.5',
-            }
-        };
-    } else if (searchTerm.includes('best of 2024') || searchTerm.includes('newest hits')) {
-        return {
-            path: 'discover/movie',
-            params: {
-                'vote_average.gte': '7',
-                'primary_release_year': '2024',
-            }
-        };
-    } else if (searchTerm.includes('best') || searchTerm.includes('top rated')) {
-        return {
-            path: 'discover/movie',
-            params: {
-                'vote_average.gte': '8.5',
-                sort_by: 'vote_count.desc' 
-            }
-        };
-    } 
-    
-    // Fallback to basic text search
-    return {
-        path: 'search/movie',
-        params: {
-            query: searchTerm,
-        }
-    };
+// The offline rule-based parser, noting why it stood in for the configured provider
+async function parseWithRules(searchTerm: string, reason: MessageKey): Promise<AISearchResult> {
+    const result = await timedParse(rulesProvider, searchTerm);
+    assertAllowedSearchResult(result);
+    return { ...result, warnings: [...(result.warnings ?? []), searchWarning('parser_fallback', reason)] };
 }
 
-// Actual LLM implementation using Gemini
-async function realLLM_Parse(searchTerm: string): Promise<AISearchResult> {
-    if (!AI_API_KEY) {
-        console.warn("AI_API_KEY is not set. Falling back to mock parser.");
-        return mockLLM_Parse(searchTerm);
+// Parses with the configured provider (Gemini, OpenAI-compatible, rules or fixtures)
+// and only lets results through that stay inside the route allowlist
+async function parseSearchTerm(searchTerm: string, req: NextApiRequest): Promise<AISearchResult> {
+    const provider = getSearchParserProvider();
+
+    if (LLM_PROVIDERS.has(provider.name) && !takeLlmBudget(req).allowed) {
+        logger.warn('LLM budget exhausted; using the rule-based parser', { provider: provider.name });
+        metrics.parserFallbacks.inc({ provider: provider.name, reason: 'budget' });
+        return parseWithRules(searchTerm, 'warning.fallbackBudget');
     }
-    
-    const aiClient = new GoogleGenAI({ apiKey: AI_API_KEY });
-    
-    // Schema definition for reliable JSON output from the LLM
-    const structuredOutputSchema = {
-        type: 'OBJECT',
-        properties: {
-            path: {
-                type: 'STRING',
-                description: "The TMDB API path. Use 'search/movie' for simple keyword search or 'discover/movie' for filters (rating, year, genre)."
-            },
-            params: {
-                type: 'OBJECT',
-                description: "A dictionary of TMDB query parameters.",
-                properties: {
-                    query: { type: 'STRING', description: 'The movie title or keyword for search/movie. Omit if path is discover/movie.' },
-                    'vote_average.gte': { type: 'STRING', description: 'Minimum rating filter (e.g., 7.5)' },
-                    'primary_release_year': { type: 'STRING', description: 'Filter by release year (e.g., 2024)' },
-                    with_genres: { type: 'STRING', description: 'TMDB Genre ID (e.g., 878 for Science Fiction). Only include the most relevant genre ID.' },
-                    sort_by: { type: 'STRING', description: "Sort criteria, e.g., 'vote_count.desc' for best." }
-                }
-            }
-        }
-    } as const;
-
-    const prompt = `
-        Analyze the user's movie search query: "${searchTerm}".
-        Translate the intent into structured JSON parameters for The Movie Database (TMDB) API.
-        
-        - Use "search/movie" only for direct title or actor searches.
-        - Use "discover/movie" for any query involving filters like genre, rating, or year.
-        - Only include parameters explicitly implied by the query. Ensure string values for rating and year.
-        
-        Respond STRICTLY with a single JSON object that conforms to the provided schema. 
-    `;
 
     try {
-        const response = await aiClient.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: [{ role: "user", parts: [{ text: prompt }] }],
-            config: { 
-                responseMimeType: "application/json",
-                responseSchema: structuredOutputSchema,
-                temperature: 0.1 
-            }
-        });
-
-        // ⚠️ FIX: Check if response.text is defined before parsing.
-        if (!response.text) {
-             throw new Error("Gemini API failed to return structured text content, possibly due to a safety block or internal error.");
+        const result = await timedParse(provider, searchTerm);
+        assertAllowedSearchResult(result);
+        return result;
+    } catch (e) {
+        if (provider === rulesProvider) throw e;
+        if (e instanceof SearchResultRejectedError) {
+            // Usually instructions smuggled into the search term; the rules cannot be steered
+            logger.warn('Search parser output rejected; using the rule-based parser', { provider: provider.name, issues: e.issues });
+            metrics.parserFallbacks.inc({ provider: provider.name, reason: 'rejected' });
+            return parseWithRules(searchTerm, 'warning.fallbackRejected');
         }
+        logger.error('Search parser failed; using the rule-based parser', { provider: provider.name, error: e });
+        metrics.parserFallbacks.inc({ provider: provider.name, reason: 'error' });
+        // Fallback to the offline rule-based parser on external API failure
+        return parseWithRules(searchTerm, 'warning.fallbackError');
+    }
+}
 
-        const parsedResult = JSON.parse(response.text.trim());
-        
-        // Final sanity check
-        if (typeof parsedResult.path !== 'string' || typeof parsedResult.params !== 'object') {
-            throw new Error("AI response structure is invalid.");
-        }
-        
-        return parsedResult as AISearchResult;
+// Resolves `names` into discover params. Search and trending paths take no id
+// filters, so their names are left untouched.
+async function resolveResultNames(result: AISearchResult): Promise<AISearchResult> {
+    const { names, ...rest } = result;
+    if (!names || !result.path.startsWith('discover/')) {
+        return result;
+    }
 
-    } catch (e) {
-        console.error("Error calling Gemini API:", e);
-        // Fallback to simple search on external API failure
-        return {
-            path: 'search/movie',
-            params: { query: searchTerm }
-        };
+    if (!getTmdbToken()) {
+        logger.warn('TMDB_ACCESS_TOKEN is not set; skipping genre/person/keyword resolution');
+        return result;
     }
+
+    const mediaType = result.path === 'discover/tv' ? 'tv' : 'movie';
+    const { params, resolved, unresolved } = await resolveNamedFilters(mediaType, names);
+
+    return {
+        ...rest,
+        names,
+        params: { ...result.params, ...params },
+        resolution: { resolved, unresolved },
+    };
 }
 
-export default async function handler(
+async function handler(
   req: NextApiRequest, 
-  res: NextApiResponse<AISearchResult | { message: string }>
+  res: NextApiResponse<AISearchResult | ApiErrorBody>
 ) {
     if (req.method !== 'GET') {
-        return res.status(405).json({ message: 'Method Not Allowed' });
+        return sendApiError(res, 405, { kind: 'invalid_request', message: 'Method Not Allowed' });
     }
 
-    const { searchTerm } = req.query;
+    if (!enforceRateLimit(req, res, 'ai-search-parser')) return;
+
+    const { searchTerm: rawSearchTerm, locale: rawLocale } = req.query;
+    const searchTerm = typeof rawSearchTerm === 'string' ? sanitizeSearchTerm(rawSearchTerm) : '';
 
-    if (typeof searchTerm !== 'string' || !searchTerm.trim()) {
-        return res.status(400).json({ message: 'Missing or invalid "searchTerm" query parameter.' });
+    if (!searchTerm) {
+        return sendApiError(res, 400, { kind: 'invalid_request', message: 'Missing or invalid "searchTerm" query parameter.' });
+    }
+
+    if (searchTerm.length > MAX_SEARCH_TERM_LENGTH) {
+        return sendApiError(res, 400, { kind: 'invalid_request', message: `"searchTerm" must be at most ${MAX_SEARCH_TERM_LENGTH} characters.` });
+    }
+
+    const requested = readLocaleParam(rawLocale);
+    if ('issue' in requested) {
+        return sendApiError(res, 400, { kind: 'invalid_request', message: requested.issue.message, errors: [requested.issue] });
     }
 
     try {
-        const result = await realLLM_Parse(searchTerm); 
-        res.status(200).json(result);
+        const { sources, ...result } = await resolveResultNames(await parseSearchTerm(searchTerm, req));
+        const explanation = explainSearchResult(searchTerm, { ...result, sources }, requested.locale);
+        const names = [
+            ...Object.values(result.names ?? {}).flatMap(value => (Array.isArray(value) ? value : [])),
+            ...(result.resolution?.resolved ?? []).map(r => r.matchedName),
+        ];
+        // A model reports no phrases; the ones the rules recognise ("mind-bending
+        // sci-fi") are filter words either way and stay out of the text search
+        const hybridText = result.path.startsWith('discover/')
+            ? residualSearchText(searchTerm, explanation, sources ?? parseQueryRules(searchTerm).sources, names)
+            : undefined;
+        res.status(200).json({
+            ...result,
+            ...(result.warnings ? { warnings: localizeWarnings(result.warnings, requested.locale) } : {}),
+            explanation,
+            ...(hybridText ? { hybridText } : {}),
+        });
     } catch (error) {
-        // Handle errors caught from realLLM_Parse, including key issues and bad structure
-        console.error('AI Search Parser Error:', error);
-        res.status(500).json({ message: `AI query processing failed: ${error instanceof Error ? error.message : 'Unknown error.'}` });
+        // Handle errors caught from parseSearchTerm, including key issues and bad structure
+        logger.error('AI search parser error', { error });
+        sendApiError(res, 500, { kind: 'parser', message: `AI query processing failed: ${error instanceof Error ? error.message : 'Unknown error.'}` });
     }
-}
\ No newline at end of file
+}
+
+export default withObservability('ai-search-parser', handler);
@@ -0,0 +1,61 @@
+// src/pages/api/collections/export.ts
+
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getCollectionStore } from '@/lib/collection-store';
+import { exportCollection } from '@/lib/collection-transfer';
+import { COLLECTION_LISTS, CollectionList, TRANSFER_FORMATS, TransferFormat } from '@/lib/collections';
+import { readDeviceId } from '@/lib/device-id';
+import { enforceRateLimit } from '@/lib/rate-limit';
+import { sendApiError } from '@/lib/api-error';
+import { logger } from '@/lib/logger';
+import { withObservability } from '@/lib/observability';
+
+const isOneOf = <T extends string>(values: readonly T[], value: unknown): value is T =>
+  typeof value === 'string' && (values as readonly string[]).includes(value);
+
+// GET /api/collections/export?format=json|csv|letterboxd[&list=watchlist|favorite|rated|seen]
+// Responds with a file download of the caller's collection
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return sendApiError(res, 405, { kind: 'invalid_request', message: 'Method Not Allowed' });
+  }
+
+  if (!enforceRateLimit(req, res, 'collections')) return;
+
+  const { format = 'json', list } = req.query;
+  if (!isOneOf(TRANSFER_FORMATS, format)) {
+    return sendApiError(res, 400, {
+      kind: 'invalid_request',
+      message: `"format" must be one of ${TRANSFER_FORMATS.join(', ')}.`,
+      errors: [{ param: 'format', code: 'invalid_value', message: 'Unknown export format.' }],
+    });
+  }
+  if (list !== undefined && !isOneOf(COLLECTION_LISTS, list)) {
+    return sendApiError(res, 400, {
+      kind: 'invalid_request',
+      message: `"list" must be one of ${COLLECTION_LISTS.join(', ')}.`,
+      errors: [{ param: 'list', code: 'invalid_value', message: 'Unknown collection list.' }],
+    });
+  }
+
+  const deviceId = readDeviceId(req);
+  res.setHeader('Cache-Control', 'private, no-store');
+
+  try {
+    const entries = deviceId ? await getCollectionStore().list(deviceId) : [];
+    const { body, contentType, extension } = exportCollection(entries, format as TransferFormat, list as CollectionList | undefined);
+    const name = ['tmdb', list ?? 'collection', format === 'letterboxd' ? 'letterboxd' : null, new Date().toISOString().slice(0, 10)]
+      .filter(Boolean)
+      .join('-');
+
+    res.setHeader('Content-Type', contentType);
+    res.setHeader('Content-Disposition', `attachment; filename="${name}.${extension}"`);
+    res.status(200).send(body);
+  } catch (error) {
+    logger.error('Collection store error', { error });
+    sendApiError(res, 500, { kind: 'storage', message: 'Could not read the collection store.' });
+  }
+}
+
+export default withObservability('collections-export', handler);
@@ -0,0 +1,98 @@
+// src/pages/api/collections/import.ts
+
+import { NextApiRequest, NextApiResponse } from 'next';
+import { CollectionLimitError, getCollectionStore, sendCollectionLimitError } from '@/lib/collection-store';
+import { parseImport, resolveImport } from '@/lib/collection-transfer';
+import { COLLECTION_LISTS, CollectionList, TRANSFER_FORMATS } from '@/lib/collections';
+import { getDeviceId } from '@/lib/device-id';
+import { enforceRateLimit } from '@/lib/rate-limit';
+import { getTmdbToken, TmdbRequestError, TmdbUpstreamError } from '@/lib/tmdb-server';
+import { sendApiError } from '@/lib/api-error';
+import { logger } from '@/lib/logger';
+import { withObservability } from '@/lib/observability';
+
+export const config = {
+  api: { bodyParser: { sizeLimit: '2mb' } },
+};
+
+// Lists an import can put unflagged rows on; "rated" needs a rating in the file itself
+const IMPORT_LISTS = COLLECTION_LISTS.filter((list): list is Exclude<CollectionList, 'rated'> => list !== 'rated');
+
+const isOneOf = <T extends string>(values: readonly T[], value: unknown): value is T =>
+  typeof value === 'string' && (values as readonly string[]).includes(value);
+
+// POST /api/collections/import?format=json|csv|letterboxd[&list=watchlist|favorite|seen][&dryRun=1]
+// Body: the file contents (text/csv or application/json). Responds with an import report.
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return sendApiError(res, 405, { kind: 'invalid_request', message: 'Method Not Allowed' });
+  }
+
+  if (!enforceRateLimit(req, res, 'collections-import')) return;
+
+  const { format, list, dryRun } = req.query;
+  if (!isOneOf(TRANSFER_FORMATS, format)) {
+    return sendApiError(res, 400, {
+      kind: 'invalid_request',
+      message: `"format" must be one of ${TRANSFER_FORMATS.join(', ')}.`,
+      errors: [{ param: 'format', code: 'invalid_value', message: 'Unknown import format.' }],
+    });
+  }
+  if (list !== undefined && !isOneOf(IMPORT_LISTS, list)) {
+    return sendApiError(res, 400, {
+      kind: 'invalid_request',
+      message: `"list" must be one of ${IMPORT_LISTS.join(', ')}.`,
+      errors: [{ param: 'list', code: 'invalid_value', message: 'Unknown import list.' }],
+    });
+  }
+
+  if (!getTmdbToken()) {
+    return sendApiError(res, 500, { kind: 'config', message: 'Server configuration error: TMDB token missing.' });
+  }
+
+  // Next parses JSON bodies and hands every other content type over as a string
+  const text = typeof req.body === 'string' ? req.body : JSON.stringify(req.body ?? '');
+
+  let rows;
+  try {
+    rows = parseImport(text, format, list as CollectionList | undefined);
+  } catch (error) {
+    return sendApiError(res, 400, {
+      kind: 'invalid_request',
+      message: error instanceof Error ? error.message : 'Could not read the import file.',
+      errors: [{ param: 'body', code: 'invalid_value', message: 'Unreadable import file.' }],
+    });
+  }
+
+  res.setHeader('Cache-Control', 'private, no-store');
+
+  try {
+    const { imports, report } = await resolveImport(rows);
+    if (dryRun !== '1' && imports.length > 0) {
+      // A dry run stores nothing, so it does not need a device yet
+      report.imported = await getCollectionStore().importEntries(getDeviceId(req, res), imports);
+    }
+    res.status(200).json(report);
+  } catch (error) {
+    if (error instanceof TmdbUpstreamError) {
+      logger.error('TMDB API error', { status: error.status, details: error.details });
+      return sendApiError(res, 502, {
+        kind: 'tmdb',
+        message: 'TMDB lookups failed during the import; nothing was saved.',
+        retryAfterSeconds: error.retryAfterSeconds,
+      });
+    }
+    if (error instanceof CollectionLimitError) {
+      return sendCollectionLimitError(res, error);
+    }
+    if (error instanceof TmdbRequestError) {
+      logger.error('Import lookup error', { message: error.message, issues: error.issues });
+      return sendApiError(res, 500, { kind: 'internal', message: 'An import lookup was rejected by the route registry.' });
+    }
+    logger.error('Collection import error', { error });
+    sendApiError(res, 500, { kind: 'storage', message: 'Could not import the collection.' });
+  }
+}
+
+export default withObservability('collections-import', handler);
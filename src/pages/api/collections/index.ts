@@ -0,0 +1,61 @@
+// src/pages/api/collections/index.ts
+
+import { NextApiRequest, NextApiResponse } from 'next';
+import { CollectionLimitError, getCollectionStore, parseCollectionUpdate, sendCollectionLimitError } from '@/lib/collection-store';
+import { COLLECTION_LISTS, CollectionList, inCollectionList } from '@/lib/collections';
+import { getDeviceId, readDeviceId } from '@/lib/device-id';
+import { enforceRateLimit } from '@/lib/rate-limit';
+import { sendApiError } from '@/lib/api-error';
+import { logger } from '@/lib/logger';
+import { withObservability } from '@/lib/observability';
+
+// GET   /api/collections[?list=watchlist|favorite|rated|seen]  -> { items }
+// PATCH /api/collections  { item, changes }                     -> { entry }
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET' && req.method !== 'PATCH') {
+    res.setHeader('Allow', 'GET, PATCH');
+    return sendApiError(res, 405, { kind: 'invalid_request', message: 'Method Not Allowed' });
+  }
+
+  if (!enforceRateLimit(req, res, 'collections')) return;
+
+  const store = getCollectionStore();
+  // Collections are personal; never let a shared cache keep them
+  res.setHeader('Cache-Control', 'private, no-store');
+
+  try {
+    if (req.method === 'GET') {
+      const { list } = req.query;
+      if (list !== undefined && !(typeof list === 'string' && (COLLECTION_LISTS as readonly string[]).includes(list))) {
+        return sendApiError(res, 400, {
+          kind: 'invalid_request',
+          message: `"list" must be one of ${COLLECTION_LISTS.join(', ')}.`,
+          errors: [{ param: 'list', code: 'invalid_value', message: 'Unknown collection list.' }],
+        });
+      }
+
+      // A device without an id has nothing stored yet
+      const deviceId = readDeviceId(req);
+      const items = deviceId ? await store.list(deviceId) : [];
+      return res.status(200).json({
+        items: list ? items.filter(entry => inCollectionList(entry, list as CollectionList)) : items,
+      });
+    }
+
+    const update = parseCollectionUpdate(req.body);
+    if (!('item' in update)) {
+      return sendApiError(res, 400, { kind: 'invalid_request', message: 'Invalid collection update.', errors: update.issues });
+    }
+
+    const entry = await store.update(getDeviceId(req, res), update.item, update.changes);
+    res.status(200).json({ entry });
+  } catch (error) {
+    if (error instanceof CollectionLimitError) {
+      return sendCollectionLimitError(res, error);
+    }
+    logger.error('Collection store error', { error });
+    sendApiError(res, 500, { kind: 'storage', message: 'Could not read or write the collection store.' });
+  }
+}
+
+export default withObservability('collections', handler);
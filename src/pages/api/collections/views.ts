@@ -0,0 +1,45 @@
+// src/pages/api/collections/views.ts
+
+import { NextApiRequest, NextApiResponse } from 'next';
+import { CollectionLimitError, getCollectionStore, sendCollectionLimitError } from '@/lib/collection-store';
+import { getDeviceId } from '@/lib/device-id';
+import { enforceRateLimit } from '@/lib/rate-limit';
+import { sendApiError } from '@/lib/api-error';
+import { logger } from '@/lib/logger';
+import { withObservability } from '@/lib/observability';
+
+// POST /api/collections/views  { id }  -> 204
+// Records that the device opened a movie's detail page, for the "For You" recommendations
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'POST') {
+    res.setHeader('Allow', 'POST');
+    return sendApiError(res, 405, { kind: 'invalid_request', message: 'Method Not Allowed' });
+  }
+
+  if (!enforceRateLimit(req, res, 'collections')) return;
+
+  const id = req.body?.id;
+  if (!Number.isInteger(id) || id < 1) {
+    return sendApiError(res, 400, {
+      kind: 'invalid_request',
+      message: 'Invalid movie view.',
+      errors: [{ param: 'id', code: 'invalid_value', message: '"id" must be a positive integer.' }],
+    });
+  }
+
+  const deviceId = getDeviceId(req, res);
+  res.setHeader('Cache-Control', 'private, no-store');
+
+  try {
+    await getCollectionStore().recordView(deviceId, id);
+    res.status(204).end();
+  } catch (error) {
+    if (error instanceof CollectionLimitError) {
+      return sendCollectionLimitError(res, error);
+    }
+    logger.error('Collection store error', { error });
+    sendApiError(res, 500, { kind: 'storage', message: 'Could not write the collection store.' });
+  }
+}
+
+export default withObservability('collections-views', handler);
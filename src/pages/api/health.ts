@@ -0,0 +1,19 @@
+// src/pages/api/health.ts
+
+import { NextApiRequest, NextApiResponse } from 'next';
+import { ApiErrorBody, sendApiError } from '@/lib/api-error';
+import { getHealthReport, HealthReport } from '@/lib/health';
+import { withObservability } from '@/lib/observability';
+
+// GET /api/health — 200 while TMDB works (status "ok" or "degraded"), 503 when it does not
+async function handler(req: NextApiRequest, res: NextApiResponse<HealthReport | ApiErrorBody>) {
+  if (req.method !== 'GET') {
+    return sendApiError(res, 405, { kind: 'invalid_request', message: 'Method Not Allowed' });
+  }
+
+  const report = await getHealthReport();
+  res.setHeader('Cache-Control', 'no-store');
+  res.status(report.status === 'down' ? 503 : 200).json(report);
+}
+
+export default withObservability('health', handler);
@@ -0,0 +1,75 @@
+// src/pages/api/hybrid-search.ts
+
+import { NextApiRequest, NextApiResponse } from 'next';
+import { hybridSearch, HybridPath } from '@/lib/hybrid-search';
+import { MAX_SEARCH_TERM_LENGTH, sanitizeSearchTerm } from '@/lib/search-query';
+import { matchRoute, validateRouteParams } from '@/lib/tmdb-routes';
+import { enforceRateLimit } from '@/lib/rate-limit';
+import { getTmdbToken, sendTmdbUpstreamError, TmdbUpstreamError } from '@/lib/tmdb-server';
+import { sendApiError } from '@/lib/api-error';
+import { logger } from '@/lib/logger';
+import { withObservability } from '@/lib/observability';
+import { readLocaleParam } from '@/lib/locale';
+
+const HYBRID_PATHS: readonly HybridPath[] = ['discover/movie', 'discover/tv'];
+
+// GET /api/hybrid-search?path=discover/movie&text=nolan&with_genres=878&page=1&locale=fr-FR
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return sendApiError(res, 405, { kind: 'invalid_request', message: 'Method Not Allowed' });
+  }
+
+  if (!enforceRateLimit(req, res, 'hybrid-search')) return;
+
+  const { path, text: rawText, locale: rawLocale, ...rest } = req.query;
+
+  if (!getTmdbToken()) {
+    logger.error('TMDB_ACCESS_TOKEN is not set');
+    return sendApiError(res, 500, { kind: 'config', message: 'Server configuration error: TMDB_ACCESS_TOKEN is missing.' });
+  }
+
+  if (typeof path !== 'string' || !(HYBRID_PATHS as readonly string[]).includes(path)) {
+    return sendApiError(res, 400, {
+      kind: 'invalid_request',
+      message: `"path" must be one of ${HYBRID_PATHS.join(', ')}.`,
+      errors: [{ param: 'path', code: 'invalid_path', message: 'Hybrid search only combines discover queries with text search.' }],
+    });
+  }
+
+  const text = typeof rawText === 'string' ? sanitizeSearchTerm(rawText) : '';
+  if (!text || text.length > MAX_SEARCH_TERM_LENGTH) {
+    return sendApiError(res, 400, {
+      kind: 'invalid_request',
+      message: `"text" is required and may be at most ${MAX_SEARCH_TERM_LENGTH} characters.`,
+      errors: [{ param: 'text', code: 'invalid_value', message: 'Missing or too long search text.' }],
+    });
+  }
+
+  const requested = readLocaleParam(rawLocale);
+  if ('issue' in requested) {
+    return sendApiError(res, 400, { kind: 'invalid_request', message: requested.issue.message, errors: [requested.issue] });
+  }
+
+  // The discover params go through the same schema as tmdb-proxy
+  const match = matchRoute(path);
+  const { params, issues } = match ? validateRouteParams(match.route, rest) : { params: {}, issues: [] };
+  if (issues.length > 0) {
+    return sendApiError(res, 400, { kind: 'invalid_request', message: `Invalid query parameters for "${path}".`, errors: issues });
+  }
+
+  const { page = '1', ...filters } = params;
+
+  try {
+    const result = await hybridSearch(path as HybridPath, filters, text, Number(page), requested.locale);
+    res.status(200).json(result);
+  } catch (error) {
+    if (error instanceof TmdbUpstreamError) {
+      return sendTmdbUpstreamError(res, error);
+    }
+
+    logger.error('Hybrid search error', { error });
+    sendApiError(res, 500, { kind: 'tmdb', message: 'Server network error when connecting to TMDB.' });
+  }
+}
+
+export default withObservability('hybrid-search', handler);
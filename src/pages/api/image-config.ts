@@ -0,0 +1,19 @@
+// src/pages/api/image-config.ts
+
+import { NextApiRequest, NextApiResponse } from 'next';
+import { ApiErrorBody, sendApiError } from '@/lib/api-error';
+import { withObservability } from '@/lib/observability';
+import type { ImageConfig } from '@/lib/tmdb-images';
+import { getImageConfig } from '@/lib/tmdb-server';
+
+// GET /api/image-config — TMDB's image base URL and sizes, which change rarely
+async function handler(req: NextApiRequest, res: NextApiResponse<ImageConfig | ApiErrorBody>) {
+  if (req.method !== 'GET') {
+    return sendApiError(res, 405, { kind: 'invalid_request', message: 'Method Not Allowed' });
+  }
+
+  res.setHeader('Cache-Control', 'public, max-age=86400');
+  res.status(200).json(await getImageConfig());
+}
+
+export default withObservability('image-config', handler);
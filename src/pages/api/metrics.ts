@@ -0,0 +1,22 @@
+// src/pages/api/metrics.ts
+
+import { NextApiRequest, NextApiResponse } from 'next';
+import { sendApiError } from '@/lib/api-error';
+import { renderMetrics } from '@/lib/metrics';
+
+// GET /api/metrics — Prometheus text format. When METRICS_TOKEN is set, scrapers
+// must send it as "Authorization: Bearer <token>".
+export default function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    return sendApiError(res, 405, { kind: 'invalid_request', message: 'Method Not Allowed' });
+  }
+
+  const token = process.env.METRICS_TOKEN;
+  if (token && req.headers.authorization !== `Bearer ${token}`) {
+    return sendApiError(res, 401, { kind: 'invalid_request', message: 'A valid metrics token is required.' });
+  }
+
+  res.setHeader('Content-Type', 'text/plain; version=0.0.4; charset=utf-8');
+  res.setHeader('Cache-Control', 'no-store');
+  res.status(200).send(renderMetrics());
+}
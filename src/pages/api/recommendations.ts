@@ -0,0 +1,63 @@
+// src/pages/api/recommendations.ts
+
+import { NextApiRequest, NextApiResponse } from 'next';
+import { getCollectionStore } from '@/lib/collection-store';
+import { readDeviceId } from '@/lib/device-id';
+import { getRecommendations, MAX_RECOMMENDATION_PAGES } from '@/lib/recommendations';
+import { enforceRateLimit } from '@/lib/rate-limit';
+import { getTmdbToken, sendTmdbUpstreamError, TmdbUpstreamError } from '@/lib/tmdb-server';
+import { sendApiError } from '@/lib/api-error';
+import { logger } from '@/lib/logger';
+import { withObservability } from '@/lib/observability';
+import { readLocaleParam } from '@/lib/locale';
+
+// GET /api/recommendations?page=1&locale=fr-FR
+// "For You" movies ranked against the caller's watchlist, favorites, ratings and opened movies
+async function handler(req: NextApiRequest, res: NextApiResponse) {
+  if (req.method !== 'GET') {
+    res.setHeader('Allow', 'GET');
+    return sendApiError(res, 405, { kind: 'invalid_request', message: 'Method Not Allowed' });
+  }
+
+  if (!enforceRateLimit(req, res, 'recommendations')) return;
+
+  if (!getTmdbToken()) {
+    logger.error('TMDB_ACCESS_TOKEN is not set');
+    return sendApiError(res, 500, { kind: 'config', message: 'Server configuration error: TMDB_ACCESS_TOKEN is missing.' });
+  }
+
+  const { page: rawPage = '1', locale: rawLocale } = req.query;
+  const page = Number(rawPage);
+  if (!Number.isInteger(page) || page < 1 || page > MAX_RECOMMENDATION_PAGES) {
+    return sendApiError(res, 400, {
+      kind: 'invalid_request',
+      message: `"page" must be an integer from 1 to ${MAX_RECOMMENDATION_PAGES}.`,
+      errors: [{ param: 'page', code: 'invalid_value', message: 'Page out of range.' }],
+    });
+  }
+
+  const requested = readLocaleParam(rawLocale);
+  if ('issue' in requested) {
+    return sendApiError(res, 400, { kind: 'invalid_request', message: requested.issue.message, errors: [requested.issue] });
+  }
+
+  const deviceId = readDeviceId(req);
+  // Built from personal history; never let a shared cache keep it
+  res.setHeader('Cache-Control', 'private, no-store');
+
+  try {
+    const store = getCollectionStore();
+    // Without a device id there is no history, which getRecommendations answers with an empty page
+    const [entries, views] = deviceId ? await Promise.all([store.list(deviceId), store.listViews(deviceId)]) : [[], []];
+    res.status(200).json(await getRecommendations(entries, views, page, requested.locale));
+  } catch (error) {
+    if (error instanceof TmdbUpstreamError) {
+      return sendTmdbUpstreamError(res, error);
+    }
+
+    logger.error('Recommendations error', { error });
+    sendApiError(res, 500, { kind: 'internal', message: 'Could not build recommendations.' });
+  }
+}
+
+export default withObservability('recommendations', handler);
@@ -1,68 +1,65 @@
 // src/pages/api/tmdb-proxy.ts
 
 import { NextApiRequest, NextApiResponse } from 'next';
+import { matchesIfNoneMatch } from '@/lib/response-cache';
+import { enforceRateLimit } from '@/lib/rate-limit';
+import { sendApiError } from '@/lib/api-error';
+import { logger } from '@/lib/logger';
+import { withObservability } from '@/lib/observability';
+import { readLocaleParam } from '@/lib/locale';
+import { getTmdbEntry, getTmdbToken, sendTmdbUpstreamError, TmdbRequestError, TmdbUpstreamError } from '@/lib/tmdb-server';
 
-const TMDB_API_BASE_URL = 'https://api.themoviedb.org/3/';
-const TMDB_TOKEN = process.env.TMDB_ACCESS_TOKEN;
-
-export default async function handler(req: NextApiRequest, res: NextApiResponse) {
+async function handler(req: NextApiRequest, res: NextApiResponse) {
   if (req.method !== 'GET') {
-    return res.status(405).json({ message: 'Method Not Allowed' });
+    return sendApiError(res, 405, { kind: 'invalid_request', message: 'Method Not Allowed' });
   }
 
-  // Destructure 'path' and capture all other potential query params with 'rest'
-  const { path, ...rest } = req.query;
+  if (!enforceRateLimit(req, res, 'tmdb-proxy')) return;
+
+  // Destructure 'path' and the content locale and capture all other potential query params with 'rest'
+  const { path, locale: rawLocale, ...rest } = req.query;
 
-  if (!TMDB_TOKEN) {
-    console.error('TMDB_ACCESS_TOKEN is not set in environment variables.');
-    return res.status(500).json({ 
-        message: 'Server configuration error: TMDB_ACCESS_TOKEN is missing.' 
-    });
+  if (!getTmdbToken()) {
+    logger.error('TMDB_ACCESS_TOKEN is not set');
+    return sendApiError(res, 500, { kind: 'config', message: 'Server configuration error: TMDB_ACCESS_TOKEN is missing.' });
   }
 
   if (typeof path !== 'string') {
-    return res.status(400).json({ message: 'Missing or invalid "path" query parameter.' });
+    return sendApiError(res, 400, { kind: 'invalid_request', message: 'Missing or invalid "path" query parameter.' });
   }
 
-  // Initialize the TMDB URL with the base path
-  const tmdbUrl = new URL(path, TMDB_API_BASE_URL);
-
-  // Add standard parameters
-  tmdbUrl.searchParams.set('language', 'en-US');
-  tmdbUrl.searchParams.set('page', '1');
-  tmdbUrl.searchParams.set('include_adult', 'false');
-
-  // Dynamically add all incoming query parameters (from the AI parser)
-  Object.entries(rest).forEach(([key, value]) => {
-      // Ensure the key is a string and value is either string or string array (we take the first)
-      if (typeof key === 'string' && value) {
-          const finalValue = Array.isArray(value) ? value[0] : String(value);
-          tmdbUrl.searchParams.set(key, finalValue);
-      }
-  });
+  const requested = readLocaleParam(rawLocale);
+  if ('issue' in requested) {
+    return sendApiError(res, 400, { kind: 'invalid_request', message: requested.issue.message, errors: [requested.issue] });
+  }
 
   try {
-    const tmdbResponse = await fetch(tmdbUrl.toString(), {
-      method: 'GET',
-      headers: {
-        'Authorization': `Bearer ${TMDB_TOKEN}`,
-        'accept': 'application/json',
-      },
-    });
+    // Only registry paths with valid parameters get this far
+    const { entry, cacheStatus } = await getTmdbEntry(path, rest, requested.locale);
+    res.setHeader('X-Cache', cacheStatus);
 
-    const data = await tmdbResponse.json();
+    const maxAge = Math.max(0, Math.floor((entry.expiresAt - Date.now()) / 1000));
+    res.setHeader('ETag', entry.etag);
+    res.setHeader('Cache-Control', `public, max-age=${maxAge}`);
 
-    if (!tmdbResponse.ok) {
-      console.error('TMDB API Error:', data);
-      return res.status(tmdbResponse.status).json({ 
-        message: `TMDB API failed with status ${tmdbResponse.status}.`, 
-        details: data 
-      });
+    if (matchesIfNoneMatch(req.headers['if-none-match'], entry.etag)) {
+      return res.status(304).end();
     }
 
-    res.status(200).json(data);
+    // Write the cached JSON text directly so Next.js does not replace our ETag with its own
+    res.setHeader('Content-Type', 'application/json; charset=utf-8');
+    res.status(200).end(entry.body);
   } catch (error) {
-    console.error('Proxy Fetch Error:', error);
-    res.status(500).json({ message: 'Server network error when connecting to TMDB.' });
+    if (error instanceof TmdbRequestError) {
+      return sendApiError(res, 400, { kind: 'invalid_request', message: error.message, errors: error.issues });
+    }
+    if (error instanceof TmdbUpstreamError) {
+      return sendTmdbUpstreamError(res, error);
+    }
+
+    logger.error('Proxy fetch error', { error });
+    sendApiError(res, 500, { kind: 'tmdb', message: 'Server network error when connecting to TMDB.' });
   }
-}
\ No newline at end of file
+}
+
+export default withObservability('tmdb-proxy', handler);
@@ -0,0 +1,73 @@
+// tests/api/ai-search-parser-fixture.test.ts
+
+// Drives the parser route through the fixture provider: recorded answers are
+// served as they are, and broken or missing recordings fall back to the rules.
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import handler from '@/pages/api/ai-search-parser';
+import type { SearchFixtures } from '@/lib/search-providers/fixture';
+import type { AISearchResult } from '@/lib/search-query';
+import { callApi } from '../helpers/api';
+
+const FIXTURES = {
+  'thrillers with tom hardy': {
+    path: 'discover/movie',
+    params: { sort_by: 'popularity.desc' },
+    names: { genres: ['Thriller'], cast: ['Tom Hardy'] },
+  },
+  'interstellar': { path: 'search/movie', params: { query: 'Interstellar' } },
+  // Recordings that no model answer should turn into a request
+  'crime shows': { path: 'person/525/movie_credits', params: {} },
+  'war movies': { path: 'discover/movie', params: { session_id: 'abc' } },
+  'comedies': 'Sorry, I can only answer questions about movies.',
+} as unknown as SearchFixtures;
+
+const parse = (searchTerm: string) => callApi<AISearchResult>(handler, { query: { searchTerm } });
+
+let dir: string;
+
+beforeAll(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'search-fixtures-'));
+  const file = path.join(dir, 'fixtures.json');
+  await fs.writeFile(file, JSON.stringify(FIXTURES));
+  // The provider is chosen on the first request of this file
+  vi.stubEnv('SEARCH_PARSER_PROVIDER', 'fixture');
+  vi.stubEnv('SEARCH_PARSER_FIXTURES', file);
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+describe('/api/ai-search-parser with recorded fixtures', () => {
+  it('serves a recording and resolves its names', async () => {
+    const { status, body } = await parse('Thrillers  with Tom Hardy');
+    expect(status).toBe(200);
+    expect(body.path).toBe('discover/movie');
+    expect(body.params).toMatchObject({ sort_by: 'popularity.desc', with_genres: '53', with_cast: '2524' });
+    expect(body.warnings ?? []).toEqual([]);
+  });
+
+  it('serves a text search as recorded', async () => {
+    const { body } = await parse('interstellar');
+    expect(body).toMatchObject({ path: 'search/movie', params: { query: 'Interstellar' } });
+    expect(body.warnings ?? []).toEqual([]);
+  });
+
+  it.each([
+    ['a path outside the allowlist', 'crime shows', /outside the allowed/],
+    ['a parameter outside the allowlist', 'war movies', /outside the allowed/],
+    ['an answer that is not JSON', 'comedies', /unavailable/],
+    ['no recording at all', 'westerns', /unavailable/],
+  ])('falls back to the rules for %s', async (_, term, reason) => {
+    const { status, body } = await parse(term);
+    expect(status).toBe(200);
+    expect(body.path).toMatch(/^discover\//);
+    expect(body.params).not.toHaveProperty('session_id');
+    expect(body.warnings).toContainEqual(expect.objectContaining({ code: 'parser_fallback', message: expect.stringMatching(reason) }));
+  });
+});
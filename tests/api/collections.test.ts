@@ -0,0 +1,44 @@
+// tests/api/collections.test.ts
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import handler from '@/pages/api/collections';
+import { DEVICE_COOKIE } from '@/lib/device-id';
+import { callApi } from '../helpers/api';
+
+const ITEM = { media_type: 'movie', id: 27205, title: 'Inception', poster_path: null, date: '2010-07-15', vote_average: 8.4 };
+
+let dir: string;
+
+beforeAll(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'collections-api-'));
+  // The store is created on the first request of this file
+  vi.stubEnv('COLLECTIONS_FILE', path.join(dir, 'collections.json'));
+});
+
+afterAll(async () => {
+  vi.unstubAllEnvs();
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+describe('/api/collections device ids', () => {
+  it('reads an empty collection without issuing a device id', async () => {
+    const { status, headers, body } = await callApi(handler);
+    expect(status).toBe(200);
+    expect(body).toEqual({ items: [] });
+    expect(headers['set-cookie']).toBeUndefined();
+  });
+
+  it('issues a device id on the first write and reads it back with it', async () => {
+    const write = await callApi(handler, { method: 'PATCH', body: { item: ITEM, changes: { watchlist: true } } });
+    expect(write.status).toBe(200);
+    const deviceId = new RegExp(`${DEVICE_COOKIE}=([^;]+)`).exec(write.headers['set-cookie'])?.[1];
+    expect(deviceId).toBeDefined();
+
+    const read = await callApi<{ items: { id: number }[] }>(handler, { cookies: { [DEVICE_COOKIE]: deviceId! } });
+    expect(read.body.items.map(entry => entry.id)).toEqual([27205]);
+    expect(read.headers['set-cookie']).toBeUndefined();
+  });
+});
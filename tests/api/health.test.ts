@@ -0,0 +1,25 @@
+// tests/api/health.test.ts
+
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import handler from '@/pages/api/health';
+import type { HealthReport } from '@/lib/health';
+import { callApi } from '../helpers/api';
+
+describe('/api/health', () => {
+  beforeAll(() => {
+    vi.stubEnv('TMDB_ACCESS_TOKEN', '');
+  });
+
+  it('answers 503 while TMDB is unusable', async () => {
+    const { status, headers, body } = await callApi<HealthReport>(handler);
+    expect(status).toBe(503);
+    expect(headers['cache-control']).toBe('no-store');
+    expect(body.status).toBe('down');
+    expect(body.dependencies.tmdb.state).toBe('unconfigured');
+  });
+
+  it('only answers GET', async () => {
+    const { status } = await callApi(handler, { method: 'POST' });
+    expect(status).toBe(405);
+  });
+});
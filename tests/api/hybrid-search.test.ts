@@ -0,0 +1,53 @@
+// tests/api/hybrid-search.test.ts
+
+import { describe, expect, it } from 'vitest';
+import handler from '@/pages/api/hybrid-search';
+import type { ApiErrorBody } from '@/lib/api-error';
+import type { HybridPage } from '@/lib/hybrid-search';
+import { callApi } from '../helpers/api';
+
+const hybrid = (query: Record<string, string>) => callApi<HybridPage>(handler, { query });
+
+describe('/api/hybrid-search', () => {
+  it('ranks titles matching both the text and the filters first', async () => {
+    const { status, body } = await hybrid({ path: 'discover/movie', with_genres: '878', text: 'Nolan' });
+    expect(status).toBe(200);
+    const top = body.results.slice(0, 2);
+    expect(top.map(item => item.title).sort()).toEqual(['Inception', 'Interstellar']);
+    top.forEach(item => expect(item.match.foundBy).toEqual(expect.arrayContaining(['filters', 'text'])));
+  });
+
+  it('pages through one ranking of the whole window', async () => {
+    const { body: first } = await hybrid({ path: 'discover/movie', with_genres: '878', text: 'Nolan' });
+    const { body: second } = await hybrid({ path: 'discover/movie', with_genres: '878', text: 'Nolan', page: '2' });
+    expect(first.total_results).toBe(first.results.length + second.results.length);
+    expect(first.total_pages).toBe(Math.ceil(first.total_results / 20));
+    expect(second).toMatchObject({ page: 2, total_pages: first.total_pages, total_results: first.total_results });
+    const scores = [...first.results, ...second.results].map(item => item.match.score);
+    expect(scores).toEqual([...scores].sort((a, b) => b - a));
+  });
+
+  it('still answers from the filters when the text search fails', async () => {
+    const { status, body } = await hybrid({ path: 'discover/movie', with_genres: '878', text: 'tmdb-error' });
+    expect(status).toBe(200);
+    expect(body.results.length).toBeGreaterThan(0);
+    body.results.forEach(item => expect(item.match.foundBy).toEqual(['filters']));
+  });
+
+  it('returns an empty page when neither source has anything', async () => {
+    const { status, body } = await hybrid({ path: 'discover/movie', with_genres: '99', text: 'no such title' });
+    expect(status).toBe(200);
+    expect(body.results).toEqual([]);
+  });
+
+  it('only combines discover queries', async () => {
+    const { status, body } = await callApi<ApiErrorBody>(handler, { query: { path: 'search/movie', text: 'Nolan' } });
+    expect(status).toBe(400);
+    expect(body.errors?.[0].code).toBe('invalid_path');
+  });
+
+  it('requires text', async () => {
+    const { status } = await hybrid({ path: 'discover/movie', with_genres: '878' });
+    expect(status).toBe(400);
+  });
+});
@@ -0,0 +1,79 @@
+// tests/api/tmdb-proxy.test.ts
+
+import { describe, expect, it } from 'vitest';
+import handler from '@/pages/api/tmdb-proxy';
+import type { ApiErrorBody } from '@/lib/api-error';
+import type { TmdbMovie, TmdbPage } from '@/lib/tmdb-types';
+import { callApi } from '../helpers/api';
+
+describe('/api/tmdb-proxy', () => {
+  it('serves an allowlisted list from TMDB, then from the cache', async () => {
+    const first = await callApi<TmdbPage<TmdbMovie>>(handler, { query: { path: 'movie/popular' } });
+    expect(first.status).toBe(200);
+    expect(first.headers['x-cache']).toBe('MISS');
+    expect(first.body.results[0].title).toBe('Interstellar');
+
+    const second = await callApi(handler, { query: { path: 'movie/popular' } });
+    expect(second.headers['x-cache']).toBe('HIT');
+    expect(second.headers.etag).toBe(first.headers.etag);
+  });
+
+  it('answers 304 when the client already has the response', async () => {
+    const first = await callApi(handler, { query: { path: 'genre/movie/list' } });
+    const again = await callApi(handler, {
+      query: { path: 'genre/movie/list' },
+      headers: { 'If-None-Match': first.headers.etag },
+    });
+    expect(again.status).toBe(304);
+  });
+
+  it('runs discover filters', async () => {
+    const { body } = await callApi<TmdbPage<TmdbMovie>>(handler, {
+      query: { path: 'discover/movie', with_genres: '878', with_cast: '2524' },
+    });
+    expect(body.results.map(movie => movie.title)).toEqual(['Inception', 'Mad Max: Fury Road']);
+  });
+
+  it('returns an empty page when nothing matches', async () => {
+    const { status, body } = await callApi<TmdbPage<TmdbMovie>>(handler, { query: { path: 'search/movie', query: 'no such title' } });
+    expect(status).toBe(200);
+    expect(body).toMatchObject({ results: [], total_results: 0 });
+  });
+
+  it('rejects paths outside the allowlist', async () => {
+    const { status, body } = await callApi<ApiErrorBody>(handler, { query: { path: 'account/1/lists' } });
+    expect(status).toBe(400);
+    expect(body.kind).toBe('invalid_request');
+    expect(body.errors?.[0].code).toBe('invalid_path');
+  });
+
+  it('rejects invalid parameters', async () => {
+    const { status, body } = await callApi<ApiErrorBody>(handler, { query: { path: 'discover/movie', sort_by: 'loudness.desc' } });
+    expect(status).toBe(400);
+    expect(body.errors?.map(issue => issue.param)).toContain('sort_by');
+  });
+
+  it('answers 503 once retries of a TMDB outage run out', async () => {
+    const { status, body } = await callApi<ApiErrorBody>(handler, { query: { path: 'search/multi', query: 'tmdb-error' } });
+    expect(status).toBe(503);
+    expect(body.kind).toBe('tmdb');
+  });
+
+  it("passes TMDB's Retry-After on when it is throttling", async () => {
+    const { status, headers, body } = await callApi<ApiErrorBody>(handler, { query: { path: 'search/multi', query: 'tmdb-rate-limit' } });
+    expect(status).toBe(503);
+    expect(body.retryAfterSeconds).toBe(1);
+    expect(headers['retry-after']).toBe('1');
+  });
+
+  it('passes a missing title on as a 404', async () => {
+    const { status, body } = await callApi<ApiErrorBody>(handler, { query: { path: 'movie/999999' } });
+    expect(status).toBe(404);
+    expect(body.kind).toBe('tmdb');
+  });
+
+  it('only answers GET', async () => {
+    const { status } = await callApi(handler, { method: 'POST', query: { path: 'movie/popular' } });
+    expect(status).toBe(405);
+  });
+});
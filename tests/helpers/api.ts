@@ -0,0 +1,85 @@
+// tests/helpers/api.ts
+
+// Calls a Next.js API route handler in-process, on a Node request and response
+// with the helpers Next.js adds (status, json, send), so route tests need no
+// running server.
+
+import { IncomingMessage, ServerResponse } from 'http';
+import { Socket } from 'net';
+import type { NextApiRequest, NextApiResponse } from 'next';
+
+type Handler = (req: NextApiRequest, res: NextApiResponse) => unknown | Promise<unknown>;
+
+export interface ApiCall {
+  method?: string;
+  query?: Record<string, string | string[]>;
+  headers?: Record<string, string>;
+  cookies?: Record<string, string>;
+  body?: unknown;
+}
+
+export interface ApiResult<T> {
+  status: number;
+  // Lower-cased names
+  headers: Record<string, string>;
+  body: T;
+}
+
+/**
+ * Runs `handler` for one request and returns what it answered. Text bodies
+ * are parsed as JSON when they are JSON.
+ */
+export async function callApi<T = unknown>(handler: Handler, call: ApiCall = {}): Promise<ApiResult<T>> {
+  const { method = 'GET', query = {}, headers = {}, cookies = {}, body } = call;
+
+  const search = new URLSearchParams();
+  Object.entries(query).forEach(([key, value]) => [value].flat().forEach(v => search.append(key, v)));
+
+  const req = Object.assign(new IncomingMessage(new Socket()), {
+    method,
+    url: `/api?${search}`,
+    headers: Object.fromEntries(Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value])),
+    query,
+    cookies,
+    body,
+  }) as NextApiRequest;
+
+  let payload: unknown;
+  const res = new ServerResponse<IncomingMessage>(req) as NextApiResponse;
+  const end = res.end.bind(res);
+  const capture = (data: unknown) => {
+    if (typeof data !== 'string') {
+      payload = data;
+      return;
+    }
+    try {
+      payload = JSON.parse(data);
+    } catch {
+      payload = data;
+    }
+  };
+
+  res.status = code => {
+    res.statusCode = code;
+    return res;
+  };
+  res.json = data => {
+    payload = data;
+    end();
+  };
+  res.send = data => {
+    capture(data);
+    end();
+  };
+  res.end = ((data?: unknown) => {
+    capture(data);
+    return end();
+  }) as NextApiResponse['end'];
+
+  await handler(req, res);
+
+  const responseHeaders = Object.fromEntries(
+    Object.entries(res.getHeaders()).map(([name, value]) => [name, Array.isArray(value) ? value.join(', ') : String(value)]),
+  );
+  return { status: res.statusCode, headers: responseHeaders, body: payload as T };
+}
@@ -0,0 +1,69 @@
+// tests/lib/collection-store.test.ts
+
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { CollectionLimitError, JsonFileCollectionStore } from '@/lib/collection-store';
+import type { CollectionItem } from '@/lib/collections';
+
+const item = (id: number): CollectionItem => ({
+  media_type: 'movie', id, title: `#${id}`, poster_path: null, date: '', vote_average: 0,
+});
+
+let dir: string;
+let store: JsonFileCollectionStore;
+
+beforeEach(async () => {
+  dir = await fs.mkdtemp(path.join(os.tmpdir(), 'collections-'));
+  store = new JsonFileCollectionStore(path.join(dir, 'collections.json'), { devices: 2, entriesPerDevice: 3, bytes: 2048 });
+});
+
+afterEach(async () => {
+  await fs.rm(dir, { recursive: true, force: true });
+});
+
+describe('JsonFileCollectionStore limits', () => {
+  it('refuses a title past the per-device limit but still updates existing ones', async () => {
+    await store.importEntries('device-a', [1, 2, 3].map(id => ({ item: item(id), changes: { watchlist: true } })));
+
+    await expect(store.update('device-a', item(4), { seen: true })).rejects.toMatchObject({ limit: 'entriesPerDevice' });
+    await expect(store.update('device-a', item(1), { seen: true })).resolves.toMatchObject({ watchlist: true, seen: true });
+    expect(await store.list('device-a')).toHaveLength(3);
+  });
+
+  it('refuses an import that would not fit, without saving any of it', async () => {
+    await store.update('device-a', item(1), { seen: true });
+    const imports = [1, 2, 3, 4].map(id => ({ item: item(id), changes: { seen: true } }));
+
+    await expect(store.importEntries('device-a', imports)).rejects.toBeInstanceOf(CollectionLimitError);
+    expect((await store.list('device-a')).map(entry => entry.id)).toEqual([1]);
+  });
+
+  it('refuses new devices once the store is full', async () => {
+    await store.update('device-a', item(1), { seen: true });
+    await store.recordView('device-b', 1);
+
+    await expect(store.update('device-c', item(1), { seen: true })).rejects.toMatchObject({ limit: 'devices' });
+    await expect(store.recordView('device-c', 1)).rejects.toMatchObject({ limit: 'devices' });
+    await expect(store.update('device-b', item(1), { seen: true })).resolves.not.toBeNull();
+  });
+
+  it('refuses writes that grow the file past its byte limit, but lets it shrink', async () => {
+    const long = (id: number): CollectionItem => ({ ...item(id), title: 'x'.repeat(600) });
+    await store.update('device-a', long(1), { seen: true });
+    await store.update('device-a', long(2), { seen: true });
+
+    await expect(store.update('device-b', long(3), { seen: true })).rejects.toMatchObject({ limit: 'bytes' });
+    expect(await store.list('device-b')).toEqual([]);
+    await expect(store.update('device-a', long(1), { seen: false })).resolves.toBeNull();
+    expect((await fs.stat(path.join(dir, 'collections.json'))).size).toBeLessThan(2048);
+  });
+
+  it('does not start a device for an update that stores nothing', async () => {
+    await store.update('device-a', item(1), { seen: true });
+    await store.update('device-b', item(1), { seen: true });
+
+    await expect(store.update('device-c', item(1), { seen: false })).resolves.toBeNull();
+  });
+});
@@ -0,0 +1,97 @@
+// tests/lib/collection-transfer.test.ts
+
+import { describe, expect, it } from 'vitest';
+import { exportCollection, MAX_IMPORT_ROWS, parseImport, resolveImport } from '@/lib/collection-transfer';
+import type { CollectionEntry } from '@/lib/collections';
+
+const entry = (id: number, title: string, flags: Partial<CollectionEntry>): CollectionEntry => ({
+  media_type: 'movie', id, title, poster_path: null, date: '2010-07-15', vote_average: 0,
+  watchlist: false, favorite: false, seen: false, rating: null,
+  key: `movie-${id}`, addedAt: '2025-03-09T21:30:00.000Z', updatedAt: '2025-03-09T21:30:00.000Z',
+  ...flags,
+});
+
+const ENTRIES = [
+  entry(27205, 'Inception', { seen: true, rating: 9 }),
+  entry(157336, 'Interstellar', { watchlist: true }),
+];
+
+describe('Letterboxd export', () => {
+  it('dates watched titles only, from when they were added', () => {
+    expect(exportCollection(ENTRIES, 'letterboxd').body.split('\r\n')).toEqual([
+      'tmdbID,Title,Year,Rating10,WatchedDate,Tags',
+      '27205,Inception,2010,9,2025-03-09,seen',
+      '157336,Interstellar,2010,,,watchlist',
+      '',
+    ]);
+  });
+
+  it('imports the watched date back', () => {
+    const rows = parseImport(exportCollection(ENTRIES, 'letterboxd').body, 'letterboxd');
+    expect(rows.map(row => ('value' in row ? row.value : row.problem))).toEqual([
+      expect.objectContaining({ tmdb_id: 27205, rating: 9, seen: true, added_at: '2025-03-09T00:00:00.000Z' }),
+      expect.objectContaining({ tmdb_id: 157336, watchlist: true, added_at: null }),
+    ]);
+  });
+});
+
+describe('CSV formula guard', () => {
+  const FORMULA = entry(27205, '=HYPERLINK("https://example.com")', { seen: true });
+
+  it('quotes formula-like cells in CSV and reads them back unchanged', () => {
+    const { body } = exportCollection([FORMULA], 'csv');
+    expect(body).toContain(`,"'=HYPERLINK(""https://example.com"")",`);
+    const [row] = parseImport(body, 'csv');
+    expect('value' in row && row.value.title).toBe(FORMULA.title);
+  });
+
+  it('leaves Letterboxd cells as they are', () => {
+    expect(exportCollection([FORMULA], 'letterboxd').body).toContain(`,"=HYPERLINK(""https://example.com"")",`);
+  });
+});
+
+describe('import parsing', () => {
+  it('reads Letterboxd diary headers with spaces', () => {
+    const rows = parseImport('Date,Name,Year,Letterboxd URI,Rating,Watched Date\n2025-03-10,Inception,2010,https://boxd.it/1,4.5,2025-03-09\n', 'letterboxd');
+    expect(rows).toEqual([{
+      row: 1,
+      value: expect.objectContaining({ title: 'Inception', year: 2010, rating: 9, seen: true, added_at: '2025-03-09T00:00:00.000Z' }),
+    }]);
+  });
+
+  it(`takes up to ${MAX_IMPORT_ROWS} rows`, () => {
+    const file = (rows: number) => `title\n${'Inception\n'.repeat(rows)}`;
+    expect(parseImport(file(MAX_IMPORT_ROWS), 'csv')).toHaveLength(MAX_IMPORT_ROWS);
+    expect(() => parseImport(file(MAX_IMPORT_ROWS + 1), 'csv')).toThrow(`Files are limited to ${MAX_IMPORT_ROWS} rows.`);
+  });
+});
+
+describe('import matching', () => {
+  const resolve = async (csv: string) => (await resolveImport(parseImport(csv, 'csv', 'watchlist'))).report;
+
+  it('matches titles ignoring case and accents, with or without a year', async () => {
+    const { imports, report } = await resolveImport(parseImport('title,year\namelie,2001\nInterstellar,\n', 'csv', 'watchlist'));
+    expect(report).toMatchObject({ rows: 2, matched: 2, ambiguous: [], unmatched: [], invalid: [] });
+    expect(imports.map(({ item }) => [item.id, item.title])).toEqual([[194, 'Amélie'], [157336, 'Interstellar']]);
+    expect(imports[0].changes).toEqual({ watchlist: true });
+  });
+
+  it('offers candidates when the year or the title does not match', async () => {
+    const report = await resolve('title,year\nDune,1984\nThe Dark,2008\n');
+    expect(report.matched).toBe(0);
+    expect(report.ambiguous).toEqual([
+      { row: 1, title: 'Dune', year: 1984, reason: 'The title matches, but not the year.', candidates: [{ tmdb_id: 438631, title: 'Dune', year: 2021 }] },
+      { row: 2, title: 'The Dark', year: 2008, reason: 'No exact title match.', candidates: [{ tmdb_id: 155, title: 'The Dark Knight', year: 2008 }] },
+    ]);
+  });
+
+  it('reports rows TMDB has nothing for, and invalid rows', async () => {
+    const report = await resolve('title,year\nNo Such Film,2001\nInception,20X0\n');
+    expect(report.unmatched).toEqual([
+      { row: 1, title: 'No Such Film', year: 2001, reason: 'No TMDB title matches this row.', candidates: [] },
+    ]);
+    expect(report.invalid).toEqual([
+      { row: 2, title: 'Inception', year: null, reason: '"20X0" is not a year.', candidates: [] },
+    ]);
+  });
+});
@@ -0,0 +1,83 @@
+// tests/lib/health.test.ts
+
+// The health summary against stubbed checks: TMDB decides between "down" and
+// the rest, the parser between "ok" and "degraded".
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { HealthChecks, runHealthChecks } from '@/lib/health';
+import { TmdbUpstreamError } from '@/lib/tmdb-server';
+
+const checks = (overrides: Partial<HealthChecks> = {}): HealthChecks => ({
+  tmdbConfigured: () => true,
+  pingTmdb: async () => {},
+  parserStatus: () => ({ provider: 'openai', mode: 'real', requested: 'openai' }),
+  pingParser: async () => {},
+  ...overrides,
+});
+
+describe('runHealthChecks', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('is ok when TMDB and a live parser both answer', async () => {
+    const report = await runHealthChecks(checks());
+    expect(report.status).toBe('ok');
+    expect(report.dependencies.tmdb.state).toBe('ok');
+    expect(report.dependencies.llm.state).toBe('ok');
+  });
+
+  it('is down without a TMDB token, and does not call TMDB', async () => {
+    const pingTmdb = vi.fn(async () => {});
+    const report = await runHealthChecks(checks({ tmdbConfigured: () => false, pingTmdb }));
+    expect(report.status).toBe('down');
+    expect(report.dependencies.tmdb).toEqual({ state: 'unconfigured', message: 'TMDB_ACCESS_TOKEN is not set.' });
+    expect(pingTmdb).not.toHaveBeenCalled();
+  });
+
+  it('is down when TMDB fails', async () => {
+    const report = await runHealthChecks(checks({
+      pingTmdb: async () => { throw new TmdbUpstreamError(401, null); },
+    }));
+    expect(report.status).toBe('down');
+    expect(report.dependencies.tmdb).toMatchObject({ state: 'down', message: 'TMDB answered 401.' });
+  });
+
+  it('is degraded when the parser fell back to the rules', async () => {
+    const pingParser = vi.fn(async () => {});
+    const report = await runHealthChecks(checks({
+      parserStatus: () => ({ provider: 'rules', mode: 'rules', requested: 'openai', fallbackReason: 'AI_API_KEY is not set' }),
+      pingParser,
+    }));
+    expect(report.status).toBe('degraded');
+    expect(report.dependencies.llm).toEqual({ state: 'unconfigured', message: 'AI_API_KEY is not set.' });
+    expect(pingParser).not.toHaveBeenCalled();
+  });
+
+  it('is degraded on recorded fixtures or the fake LLM', async () => {
+    const report = await runHealthChecks(checks({
+      parserStatus: () => ({ provider: 'fake', mode: 'mock', requested: 'fake' }),
+      pingParser: undefined,
+    }));
+    expect(report.status).toBe('degraded');
+    expect(report.dependencies.llm.state).toBe('skipped');
+  });
+
+  it('is ok on the rule parser when it was asked for', async () => {
+    const report = await runHealthChecks(checks({
+      parserStatus: () => ({ provider: 'rules', mode: 'rules', requested: 'rules' }),
+    }));
+    expect(report.status).toBe('ok');
+    expect(report.dependencies.llm.state).toBe('skipped');
+  });
+
+  it('is degraded when the LLM does not answer in time', async () => {
+    vi.useFakeTimers();
+    const pending = runHealthChecks(checks({ pingParser: () => new Promise<void>(() => {}) }));
+    await vi.advanceTimersByTimeAsync(3000);
+    const report = await pending;
+    expect(report.status).toBe('degraded');
+    expect(report.dependencies.llm).toMatchObject({ state: 'down', message: 'No answer within 3000ms.' });
+    expect(report.dependencies.tmdb.state).toBe('ok');
+  });
+});
@@ -0,0 +1,76 @@
+// tests/lib/rate-limit.test.ts
+
+// Token buckets on their own with explicit clocks, then through
+// enforceRateLimit and takeLlmBudget with limits set from the environment.
+
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import type { NextApiRequest, NextApiResponse } from 'next';
+import { enforceRateLimit, takeLlmBudget, TokenBucketLimiter } from '@/lib/rate-limit';
+import { callApi } from '../helpers/api';
+
+const fromClient = (ip: string) => ({ headers: {}, socket: { remoteAddress: ip } }) as unknown as NextApiRequest;
+
+describe('TokenBucketLimiter', () => {
+  it('allows a burst up to the capacity, then says when to retry', () => {
+    const limiter = new TokenBucketLimiter({ capacity: 3, windowSeconds: 60 });
+    expect([0, 1, 2].map(() => limiter.take('a', 0).remaining)).toEqual([2, 1, 0]);
+    expect(limiter.take('a', 0)).toEqual({ allowed: false, limit: 3, remaining: 0, retryAfterSeconds: 20 });
+    expect(limiter.take('b', 0).allowed).toBe(true);
+  });
+
+  it('refills evenly over the window', () => {
+    const limiter = new TokenBucketLimiter({ capacity: 2, windowSeconds: 10 });
+    limiter.take('a', 0);
+    limiter.take('a', 0);
+    expect(limiter.take('a', 4_000)).toMatchObject({ allowed: false, retryAfterSeconds: 1 });
+    expect(limiter.take('a', 5_000)).toMatchObject({ allowed: true, remaining: 0 });
+    // A long idle spell refills to the capacity, not past it
+    expect(limiter.take('a', 600_000)).toMatchObject({ allowed: true, remaining: 1 });
+  });
+
+  it('forgets the least recently used clients past its cap', () => {
+    const limiter = new TokenBucketLimiter({ capacity: 1, windowSeconds: 60 }, 2);
+    limiter.take('a', 0);
+    limiter.take('b', 0);
+    limiter.take('a', 1);
+    limiter.take('c', 2);
+    // "b" was used longest ago, so it starts over with a full bucket
+    expect(limiter.take('b', 3).allowed).toBe(true);
+    expect(limiter.take('c', 3).allowed).toBe(false);
+  });
+});
+
+describe('limits from the environment', () => {
+  beforeAll(() => {
+    vi.stubEnv('RATE_LIMITS_DISABLED', '');
+    vi.stubEnv('RATE_LIMIT_TMDB_PROXY', '2/60');
+    vi.stubEnv('RATE_LIMIT_LLM', '2/300');
+    vi.stubEnv('RATE_LIMIT_LLM_GLOBAL', '3/3600');
+  });
+
+  const limited = (req: NextApiRequest, res: NextApiResponse) => {
+    if (enforceRateLimit(req, res, 'tmdb-proxy')) res.status(200).json({ ok: true });
+  };
+
+  it('answers 429 with Retry-After once RATE_LIMIT_<NAME> is used up', async () => {
+    const first = await callApi(limited);
+    expect(first.status).toBe(200);
+    expect(first.headers['x-ratelimit-limit']).toBe('2');
+    expect(first.headers['x-ratelimit-remaining']).toBe('1');
+    await callApi(limited);
+
+    const rejected = await callApi(limited);
+    expect(rejected.status).toBe(429);
+    expect(rejected.headers['retry-after']).toBe('30');
+    expect(rejected.body).toMatchObject({ kind: 'rate_limited', retryAfterSeconds: 30 });
+  });
+
+  it('spends the client budget before the shared LLM budget', () => {
+    expect(takeLlmBudget(fromClient('10.0.0.1')).allowed).toBe(true);
+    expect(takeLlmBudget(fromClient('10.0.0.1')).allowed).toBe(true);
+    // Rejected by the client bucket, so the shared one still has a call left
+    expect(takeLlmBudget(fromClient('10.0.0.1'))).toMatchObject({ allowed: false, limit: 2 });
+    expect(takeLlmBudget(fromClient('10.0.0.2')).allowed).toBe(true);
+    expect(takeLlmBudget(fromClient('10.0.0.3'))).toMatchObject({ allowed: false, limit: 3 });
+  });
+});
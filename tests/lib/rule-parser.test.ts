@@ -0,0 +1,96 @@
+// tests/lib/rule-parser.test.ts
+
+// Table of queries and the TMDB request the offline parser should build for
+// each. `now` is fixed so relative phrases ("this year", "newest") are stable.
+
+import { describe, expect, it } from 'vitest';
+import { parseQueryRules } from '@/lib/rule-parser';
+import type { AISearchResult } from '@/lib/search-query';
+
+const NOW = new Date(2025, 5, 15);
+
+type Expected = Omit<AISearchResult, 'sources'>;
+
+const CASES: [string, Expected][] = [
+  // Titles and names
+  ['inception', { path: 'search/multi', params: { query: 'inception' } }],
+  ['Breaking Bad series', { path: 'search/tv', params: { query: 'Breaking Bad' } }],
+  ['show me Interstellar film', { path: 'search/movie', params: { query: 'Interstellar' } }],
+  // Titles containing sort or genre words stay text searches
+  ['Top Gun', { path: 'search/multi', params: { query: 'Top Gun' } }],
+  ['The Best Years of Our Lives', { path: 'search/multi', params: { query: 'The Best Years of Our Lives' } }],
+  ['war of the worlds', { path: 'search/multi', params: { query: 'war of the worlds' } }],
+  ['top gun', { path: 'search/multi', params: { query: 'top gun' } }],
+  ['Top Gun movie', { path: 'search/movie', params: { query: 'Top Gun' } }],
+  // ...but after a name they describe it, and hybrid search looks the name up
+  ["Nolan's mind-bending sci-fi", { path: 'discover/movie', params: {}, names: { genres: ['Science Fiction'] } }],
+  ['Spielberg sci-fi', { path: 'discover/movie', params: {}, names: { genres: ['Science Fiction'] } }],
+  ['Tarantino westerns', { path: 'discover/movie', params: {}, names: { genres: ['Western'] } }],
+  ['Christopher Nolan thrillers', { path: 'discover/movie', params: {}, names: { genres: ['Thriller'] } }],
+  ['best Nolan movies', { path: 'discover/movie', params: { sort_by: 'vote_average.desc', 'vote_count.gte': '300' } }],
+  // Years that belong to the title
+  ['Blade Runner 2049', { path: 'search/multi', params: { query: 'Blade Runner 2049' } }],
+  ['2001: A Space Odyssey', { path: 'search/multi', params: { query: '2001: A Space Odyssey' } }],
+  ['1917', { path: 'search/multi', params: { query: '1917' } }],
+  // A year next to a title filters the movie search
+  ['Dune 2021', { path: 'search/movie', params: { query: 'Dune', primary_release_year: '2021' } }],
+  ['Pulp Fiction 1994', { path: 'search/movie', params: { query: 'Pulp Fiction', primary_release_year: '1994' } }],
+  ['The Office series 2005', { path: 'search/tv', params: { query: 'The Office', first_air_date_year: '2005' } }],
+  // Sort and genre words describing what to discover
+  ['war movies', { path: 'discover/movie', params: {}, names: { genres: ['War'] } }],
+  ['top 10 movies', { path: 'discover/movie', params: { sort_by: 'vote_average.desc', 'vote_count.gte': '300' } }],
+  ['movies with a high rating', { path: 'discover/movie', params: { 'vote_average.gte': '7.5' } }],
+  ['Best Horror Movies Ever', {
+    path: 'discover/movie',
+    params: { sort_by: 'vote_average.desc', 'vote_count.gte': '300' },
+    names: { genres: ['Horror'] },
+  }],
+  ['best of 2024', {
+    path: 'discover/movie',
+    params: { primary_release_year: '2024', sort_by: 'vote_average.desc', 'vote_count.gte': '300' },
+  }],
+  ['top rated crime series', {
+    path: 'discover/tv',
+    params: { sort_by: 'vote_average.desc', 'vote_count.gte': '100' },
+    names: { genres: ['Crime'] },
+  }],
+  ['newest comedies', {
+    path: 'discover/movie',
+    params: { sort_by: 'primary_release_date.desc', 'primary_release_date.lte': '2025-06-15' },
+    names: { genres: ['Comedy'] },
+  }],
+  // Other filters
+  ['sci-fi movies with Tom Hardy', {
+    path: 'discover/movie',
+    params: {},
+    names: { genres: ['Science Fiction'], cast: ['Tom Hardy'] },
+  }],
+  ['romantic comedies from the 90s', {
+    path: 'discover/movie',
+    params: { 'primary_release_date.gte': '1990-01-01', 'primary_release_date.lte': '1999-12-31' },
+    names: { genres: ['Romance', 'Comedy'] },
+  }],
+  ['highest rated french films under 2 hours', {
+    path: 'discover/movie',
+    params: { 'with_runtime.lte': '120', with_original_language: 'fr', sort_by: 'vote_average.desc', 'vote_count.gte': '300' },
+  }],
+  ['horror movies about zombies', { path: 'discover/movie', params: {}, names: { genres: ['Horror'], keywords: ['zombie'] } }],
+  ['comedy movies from this year', { path: 'discover/movie', params: { primary_release_year: '2025' }, names: { genres: ['Comedy'] } }],
+  ['trending movies this week', { path: 'trending/movie/week', params: {} }],
+];
+
+describe('parseQueryRules', () => {
+  it.each(CASES)('%s', (term, expected) => {
+    const { path, params, names } = parseQueryRules(term, NOW);
+    expect({ path, params, ...(names ? { names } : {}) }).toEqual(expected);
+  });
+
+  it('lists the phrases it recognised in query order', () => {
+    expect(parseQueryRules('best sci-fi movies from the 90s', NOW).sources).toEqual([
+      { kind: 'sort', phrase: 'best' },
+      { kind: 'genre', phrase: 'sci-fi' },
+      { kind: 'media', phrase: 'movies' },
+      { kind: 'date', phrase: 'from the 90s' },
+    ]);
+  });
+});
@@ -0,0 +1,108 @@
+// tests/lib/search-explanation.test.ts
+
+// Chips for parsed searches: how sure each one is depending on where the
+// filter came from, and how ids and values are labelled.
+
+import { describe, expect, it } from 'vitest';
+import { chipsForQuery, explainSearchResult } from '@/lib/search-explanation';
+import type { AISearchResult, SearchFilterChip } from '@/lib/search-query';
+
+const SCI_FI = { kind: 'genre' as const, name: 'sci-fi', id: 878, matchedName: 'Science Fiction' };
+const TOM_HARDY = { kind: 'cast' as const, name: 'Tom Hardy', id: 2524, matchedName: 'Tom Hardy' };
+
+// Chip id -> [source, confidence]
+const scores = (chips: SearchFilterChip[]) =>
+  Object.fromEntries(chips.map(chip => [chip.id, [chip.source, chip.confidence]]));
+
+describe('explainSearchResult', () => {
+  it('trusts filters the rule parser read from a phrase over those it derived', () => {
+    const result: AISearchResult = {
+      path: 'discover/movie',
+      params: { with_genres: '878', 'vote_average.gte': '8', 'vote_count.gte': '300' },
+      sources: [{ kind: 'genre', phrase: 'sci-fi' }, { kind: 'rating', phrase: 'rated above 8' }],
+      resolution: { resolved: [SCI_FI], unresolved: [] },
+    };
+    expect(scores(explainSearchResult('sci-fi rated above 8', result))).toEqual({
+      // Fuzzy name matches lose a tenth
+      'with_genres:878': ['sci-fi', 0.86],
+      'vote_average.gte:8': ['rated above 8', 0.95],
+      // The vote floor that comes with a rating filter has no phrase of its own
+      'vote_count.gte:300': [undefined, 0.7],
+    });
+  });
+
+  it('looks LLM filters up in the query and trusts unbacked ones less', () => {
+    const result: AISearchResult = {
+      path: 'discover/movie',
+      params: { with_genres: '878', primary_release_year: '2015', 'vote_average.gte': '7' },
+      resolution: { resolved: [SCI_FI], unresolved: [] },
+    };
+    expect(scores(explainSearchResult('Sci-Fi from 2015', result))).toEqual({
+      'with_genres:878': ['Sci-Fi', 0.72],
+      'primary_release_year:2015': ['2015', 0.8],
+      'vote_average.gte:7': [undefined, 0.5],
+    });
+  });
+
+  it('trusts values the server had to repair least', () => {
+    const result: AISearchResult = {
+      path: 'discover/movie',
+      params: { 'vote_average.gte': '7.5' },
+      warnings: [{ code: 'value_repaired', param: 'vote_average.gte', message: 'Read "vote_average.gte" value "7.5+" as "7.5".' }],
+    };
+    expect(explainSearchResult('rated 7.5+', result)).toEqual([expect.objectContaining({ source: '7.5', confidence: 0.4 })]);
+  });
+
+  it('labels ids with their resolved names and falls back to the id', () => {
+    const result: AISearchResult = {
+      path: 'discover/movie',
+      params: { with_cast: '2524,6193', with_genres: '878' },
+      resolution: { resolved: [TOM_HARDY, SCI_FI], unresolved: [] },
+    };
+    expect(explainSearchResult('', result).map(chip => [chip.label, chip.kind, chip.editable, chip.removable])).toEqual([
+      ['Starring Tom Hardy', 'cast', false, true],
+      ['Starring #6193', 'cast', false, true],
+      ['Science Fiction', 'genre', false, true],
+    ]);
+  });
+
+  it('labels values in the requested language', () => {
+    const result: AISearchResult = {
+      path: 'discover/movie',
+      params: { 'vote_average.gte': '8', with_original_language: 'ko', sort_by: 'vote_average.desc' },
+    };
+    expect(explainSearchResult('', result, { language: 'fr', region: 'FR' }).map(chip => chip.label)).toEqual([
+      'Note ≥ 8',
+      'En coréen',
+      'Tri : note',
+    ]);
+  });
+
+  it('keeps the text of a title search fixed', () => {
+    const [chip] = explainSearchResult('Dune', { path: 'search/movie', params: { query: 'Dune' } });
+    expect(chip).toMatchObject({ kind: 'query', label: '“Dune”', source: 'Dune', confidence: 1, editable: true, removable: false });
+  });
+});
+
+describe('chipsForQuery', () => {
+  it('gives filters the user chose full confidence and labels ids from the names it is given', () => {
+    const chips = chipsForQuery(
+      { path: 'discover/movie', with_genres: '878', with_cast: '2524', 'vote_average.gte': '7' },
+      [],
+      { 'with_cast:2524': 'Tom Hardy' },
+    );
+    expect(chips.map(chip => [chip.label, chip.source, chip.confidence])).toEqual([
+      ['#878', undefined, 1],
+      ['Starring Tom Hardy', undefined, 1],
+      ['Rating ≥ 7', undefined, 1],
+    ]);
+  });
+
+  it('reuses chips it already knows', () => {
+    const known: SearchFilterChip = {
+      id: 'with_genres:878', kind: 'genre', label: 'Science Fiction', param: 'with_genres', value: '878',
+      source: 'sci-fi', confidence: 0.86, editable: false, removable: true,
+    };
+    expect(chipsForQuery({ path: 'discover/movie', with_genres: '878' }, [known])).toEqual([known]);
+  });
+});
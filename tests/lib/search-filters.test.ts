@@ -0,0 +1,36 @@
+// tests/lib/search-filters.test.ts
+
+import { describe, expect, it } from 'vitest';
+import { EMPTY_FILTERS, filtersFromQuery, queryFromFilters, resetBase } from '@/lib/search-filters';
+
+const SCI_FI = { ...EMPTY_FILTERS, genres: [878] };
+
+describe('queryFromFilters', () => {
+  it('carries over the discover filters the panel has no control for', () => {
+    const base = { path: 'discover/movie', with_cast: '2524', with_genres: '28', sort_by: 'vote_average.desc' };
+    expect(queryFromFilters(SCI_FI, base, 'US')).toEqual({
+      path: 'discover/movie',
+      params: { with_cast: '2524', with_genres: '878', sort_by: 'popularity.desc' },
+    });
+  });
+
+  it('keeps the text of a title search to rank the discover results', () => {
+    const base = { path: 'search/movie', query: 'dune', primary_release_year: '2021' };
+    expect(queryFromFilters({ ...filtersFromQuery(base), genres: [878] }, base, 'US')).toEqual({
+      path: 'discover/movie',
+      params: { with_genres: '878', 'primary_release_date.gte': '2021-01-01', 'primary_release_date.lte': '2021-12-31', sort_by: 'popularity.desc' },
+      hybridText: 'dune',
+    });
+  });
+
+  it('carries nothing over once the base was reset', () => {
+    const base = { path: 'discover/movie', with_cast: '2524', with_keywords: '1566' };
+    expect(queryFromFilters(EMPTY_FILTERS, resetBase(base), 'US')).toEqual({ path: 'discover/movie', params: { sort_by: 'popularity.desc' } });
+  });
+
+  it('keeps the search text through a reset', () => {
+    const reset = resetBase({ path: 'search/tv', query: 'the office', first_air_date_year: '2005' });
+    expect(reset).toEqual({ path: 'search/tv', query: 'the office' });
+    expect(queryFromFilters({ ...EMPTY_FILTERS, media: 'tv' }, reset, 'US').hybridText).toBe('the office');
+  });
+});
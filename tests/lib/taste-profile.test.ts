@@ -0,0 +1,156 @@
+// tests/lib/taste-profile.test.ts
+
+// The "For You" ranking against fixture histories: the profile built from
+// them, the genres it rules out and the order candidates come back in.
+
+import { describe, expect, it } from 'vitest';
+import type { CollectionEntry } from '@/lib/collections';
+import { getRecommendations } from '@/lib/recommendations';
+import {
+  buildTasteProfile,
+  CandidateMovie,
+  CandidateSources,
+  dislikedFeatures,
+  rankCandidates,
+  SeedMovie,
+  signalWeight,
+  topFeatures,
+} from '@/lib/taste-profile';
+
+const ACTION = 28;
+const ADVENTURE = 12;
+const CRIME = 80;
+const DRAMA = 18;
+const SCIENCE_FICTION = 878;
+const THRILLER = 53;
+
+const INCEPTION: SeedMovie = { id: 27205, title: 'Inception', genreIds: [ACTION, SCIENCE_FICTION, ADVENTURE], keywordIds: [1566], castIds: [6193, 2524], year: 2010 };
+const INTERSTELLAR: SeedMovie = { id: 157336, title: 'Interstellar', genreIds: [ADVENTURE, DRAMA, SCIENCE_FICTION], keywordIds: [9882], castIds: [10297], year: 2014 };
+const PULP_FICTION: SeedMovie = { id: 680, title: 'Pulp Fiction', genreIds: [THRILLER, CRIME], keywordIds: [], castIds: [8891], year: 1994 };
+
+const FLAGS = { watchlist: false, favorite: false, seen: false, rating: null };
+const NO_SOURCES: CandidateSources = { taste: true, castIds: [], keywordIds: [], similarTo: [] };
+
+// Loved Inception, put Interstellar on the watchlist, rated Pulp Fiction 1 out of 10
+const profile = buildTasteProfile([
+  { movie: INCEPTION, weight: signalWeight({ ...FLAGS, favorite: true }, false) },
+  { movie: INTERSTELLAR, weight: signalWeight({ ...FLAGS, watchlist: true }, false) },
+  { movie: PULP_FICTION, weight: signalWeight({ ...FLAGS, rating: 1 }, false) },
+]);
+
+const candidate = (id: number, genreIds: number[], releaseDate = '2012-01-01'): { movie: CandidateMovie; sources: CandidateSources } => ({
+  movie: { id, title: `#${id}`, genre_ids: genreIds, release_date: releaseDate, vote_average: 7.5, vote_count: 1000 },
+  sources: NO_SOURCES,
+});
+
+describe('signalWeight', () => {
+  it.each([
+    ['rated 10', { ...FLAGS, rating: 10 }, false, 1],
+    ['rated 1', { ...FLAGS, rating: 1 }, false, -1],
+    ['rated 5.5 would be neutral, 6 leans positive', { ...FLAGS, rating: 6 }, false, 0.111],
+    ['favourite', { ...FLAGS, favorite: true }, false, 1],
+    ['watchlist', { ...FLAGS, watchlist: true }, false, 0.5],
+    ['seen', { ...FLAGS, seen: true }, false, 0.2],
+    ['a rating replaces seen', { ...FLAGS, seen: true, rating: 10 }, false, 1],
+    ['opened only', undefined, true, 0.3],
+    ['nothing', undefined, false, 0],
+  ])('%s', (_, flags, viewed, weight) => {
+    expect(signalWeight(flags, viewed)).toBe(weight);
+  });
+});
+
+describe('buildTasteProfile', () => {
+  it('scales each kind of feature so the strongest is 1', () => {
+    expect(Object.fromEntries(profile.genres)).toEqual({
+      [SCIENCE_FICTION]: 1,
+      [ADVENTURE]: 1,
+      [ACTION]: expect.closeTo(2 / 3),
+      [DRAMA]: expect.closeTo(1 / 3),
+      [THRILLER]: expect.closeTo(-2 / 3),
+      [CRIME]: expect.closeTo(-2 / 3),
+    });
+    expect(Object.fromEntries(profile.decades)).toEqual({ 2010: 1, 1990: expect.closeTo(-2 / 3) });
+    expect(profile.cast.get(6193)).toBe(1);
+    expect(profile.cast.get(8891)).toBe(-1);
+  });
+
+  it('keeps only positive seeds, strongest first', () => {
+    expect(profile.seeds.map(seed => seed.movie.title)).toEqual(['Inception', 'Interstellar']);
+  });
+
+  it('breaks ties between features by id', () => {
+    expect(topFeatures(profile.genres, 3)).toEqual([ADVENTURE, SCIENCE_FICTION, ACTION]);
+  });
+});
+
+describe('dislikedFeatures', () => {
+  it('rules out the genres of badly rated movies', () => {
+    expect(dislikedFeatures(profile.genres)).toEqual([THRILLER, CRIME]);
+  });
+
+  it('keeps a disliked genre that liked movies make up for', () => {
+    const mixed = buildTasteProfile([
+      { movie: PULP_FICTION, weight: -1 },
+      { movie: { ...INCEPTION, genreIds: [THRILLER] }, weight: 1 },
+    ]);
+    expect(dislikedFeatures(mixed.genres)).toEqual([CRIME]);
+  });
+});
+
+describe('rankCandidates', () => {
+  it('ranks liked genres above disliked ones and drops non-positive scores', () => {
+    const ranked = rankCandidates([
+      candidate(1, [THRILLER, CRIME], '1995-01-01'),
+      candidate(2, [SCIENCE_FICTION, ADVENTURE]),
+      candidate(3, [DRAMA]),
+    ], profile, new Set(), new Map([[SCIENCE_FICTION, 'Science Fiction'], [ADVENTURE, 'Adventure']]));
+
+    expect(ranked.map(({ movie }) => movie.id)).toEqual([2, 3]);
+    expect(ranked[0].match.reasons).toEqual(['Matches your taste for Science Fiction, Adventure', 'From the 2010s, a decade you enjoy']);
+  });
+
+  it('leaves out titles in the collection', () => {
+    const ranked = rankCandidates([candidate(2, [SCIENCE_FICTION]), candidate(4, [SCIENCE_FICTION])], profile, new Set([2]));
+    expect(ranked.map(({ movie }) => movie.id)).toEqual([4]);
+  });
+
+  it('orders equal scores by id, whatever order the candidates came in', () => {
+    const candidates = [candidate(30, [ADVENTURE]), candidate(10, [ADVENTURE]), candidate(20, [ADVENTURE])];
+    const forward = rankCandidates(candidates, profile, new Set());
+    const backward = rankCandidates([...candidates].reverse(), profile, new Set());
+
+    expect(new Set(forward.map(({ match }) => match.score)).size).toBe(1);
+    expect(forward.map(({ movie }) => movie.id)).toEqual([10, 20, 30]);
+    expect(backward).toEqual(forward);
+  });
+
+  it('gives its reasons in the requested locale', () => {
+    const [ranked] = rankCandidates([candidate(2, [SCIENCE_FICTION])], profile, new Set(), new Map([[SCIENCE_FICTION, 'Science-fiction']]), { language: 'fr', region: 'FR' });
+    expect(ranked.match.reasons).toEqual(['Correspond à votre goût pour Science-fiction', 'Des années 2010, une décennie que vous appréciez']);
+  });
+
+  it('credits the seeds that recommended a candidate', () => {
+    const [ranked] = rankCandidates([{ ...candidate(5, [ADVENTURE]), sources: { ...NO_SOURCES, similarTo: [INCEPTION.id] } }], profile, new Set());
+    expect(ranked.match.foundBy).toEqual(['taste', 'similar']);
+    expect(ranked.match.reasons[0]).toBe('Because you liked Inception');
+  });
+});
+
+describe('getRecommendations', () => {
+  const entry = (id: number, title: string, flags: Partial<typeof FLAGS>): CollectionEntry => ({
+    media_type: 'movie', id, title, poster_path: null, date: '', vote_average: 0,
+    ...FLAGS, ...flags, key: `movie-${id}`, addedAt: '2025-01-01T00:00:00.000Z', updatedAt: '2025-01-01T00:00:00.000Z',
+  });
+
+  it('leaves out collection titles but keeps movies that were only opened', async () => {
+    const { results } = await getRecommendations(
+      [entry(INCEPTION.id, 'Inception', { favorite: true }), entry(603, 'The Matrix', { seen: true })],
+      [{ id: INTERSTELLAR.id, viewedAt: '2025-01-02T00:00:00.000Z' }],
+    );
+    const ids = results.map(movie => movie.id);
+
+    expect(ids).not.toContain(INCEPTION.id);
+    expect(ids).not.toContain(603);
+    expect(ids).toContain(INTERSTELLAR.id);
+  });
+});
@@ -0,0 +1,33 @@
+// tests/setup/mock-tmdb.ts
+
+// Starts mock/tmdb/server.mjs before the test run and stops it afterwards.
+// The port comes from MOCK_TMDB_PORT in vitest.config.mts.
+
+import { ChildProcess, spawn } from 'child_process';
+import path from 'path';
+import type { TestProject } from 'vitest/node';
+
+const SERVER = path.join(process.cwd(), 'mock/tmdb/server.mjs');
+const STARTUP_TIMEOUT_MS = 10_000;
+
+export default async function setup(project: TestProject): Promise<() => void> {
+  const server: ChildProcess = spawn(process.execPath, [SERVER], {
+    env: { ...process.env, MOCK_TMDB_PORT: project.config.env.MOCK_TMDB_PORT },
+    stdio: ['ignore', 'pipe', 'inherit'],
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    const timer = setTimeout(() => reject(new Error('The mock TMDB server did not start.')), STARTUP_TIMEOUT_MS);
+    server.once('exit', code => reject(new Error(`The mock TMDB server exited with code ${code}.`)));
+    server.stdout?.on('data', (chunk: Buffer) => {
+      if (chunk.toString().includes('listening')) {
+        clearTimeout(timer);
+        resolve();
+      }
+    });
+  });
+
+  return () => {
+    server.kill();
+  };
+}
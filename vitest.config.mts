@@ -0,0 +1,30 @@
+// vitest.config.mts
+
+// Unit and API-route tests. They run offline: TMDB is the mock in mock/tmdb,
+// started once for the whole run, and the search parser is the fake LLM.
+
+import { fileURLToPath } from 'url';
+import { defineConfig } from 'vitest/config';
+
+const MOCK_TMDB_PORT = 4011;
+
+export default defineConfig({
+  resolve: {
+    alias: { '@': fileURLToPath(new URL('./src', import.meta.url)) },
+  },
+  test: {
+    include: ['tests/**/*.test.ts'],
+    environment: 'node',
+    globalSetup: ['tests/setup/mock-tmdb.ts'],
+    env: {
+      MOCK_TMDB_PORT: String(MOCK_TMDB_PORT),
+      TMDB_API_BASE_URL: `http://127.0.0.1:${MOCK_TMDB_PORT}/3/`,
+      TMDB_ACCESS_TOKEN: 'offline',
+      TMDB_CACHE_STORE: 'memory',
+      TMDB_MAX_RETRIES: '0',
+      SEARCH_PARSER_PROVIDER: 'fake',
+      RATE_LIMITS_DISABLED: '1',
+      LOG_LEVEL: 'error',
+    },
+  },
+});